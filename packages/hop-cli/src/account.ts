@@ -0,0 +1,384 @@
+/**
+ * hop accounts verify / export — Keep git's idea of identity in line with hop.json.
+ *
+ * `verify` compares, for every project with a git repo on disk, what git will
+ * actually use with the effective GitHub account (`resolveGitHubAccount`):
+ *
+ *   - The origin remote points at the repo hop.json declares in `git.remote_url`
+ *     (an SSH host alias in place of github.com still counts as the same repo).
+ *   - An ssh account with a `git_alias` pushes through that host alias, and no
+ *     remote goes through another account's alias.
+ *   - `user.email` — the repo's own, else ~/.gitconfig — is the account's
+ *     `email` when one is declared, and never another account's address or
+ *     GitHub noreply address.
+ *
+ * `export` writes that setup out instead of leaving it to be done by hand: a
+ * `Host` block per alias for ~/.ssh/config, and for ~/.gitconfig an
+ * `includeIf "gitdir:"` section per `account_override` project pointing at a
+ * per-account file with its email and an `insteadOf` rewrite to its alias.
+ * Only a marked block of ~/.ssh/config and ~/.gitconfig belongs to hop; the
+ * rest of each file is left as it is.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import type { GitHubAccount, HopConfig, ResolvedHopConfig, SourceLocation } from "@hop-org/hop-spec-core";
+import { expandHome, formatLocation, locate, resolveGitHubAccount } from "@hop-org/hop-spec-core";
+import { parseGitConfig, readGitConfig } from "./discover.js";
+import { unifiedDiff } from "./diff.js";
+
+export type VerifyIssueKind = "no_account" | "remote_mismatch" | "wrong_alias" | "wrong_email";
+
+export interface VerifyIssue {
+  kind: VerifyIssueKind;
+  message: string;
+  /** Where the declared value is written, for issues about hop.json. */
+  location?: SourceLocation;
+}
+
+export interface VerifyEntry {
+  name: string;
+  path?: string;
+  status: "ok" | "problem" | "skipped";
+  /** Why the project was skipped. */
+  reason?: string;
+  account?: string;
+  remote_url?: string;
+  /** `remote_url` after `url.<base>.insteadOf` rewrites: what git connects to. */
+  rewritten_url?: string;
+  user_email?: string;
+  /** The config file that sets `user_email`: ".git/config", "~/.gitconfig" or an include. */
+  user_email_from?: string;
+  issues: VerifyIssue[];
+}
+
+export interface VerifyResult {
+  projects: VerifyEntry[];
+  ok: number;
+  problems: number;
+  skipped: number;
+}
+
+interface RemoteParts {
+  host: string;
+  /** owner/repo, lower-cased, without .git. */
+  repo: string;
+}
+
+/** Host and repo of an scp-style, ssh:// or https:// remote. */
+function parseRemote(url: string): RemoteParts | undefined {
+  const m =
+    /^[a-z+]+:\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/(.+)$/i.exec(url) ??
+    /^(?:[^@/]+@)?([^/:]+):(?!\/)(.+)$/.exec(url);
+  if (!m) return undefined;
+  return { host: m[1].toLowerCase(), repo: m[2].replace(/\/+$/, "").replace(/\.git$/, "").toLowerCase() };
+}
+
+const NOREPLY = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i;
+
+type GitConfigSections = Record<string, Record<string, string>>;
+
+/** One config file as git layers them, lowest priority first. */
+interface GitConfigLayer {
+  /** Shown as where a value came from; ~ for the home directory. */
+  file: string;
+  sections: GitConfigSections;
+}
+
+const tildify = (path: string) => (path.startsWith(homedir() + "/") ? `~${path.slice(homedir().length)}` : path);
+
+function readConfigLayer(path: string): GitConfigLayer | undefined {
+  try {
+    if (!existsSync(path)) return undefined;
+    return { file: tildify(path), sections: parseGitConfig(readFileSync(path, "utf-8")) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * ~/.gitconfig as git sees it from the repo at `dir`: followed by the files it
+ * pulls in with `[include]`, and with `[includeIf "gitdir:…"]` sections whose
+ * pattern covers the repo — exact paths and trailing-slash prefixes, one level
+ * deep, which is what `hop accounts export gitconfig` writes.
+ */
+function globalGitConfig(dir: string): GitConfigLayer[] {
+  const home = join(homedir(), ".gitconfig");
+  const root = readConfigLayer(home);
+  if (!root) return [];
+  const gitDir = `${resolve(dir, ".git")}/`;
+  const layers = [root];
+  for (const [name, values] of Object.entries(root.sections)) {
+    const m = /^include(?:if "gitdir(\/i)?:(.+)")?$/.exec(name);
+    if (!m || !values.path) continue;
+    if (m[2] !== undefined) {
+      const pattern = resolve(expandHome(m[2])) + (m[2].endsWith("/") ? "/" : "");
+      const [a, b] = m[1] ? [gitDir.toLowerCase(), pattern.toLowerCase()] : [gitDir, pattern];
+      if (!(b.endsWith("/") ? a.startsWith(b) : a === `${b}/`)) continue;
+    }
+    const included = readConfigLayer(resolve(dirname(home), expandHome(values.path)));
+    if (included) layers.push(included);
+  }
+  return layers;
+}
+
+/** The last layer to set `section.key`, with the file it came from. */
+function lookup(layers: GitConfigLayer[], section: string, key: string): { value: string; file: string } | undefined {
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const value = layers[i].sections[section]?.[key];
+    if (value !== undefined) return { value, file: layers[i].file };
+  }
+  return undefined;
+}
+
+/** Apply the longest matching `url.<base>.insteadOf` from any layer, as git does. */
+function rewriteUrl(layers: GitConfigLayer[], url: string): string {
+  let best: { base: string; prefix: string } | undefined;
+  for (const { sections } of layers) {
+    for (const [name, values] of Object.entries(sections)) {
+      const base = /^url "(.+)"$/.exec(name)?.[1];
+      const prefix = values.insteadof;
+      if (base && prefix && url.startsWith(prefix) && (!best || prefix.length > best.prefix.length)) best = { base, prefix };
+    }
+  }
+  return best ? best.base + url.slice(best.prefix.length) : url;
+}
+
+function checkEmail(email: string, account: GitHubAccount, accounts: GitHubAccount[]): string | undefined {
+  const same = (a?: string) => !!a && a.toLowerCase() === email.toLowerCase();
+  if (account.email) {
+    return same(account.email) ? undefined : `user.email is ${email}, but account '${account.username}' commits as ${account.email}`;
+  }
+  const owner = accounts.find((a) => a !== account && same(a.email));
+  if (owner) return `user.email ${email} belongs to account '${owner.username}', not '${account.username}'`;
+  const noreply = NOREPLY.exec(email)?.[1];
+  if (noreply && noreply.toLowerCase() !== account.username.toLowerCase()) {
+    return `user.email ${email} is the GitHub noreply address of '${noreply}', not '${account.username}'`;
+  }
+  return undefined;
+}
+
+/**
+ * Verify every project without printing anything. `resolved` is used to
+ * point remote mismatches at the hop.json line declaring the remote.
+ */
+export function computeAccountsVerify(config: HopConfig, opts: { resolved?: ResolvedHopConfig } = {}): VerifyResult {
+  const accounts = config.accounts?.github ?? [];
+  const aliases = new Set(accounts.flatMap((a) => (a.git_alias ? [a.git_alias.toLowerCase()] : [])));
+  const github = (host: string) => host === "github.com" || aliases.has(host);
+  const projects: VerifyEntry[] = [];
+
+  (config.projects ?? []).forEach((project, i) => {
+    const entry: VerifyEntry = { name: project.name, status: "ok", issues: [] };
+    if (project.path) entry.path = project.path;
+    const gitConfig = project.path ? readGitConfig(project.path) : undefined;
+    if (!project.path || !gitConfig) {
+      entry.status = "skipped";
+      entry.reason = project.path ? `no git repo at ${project.path}` : "no path";
+      projects.push(entry);
+      return;
+    }
+
+    const layers = [...globalGitConfig(project.path), { file: ".git/config", sections: gitConfig }];
+    const remote = gitConfig['remote "origin"']?.url;
+    const pushUrl = remote && rewriteUrl(layers, remote);
+    if (remote) entry.remote_url = remote;
+    if (pushUrl && pushUrl !== remote) entry.rewritten_url = pushUrl;
+    const email = lookup(layers, "user", "email");
+    if (email) {
+      entry.user_email = email.value;
+      entry.user_email_from = email.file;
+    }
+
+    const declared = project.git?.remote_url;
+    const actual = pushUrl ? parseRemote(pushUrl) : undefined;
+    const expected = declared ? parseRemote(declared) : undefined;
+    if (declared && (!actual || !expected || actual.repo !== expected.repo ||
+        (actual.host !== expected.host && !(github(actual.host) && github(expected.host))))) {
+      const location = opts.resolved && locate(opts.resolved, `/projects/${i}/git/remote_url`);
+      entry.issues.push({
+        kind: "remote_mismatch",
+        message: remote ? `origin is ${remote}, but hop.json declares ${declared}` : `no origin remote, but hop.json declares ${declared}`,
+        ...(location ? { location } : {}),
+      });
+    }
+
+    const { effective, explanation } = resolveGitHubAccount(config, project);
+    if (!effective) {
+      entry.issues.push({ kind: "no_account", message: explanation[explanation.length - 1] });
+    } else {
+      const { account, auth_method, git_alias } = effective;
+      entry.account = account.username;
+      if (actual) {
+        const other = accounts.find((a) => a !== account && a.git_alias?.toLowerCase() === actual.host);
+        if (other) {
+          entry.issues.push({
+            kind: "wrong_alias",
+            message: `origin goes through host alias '${other.git_alias}' of account '${other.username}', not '${account.username}'`,
+          });
+        } else if (auth_method === "ssh" && git_alias && actual.host !== git_alias.toLowerCase()) {
+          entry.issues.push({
+            kind: "wrong_alias",
+            message: `origin goes to ${actual.host}, not SSH host alias '${git_alias}' of account '${account.username}'.`,
+          });
+        }
+      }
+      const wrongEmail = email && checkEmail(email.value, account, accounts);
+      if (wrongEmail) entry.issues.push({ kind: "wrong_email", message: wrongEmail });
+    }
+
+    if (entry.issues.length > 0) entry.status = "problem";
+    projects.push(entry);
+  });
+
+  const count = (status: VerifyEntry["status"]) => projects.filter((p) => p.status === status).length;
+  return { projects, ok: count("ok"), problems: count("problem"), skipped: count("skipped") };
+}
+
+export function runAccountsVerify(config: HopConfig, opts: { json?: boolean; resolved?: ResolvedHopConfig }): void {
+  const result = computeAccountsVerify(config, { resolved: opts.resolved });
+
+  if (opts.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    const nameWidth = Math.max(4, ...result.projects.map((p) => p.name.length));
+    const kindWidth = Math.max(...result.projects.flatMap((p) => p.issues.map((i) => i.kind.length)), 0);
+    for (const p of result.projects) {
+      if (p.status === "skipped") {
+        console.log(`- ${p.name.padEnd(nameWidth)}  skipped: ${p.reason}`);
+        continue;
+      }
+      const detail = [p.account ?? "(no account)", p.remote_url ?? "(no origin)"].join("  ");
+      console.log(`${p.status === "ok" ? "✓" : "✗"} ${p.name.padEnd(nameWidth)}  ${detail}`);
+      for (const issue of p.issues) {
+        const where = issue.location ? `  (${formatLocation(issue.location, process.cwd())})` : "";
+        console.log(`    ${issue.kind.padEnd(kindWidth)}  ${issue.message}${where}`);
+      }
+    }
+    console.log("");
+    console.log(`Summary: ${result.ok} ok, ${result.problems} with problems, ${result.skipped} skipped`);
+  }
+
+  if (result.problems > 0) process.exitCode = 1;
+}
+
+// ---------- export ----------
+
+export const EXPORT_FORMATS = ["ssh-config", "gitconfig"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const BLOCK_BEGIN = "# >>> hop accounts >>>";
+const BLOCK_END = "# <<< hop accounts <<<";
+
+/** A file `hop accounts export` writes: whole, or only hop's marked block in it. */
+export interface ExportFile {
+  path: string;
+  content: string;
+  block: boolean;
+}
+
+/** Replace hop's marked block in `existing`, or append one. */
+export function spliceBlock(existing: string, content: string): string {
+  const block = `${BLOCK_BEGIN}\n${content}${BLOCK_END}\n`;
+  const start = existing.indexOf(BLOCK_BEGIN);
+  const end = existing.indexOf(BLOCK_END, start);
+  if (start !== -1 && end !== -1) {
+    const after = existing.slice(end + BLOCK_END.length).replace(/^\n/, "");
+    return existing.slice(0, start) + block + after;
+  }
+  if (existing === "") return block;
+  return `${existing.replace(/\n*$/, "\n")}\n${block}`;
+}
+
+/** Accounts that get a Host block: active ssh accounts with a `git_alias`. */
+function aliasedAccounts(config: HopConfig): GitHubAccount[] {
+  return (config.accounts?.github ?? []).filter(
+    (a) => a.active !== false && (a.auth_method ?? "ssh") === "ssh" && !!a.git_alias
+  );
+}
+
+function renderSshConfig(config: HopConfig): string {
+  const lines = ["# Generated by `hop accounts export ssh-config` from hop.json accounts."];
+  for (const account of aliasedAccounts(config)) {
+    lines.push(
+      "",
+      `# ${account.username}${account.role ? ` (${account.role})` : ""}`,
+      `Host ${account.git_alias}`,
+      "  HostName github.com",
+      "  User git",
+      `  IdentityFile ${account.ssh_key ?? `~/.ssh/id_ed25519_${account.username}`}`,
+      "  IdentitiesOnly yes"
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** The per-account include: its commit email and a rewrite of github.com to its alias. */
+function renderAccountInclude(account: GitHubAccount): string | undefined {
+  const lines: string[] = [];
+  if (account.email) lines.push("[user]", `\temail = ${account.email}`);
+  if ((account.auth_method ?? "ssh") === "ssh" && account.git_alias) {
+    lines.push(`[url "git@${account.git_alias}:"]`, "\tinsteadOf = git@github.com:");
+  }
+  if (lines.length === 0) return undefined;
+  return [`# Generated by \`hop accounts export gitconfig\` for account '${account.username}'.`, ...lines].join("\n") + "\n";
+}
+
+function renderGitconfig(config: HopConfig, mainPath: string, includeDir: string): ExportFile[] {
+  const includes = new Map<string, ExportFile>();
+  const lines = ["# Generated by `hop accounts export gitconfig` from hop.json account_override projects."];
+  for (const project of config.projects ?? []) {
+    if (!project.path) continue;
+    const effective = resolveGitHubAccount(config, project).effective;
+    if (effective?.source !== "account_override") continue;
+    const { account } = effective;
+    const path = join(includeDir, `${account.username}.gitconfig`);
+    if (!includes.has(account.username)) {
+      const content = renderAccountInclude(account);
+      if (!content) continue;
+      includes.set(account.username, { path, content, block: false });
+    }
+    lines.push(`[includeIf "gitdir:${resolve(expandHome(project.path))}/"]`, `\tpath = ${path}`);
+  }
+  return [...includes.values(), { path: mainPath, content: `${lines.join("\n")}\n`, block: true }];
+}
+
+/**
+ * The files an export writes, in write order. `file` replaces the default
+ * target (~/.ssh/config or ~/.gitconfig); per-account gitconfig includes go
+ * in ~/.hop/git.
+ */
+export function planAccountsExport(config: HopConfig, format: ExportFormat, file?: string): ExportFile[] {
+  if (format === "ssh-config") {
+    return [{ path: file ?? join(homedir(), ".ssh", "config"), content: renderSshConfig(config), block: true }];
+  }
+  return renderGitconfig(config, file ?? join(homedir(), ".gitconfig"), join(homedir(), ".hop", "git"));
+}
+
+export function runAccountsExport(config: HopConfig, format: string, opts: { check?: boolean; file?: string }): void {
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    console.error(`Error: Unknown format '${format}'. Supported: ${EXPORT_FORMATS.join(", ")}`);
+    process.exit(1);
+    return;
+  }
+
+  let stale = 0;
+  for (const target of planAccountsExport(config, format as ExportFormat, opts.file)) {
+    const before = existsSync(target.path) ? readFileSync(target.path, "utf-8") : "";
+    const after = target.block ? spliceBlock(before, target.content) : target.content;
+    if (before === after) {
+      console.log(`✓ ${target.path} is up to date`);
+      continue;
+    }
+    if (opts.check) {
+      stale++;
+      console.log(unifiedDiff(before, after, target.path));
+      continue;
+    }
+    mkdirSync(dirname(target.path), { recursive: true, mode: 0o700 });
+    writeFileSync(target.path, after, { mode: 0o600 });
+    console.log(`✓ ${before === "" ? "Created" : "Updated"} ${target.path}`);
+  }
+  if (stale > 0) process.exitCode = 1;
+}
@@ -13,8 +13,8 @@
 import { readdirSync, existsSync, statSync } from "node:fs";
 import { join, resolve, basename } from "node:path";
 import { homedir } from "node:os";
-import type { HopConfig } from "@hop-org/hop-spec-core";
-import { infraRepoName } from "@hop-org/hop-spec-core";
+import type { HopConfig, ResolvedHopConfig, SourceLocation } from "@hop-org/hop-spec-core";
+import { infraRepoName, locate, formatLocation } from "@hop-org/hop-spec-core";
 
 // Directories to always skip when scanning
 const SKIP_NAMES = new Set([
@@ -35,6 +35,8 @@ export interface AuditEntry {
   path: string;
   source: string;       // which managed dir or "filesystem"
   has_git: boolean;
+  /** Where the entry is written, for entries that come from hop.json. */
+  location?: SourceLocation;
 }
 
 /**
@@ -155,6 +157,8 @@ function scanForStrays(
 export interface AuditOptions {
   json?: boolean;
   scan?: boolean;
+  /** The loaded config with its sources, used to locate stale entries. */
+  resolved?: ResolvedHopConfig;
 }
 
 /**
@@ -164,7 +168,10 @@ export interface AuditOptions {
  * the same reconciliation data in their own format instead of re-implementing
  * the orphan/stale/stray rules and drifting from them.
  */
-export function computeAudit(config: HopConfig, opts: { scan?: boolean } = {}): AuditResult {
+export function computeAudit(
+  config: HopConfig,
+  opts: { scan?: boolean; resolved?: ResolvedHopConfig } = {}
+): AuditResult {
   const registeredPaths = getRegisteredPaths(config);
   const managedDirs = getManagedDirs(config);
   const result: AuditResult = {
@@ -190,16 +197,18 @@ export function computeAudit(config: HopConfig, opts: { scan?: boolean } = {}):
   }
 
   // --- Stale check: registered paths that don't exist on disk ---
-  for (const p of config.projects ?? []) {
+  (config.projects ?? []).forEach((p, i) => {
     if (p.path && !existsSync(p.path)) {
+      const location = opts.resolved && locate(opts.resolved, `/projects/${i}/path`);
       result.stale.push({
         name: p.name,
         path: p.path,
         source: "projects",
         has_git: false,
+        ...(location ? { location } : {}),
       });
     }
-  }
+  });
 
   // --- Stray scan: git repos outside managed dirs (optional) ---
   if (opts.scan) {
@@ -210,7 +219,7 @@ export function computeAudit(config: HopConfig, opts: { scan?: boolean } = {}):
 }
 
 export async function runAudit(config: HopConfig, opts: AuditOptions): Promise<void> {
-  const result = computeAudit(config, { scan: opts.scan });
+  const result = computeAudit(config, { scan: opts.scan, resolved: opts.resolved });
   const managedDirs = result.managed_dirs;
 
   // --- Output ---
@@ -247,7 +256,8 @@ export async function runAudit(config: HopConfig, opts: AuditOptions): Promise<v
   if (result.stale.length > 0) {
     console.log(`Stale (${result.stale.length}): registered projects whose paths don't exist on disk`);
     for (const s of result.stale) {
-      console.log(`  ${s.name}  ->  ${s.path}`);
+      const where = s.location ? `  (${formatLocation(s.location, process.cwd())})` : "";
+      console.log(`  ${s.name}  ->  ${s.path}${where}`);
     }
     console.log("");
   }
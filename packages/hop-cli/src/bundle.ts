@@ -0,0 +1,235 @@
+/**
+ * hop bundle create|add-project|remove-project|set-primary|delete — edit
+ * `bundles` without breaking their references.
+ *
+ * A bundle is a list of project names plus an optional primary, and both
+ * must name projects that exist. These commands refuse a name that is not in
+ * `projects` up front, with a clearer message than the validator's, and keep
+ * `primary_project` inside `projects` as members come and go. Removing a
+ * project (`hop project remove`) takes it out of every bundle through
+ * `bundleEditsForProjectRemoval` below.
+ *
+ * With `extends`, a bundle's `projects` list is replaced wholesale by the
+ * latest file that sets it, so edits go to that file.
+ */
+
+import type { Bundle, JsonEdit, ResolvedHopConfig } from "@hop-org/hop-spec-core";
+import { originOf, sourcesOf } from "@hop-org/hop-spec-core";
+import { checkEditsOrExit, commitCheckedWrite } from "./mutate.js";
+
+interface BundleOptions {
+  resolved: ResolvedHopConfig;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+export interface BundleCreateOptions extends BundleOptions {
+  name?: string;
+  description?: string;
+  primary?: string;
+}
+
+/** Edits grouped by file, in the order they must run. */
+type FileEdits = Map<string, JsonEdit[]>;
+
+function addEdit(edits: FileEdits, file: string, edit: JsonEdit): void {
+  edits.set(file, [...(edits.get(file) ?? []), edit]);
+}
+
+function fail(message: string, hint?: string): void {
+  console.error(`Error: ${message}`);
+  if (hint) console.error(hint);
+  process.exit(1);
+}
+
+function findBundle(resolved: ResolvedHopConfig, id: string): number {
+  const bundles = resolved.config.bundles ?? [];
+  const index = bundles.findIndex((b) => b.id === id);
+  if (index < 0) {
+    fail(
+      `Bundle '${id}' not found.`,
+      bundles.length > 0 ? `Available bundles: ${bundles.map((b) => b.id).join(", ")}` : undefined
+    );
+  }
+  return index;
+}
+
+/** Fail unless every name is a registered project. */
+function requireProjects(resolved: ResolvedHopConfig, names: string[]): boolean {
+  const known = new Set((resolved.config.projects ?? []).map((p) => p.name));
+  const unknown = names.filter((n) => !known.has(n));
+  if (unknown.length > 0) {
+    fail(
+      `Unknown project${unknown.length === 1 ? "" : "s"}: ${unknown.join(", ")}`,
+      known.size > 0 ? `Available: ${[...known].join(", ")}` : "Add it first with `hop project add`."
+    );
+    return false;
+  }
+  return true;
+}
+
+/** Where a bundle field was written, or where it would go. */
+function bundleField(resolved: ResolvedHopConfig, index: number, field: string): { file: string; pointer: string } {
+  const existing = originOf(resolved, `/bundles/${index}/${field}`);
+  if (existing) return existing;
+  // Not set anywhere yet: add it to the bundle's entry closest to the user.
+  const entry = originOf(resolved, `/bundles/${index}`)!;
+  return { file: entry.file, pointer: `${entry.pointer}/${field}` };
+}
+
+/**
+ * Edits that take `name` out of every bundle listing it, clearing
+ * primary_project where it was the primary. Returns a note per change, or an
+ * error when a bundle would be left with no projects (the schema requires at
+ * least one) — deleting a bundle is left to the user.
+ */
+export function bundleEditsForProjectRemoval(
+  resolved: ResolvedHopConfig,
+  name: string,
+  edits: FileEdits = new Map()
+): { edits: FileEdits; notes: string[]; error?: string } {
+  const notes: string[] = [];
+  const bundles = resolved.config.bundles ?? [];
+  for (const [i, b] of bundles.entries()) {
+    const positions = b.projects.flatMap((p, j) => (p === name ? [j] : []));
+    if (positions.length === 0) continue;
+    if (positions.length === b.projects.length) {
+      return { edits, notes, error: `Bundle '${b.id}' would be left empty. Delete it first with \`hop bundle delete ${b.id}\`.` };
+    }
+    const list = bundleField(resolved, i, "projects");
+    // Highest index first, so earlier positions still hold.
+    for (const j of positions.reverse()) addEdit(edits, list.file, { op: "remove", pointer: `${list.pointer}/${j}` });
+    notes.push(`removed from bundle '${b.id}'`);
+    if (b.primary_project === name) {
+      const primary = bundleField(resolved, i, "primary_project");
+      addEdit(edits, primary.file, { op: "remove", pointer: primary.pointer });
+      notes.push(`cleared primary_project of bundle '${b.id}'`);
+    }
+  }
+  return { edits, notes };
+}
+
+function report(opts: BundleOptions, edits: FileEdits, message: string, json: Record<string, unknown>): void {
+  const check = checkEditsOrExit(opts.resolved, edits);
+  if (!check || !commitCheckedWrite(check, opts)) return;
+
+  const files = [...check.changes.keys()];
+  if (opts.json) {
+    console.log(JSON.stringify({ files, dry_run: !!opts.dryRun, ...json }, null, 2));
+    return;
+  }
+  console.log(`${opts.dryRun ? "~" : "✓"} ${message}`);
+  console.log(opts.dryRun ? "  Dry run — nothing written." : `  Saved to ${files.join(", ")}`);
+}
+
+export async function runBundleCreate(id: string, projects: string[], opts: BundleCreateOptions): Promise<void> {
+  const { resolved } = opts;
+  if ((resolved.config.bundles ?? []).some((b) => b.id === id)) {
+    fail(`A bundle with id '${id}' already exists.`);
+    return;
+  }
+  if (!requireProjects(resolved, projects)) return;
+  if (opts.primary !== undefined && !projects.includes(opts.primary)) {
+    fail(`Primary project '${opts.primary}' must be one of the bundle's projects.`);
+    return;
+  }
+
+  const bundle: Bundle = {
+    id,
+    name: opts.name ?? id,
+    ...(opts.description ? { description: opts.description } : {}),
+    projects: [...new Set(projects)],
+    ...(opts.primary ? { primary_project: opts.primary } : {}),
+  };
+
+  const file = resolved.files[resolved.files.length - 1];
+  const hasBundles = resolved.documents.get(file)!.nodes.has("/bundles");
+  const edits: FileEdits = new Map([[file, [
+    hasBundles
+      ? { op: "insert", pointer: "/bundles/-", value: bundle }
+      : { op: "set", pointer: "/bundles", value: [bundle] },
+  ]]]);
+  report(opts, edits, `Created bundle '${id}' (${bundle.projects.join(", ")})`, { bundle });
+}
+
+export async function runBundleAddProject(id: string, names: string[], opts: BundleOptions): Promise<void> {
+  const { resolved } = opts;
+  const index = findBundle(resolved, id);
+  if (index < 0 || !requireProjects(resolved, names)) return;
+
+  const bundle = resolved.config.bundles![index];
+  const added = [...new Set(names)].filter((n) => !bundle.projects.includes(n));
+  if (added.length === 0) {
+    fail(`Bundle '${id}' already includes ${names.join(", ")}.`);
+    return;
+  }
+
+  const list = bundleField(resolved, index, "projects");
+  const edits: FileEdits = new Map();
+  for (const n of added) addEdit(edits, list.file, { op: "insert", pointer: `${list.pointer}/-`, value: n });
+  report(opts, edits, `Added ${added.join(", ")} to bundle '${id}'`, { bundle: id, added });
+}
+
+export async function runBundleRemoveProject(id: string, name: string, opts: BundleOptions): Promise<void> {
+  const { resolved } = opts;
+  const index = findBundle(resolved, id);
+  if (index < 0) return;
+
+  const bundle = resolved.config.bundles![index];
+  const position = bundle.projects.indexOf(name);
+  if (position < 0) {
+    fail(`Bundle '${id}' does not include '${name}'.`, `Projects: ${bundle.projects.join(", ")}`);
+    return;
+  }
+  if (bundle.projects.length === 1) {
+    fail(`'${name}' is the only project in bundle '${id}'.`, `Delete the bundle instead: hop bundle delete ${id}`);
+    return;
+  }
+
+  const list = bundleField(resolved, index, "projects");
+  const edits: FileEdits = new Map();
+  addEdit(edits, list.file, { op: "remove", pointer: `${list.pointer}/${position}` });
+  let message = `Removed '${name}' from bundle '${id}'`;
+  if (bundle.primary_project === name) {
+    const primary = bundleField(resolved, index, "primary_project");
+    addEdit(edits, primary.file, { op: "remove", pointer: primary.pointer });
+    message += " and cleared its primary_project";
+  }
+  report(opts, edits, message, { bundle: id, removed: name, primary_cleared: bundle.primary_project === name });
+}
+
+export async function runBundleSetPrimary(id: string, name: string, opts: BundleOptions): Promise<void> {
+  const { resolved } = opts;
+  const index = findBundle(resolved, id);
+  if (index < 0) return;
+
+  const bundle = resolved.config.bundles![index];
+  if (!bundle.projects.includes(name)) {
+    fail(
+      `'${name}' is not in bundle '${id}'.`,
+      `Add it first: hop bundle add-project ${id} ${name}`
+    );
+    return;
+  }
+
+  const primary = bundleField(resolved, index, "primary_project");
+  const edits: FileEdits = new Map([[primary.file, [{ op: "set", pointer: primary.pointer, value: name }]]]);
+  report(opts, edits, `Set primary project of bundle '${id}' to '${name}'`, { bundle: id, primary_project: name });
+}
+
+export async function runBundleDelete(id: string, opts: BundleOptions): Promise<void> {
+  const { resolved } = opts;
+  const index = findBundle(resolved, id);
+  if (index < 0) return;
+
+  const file = resolved.files[resolved.files.length - 1];
+  const pointer = `/bundles/${index}`;
+  const shared = sourcesOf(resolved, pointer).filter((f) => f !== file);
+  if (shared.length > 0) {
+    fail(`Bundle '${id}' is defined in ${shared.join(", ")}, which this file extends.`, "Delete it from there instead.");
+    return;
+  }
+
+  const edits: FileEdits = new Map([[file, [{ op: "remove", pointer: originOf(resolved, pointer)!.pointer }]]]);
+  report(opts, edits, `Deleted bundle '${id}'`, { deleted: resolved.config.bundles![index] });
+}
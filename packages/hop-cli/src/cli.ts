@@ -3,13 +3,21 @@
 import { Command } from "commander";
 import { existsSync, statSync } from "node:fs";
 import { join } from "node:path";
-import { discoverAndLoad, discoverHopPath, setConfigPath, collectSystems, normalizeInfraRepo, infraRepoName, resolveInfraRepoPath } from "@hop-org/hop-spec-core";
-import type { HopConfig } from "@hop-org/hop-spec-core";
+import { discoverAndLoad, discoverHopPath, setConfigPath, collectSystems, normalizeInfraRepo, infraRepoName, resolveInfraRepoPath, resolveName, resolveBundle, resolveSystem, resolveProject, projectForPath, resolveGitHubAccount } from "@hop-org/hop-spec-core";
+import type { HopConfig, NameResolution, ResolvedHopConfig } from "@hop-org/hop-spec-core";
 import { runInit } from "./init.js";
 import { runValidate } from "./validate.js";
 import { runDiscover } from "./discover.js";
 import { runAudit } from "./audit.js";
+import { runAccountsExport, runAccountsVerify } from "./account.js";
+import { runSecretCheck } from "./secret.js";
 import { runReport } from "./report.js";
+import { runExplain } from "./explain.js";
+import { runFix } from "./fix.js";
+import { runProjectAdd, runProjectRemove, runProjectSet, runProjectRename } from "./project.js";
+import { runCd, runShellInit } from "./shell.js";
+import { addDefaultCommand, runComplete, runCompletion, SHELLS } from "./completion.js";
+import { runBundleCreate, runBundleAddProject, runBundleRemoveProject, runBundleSetPrimary, runBundleDelete } from "./bundle.js";
 
 const program = new Command();
 
@@ -21,7 +29,7 @@ program
 /**
  * Helper: discover and load hop.json, or exit with error.
  */
-function loadOrExit(): { config: HopConfig; path: string } {
+function loadOrExit(): { config: HopConfig; path: string; resolved: ResolvedHopConfig } {
   try {
     const result = discoverAndLoad();
     if (!result) {
@@ -42,6 +50,29 @@ function loadOrExit(): { config: HopConfig; path: string } {
   }
 }
 
+/**
+ * Helper: report a lookup that did not resolve to one name — the ambiguity
+ * candidates, or the closest names — and exit.
+ */
+function exitUnresolved<T>(
+  what: string,
+  query: string,
+  result: NameResolution<T>,
+  available: { label: string; names: string[] }
+): never {
+  if (result.status === "ambiguous") {
+    console.error(`Error: '${query}' matches more than one ${what.toLowerCase()}: ${result.candidates.map((c) => c.name).join(", ")}`);
+  } else {
+    console.error(`Error: ${what} '${query}' not found.`);
+    if (result.status === "not_found" && result.suggestions.length > 0) {
+      console.error(`Did you mean: ${result.suggestions.map((c) => c.name).join(", ")}?`);
+    } else if (available.names.length > 0) {
+      console.error(`${available.label}: ${available.names.join(", ")}`);
+    }
+  }
+  process.exit(1);
+}
+
 // --- hop projects ---
 program
   .command("projects")
@@ -104,37 +135,150 @@ program
 // --- hop path <name> ---
 program
   .command("path <name>")
-  .description("Resolve the filesystem path for a project by name")
+  .description("Resolve the filesystem path for a project or infra repo by name")
   .action((name) => {
     const { config } = loadOrExit();
     const projects = config.projects ?? [];
-    const project = projects.find((p) => p.name === name);
+    const infraNames = (config.infra_repos?.repos ?? []).map((r) => infraRepoName(r));
 
-    if (project) {
-      if (!project.path) {
-        console.error(`Error: Project '${name}' has no path defined.`);
-        process.exit(1);
-        return;
-      }
-      console.log(project.path);
+    // Projects first, so a project wins an exact name it shares with an infra repo.
+    const result = resolveName(name, [
+      ...projects.map((p) => ({ name: p.name, path: p.path, value: p.path })),
+      ...infraNames.map((n) => {
+        const path = resolveInfraRepoPath(config, n);
+        return { name: n, path, value: path };
+      }),
+    ]);
+    if (result.status !== "found") {
+      exitUnresolved("Project", name, result, { label: "Available", names: [...projects.map((p) => p.name), ...infraNames] });
+    }
+
+    const path = result.match.value;
+    if (!path) {
+      console.error(`Error: Project '${result.match.name}' has no path defined.`);
+      process.exit(1);
+      return;
+    }
+    console.log(path);
+  });
+
+// --- hop cd [name] / hop shell-init <shell> / hop completion <shell> ---
+program
+  .command("cd [name]")
+  .description("Print the directory for a project, bundle or infra repo (fuzzy); changes directory once shell-init is loaded")
+  .action((name) => {
+    const { config } = loadOrExit();
+    runCd(config, name);
+  });
+
+program
+  .command("shell-init <shell>")
+  .description(`Print shell functions for hop cd and name completion (${SHELLS.join(", ")})`)
+  .action((shell) => {
+    runShellInit(program, shell);
+  });
+
+program
+  .command("completion <shell>")
+  .description(`Print a tab completion script (${SHELLS.join(", ")})`)
+  .action((shell) => {
+    runCompletion(program, shell);
+  });
+
+// Called by the shell-init completion functions; prints nothing on error so a
+// missing or broken hop.json never garbles the prompt.
+program
+  .command("__complete <kinds...>", { hidden: true })
+  .action((kinds) => {
+    let config: HopConfig | undefined;
+    try {
+      config = discoverAndLoad()?.config;
+    } catch {
+      config = undefined;
+    }
+    runComplete(config, kinds);
+  });
+
+// --- hop project add|remove|set|rename ---
+const projectCmd = program
+  .command("project")
+  .description("Add, remove, and edit projects in hop.json");
+
+projectCmd
+  .command("add <path>")
+  .description("Register a directory as a project, detecting name, type, remote and branch")
+  .option("-n, --name <name>", "Project name (default: slug of the directory name)")
+  .option("-t, --type <type>", "Project type (default: detected from markers)")
+  .option("-s, --system <system>", "System identifier")
+  .option("--description <text>", "Human-readable description")
+  .option("--dry-run", "Show a diff of the change without writing")
+  .option("--json", "Output as JSON")
+  .action(async (path, opts) => {
+    const { resolved } = loadOrExit();
+    await runProjectAdd(path, { resolved, ...opts });
+  });
+
+projectCmd
+  .command("remove <name>")
+  .description("Remove a project from hop.json")
+  .option("--dry-run", "Show a diff of the change without writing")
+  .option("--json", "Output as JSON")
+  .action(async (name, opts) => {
+    const { resolved } = loadOrExit();
+    await runProjectRemove(name, { resolved, ...opts });
+  });
+
+projectCmd
+  .command("set <name> <field> <value>")
+  .description("Set a project field (dotted, e.g. git.default_branch)")
+  .option("--json-value", "Parse the value as JSON")
+  .option("--dry-run", "Show a diff of the change without writing")
+  .option("--json", "Output as JSON")
+  .action(async (name, field, value, opts) => {
+    const { resolved } = loadOrExit();
+    await runProjectSet(name, field, value, { resolved, ...opts });
+  });
+
+projectCmd
+  .command("rename <old> <new>")
+  .description("Rename a project and every bundle, primary and home_project reference to it")
+  .option("--dry-run", "Show a diff of the change without writing")
+  .option("--json", "Output as JSON")
+  .action(async (from, to, opts) => {
+    const { resolved } = loadOrExit();
+    await runProjectRename(from, to, { resolved, ...opts });
+  });
+
+// --- hop here [path] ---
+program
+  .command("here [path]")
+  .description("Show the project, branch checkout or infra repo containing a directory (default: cwd)")
+  .option("--json", "Output as JSON")
+  .action((dir, opts) => {
+    const { config } = loadOrExit();
+    const target = dir ?? process.cwd();
+    const match = projectForPath(config, target);
+
+    if (!match) {
+      console.error(`Error: ${target} is not inside any project, branch checkout or infra repo in hop.json.`);
+      process.exit(1);
       return;
     }
 
-    // Fall back to infra repos
-    const infraPath = resolveInfraRepoPath(config, name);
-    if (infraPath) {
-      console.log(infraPath);
+    if (opts.json) {
+      console.log(JSON.stringify(match, null, 2));
       return;
     }
 
-    console.error(`Error: Project '${name}' not found.`);
-    const projectNames = projects.map((p) => p.name);
-    const infraNames = (config.infra_repos?.repos ?? []).map((r) => infraRepoName(r));
-    const allNames = [...projectNames, ...infraNames].filter(Boolean);
-    if (allNames.length > 0) {
-      console.error(`Available: ${allNames.join(", ")}`);
+    console.log(match.kind === "infra_repo" ? `Infra:    ${match.name} (infra repo)` : `Project:  ${match.name}`);
+    console.log(`Root:     ${match.root}`);
+    if (match.branch) console.log(`Branch:   ${match.branch} (branch checkout)`);
+    if (match.system) console.log(`System:   ${match.system}`);
+    if (match.bundles.length > 0) console.log(`Bundles:  ${match.bundles.map((b) => b.id).join(", ")}`);
+    if (match.account) {
+      const via = { account_override: "account_override", default: "default account", sole: "only account" }[match.account.source];
+      console.log(`Account:  ${match.account.account.username} (${via})`);
     }
-    process.exit(1);
   });
 
 // --- hop machine ---
@@ -159,9 +303,13 @@ program
     console.log(`Config:  ${hopPath}`);
   });
 
-// --- hop account [username] ---
-program
-  .command("account [username]")
+// --- hop account ---
+const accountCmd = program
+  .command("account")
+  .alias("accounts")
+  .description("Show GitHub accounts, which one a project uses, and whether its git setup agrees");
+
+addDefaultCommand(accountCmd, "show [username]")
   .description("Show GitHub account details (default account if no username given)")
   .option("--json", "Output as JSON")
   .action((username, opts) => {
@@ -200,6 +348,83 @@ program
     if (account.note) console.log(`Note:     ${account.note}`);
   });
 
+accountCmd
+  .command("for [project]")
+  .description("Show the account a project pushes with, and why (default: the project containing cwd)")
+  .option("--json", "Output as JSON")
+  .action((query, opts) => {
+    const { config } = loadOrExit();
+    let project;
+    if (query) {
+      const result = resolveProject(config, query);
+      if (result.status !== "found") {
+        exitUnresolved("Project", query, result, { label: "Available projects", names: (config.projects ?? []).map((p) => p.name) });
+      }
+      project = result.match.value;
+    } else {
+      project = projectForPath(config, process.cwd())?.project;
+      if (!project) {
+        console.error(`Error: No project given and ${process.cwd()} is not inside a project in hop.json.`);
+        process.exit(1);
+        return;
+      }
+    }
+    const { effective, explanation } = resolveGitHubAccount(config, project);
+
+    if (opts.json) {
+      console.log(JSON.stringify({ project: project.name, ...effective, explanation }, null, 2));
+      if (!effective) process.exit(1);
+      return;
+    }
+
+    if (!effective) {
+      console.error(`Error: No GitHub account applies to '${project.name}'.`);
+      for (const line of explanation) console.error(`  ${line}`);
+      process.exit(1);
+      return;
+    }
+    console.log(`Project:  ${project.name}`);
+    console.log(`Account:  ${effective.account.username}`);
+    console.log(`Auth:     ${effective.auth_method}`);
+    if (effective.git_alias) console.log(`Alias:    ${effective.git_alias}`);
+    if (effective.remote_url) console.log(`Remote:   ${effective.remote_url}`);
+    console.log("Why:");
+    for (const line of explanation) console.log(`  ${line}`);
+  });
+
+accountCmd
+  .command("verify")
+  .description("Check each project's origin remote, SSH host alias and user.email against its account")
+  .option("--json", "Output as JSON")
+  .action((opts) => {
+    const { config, resolved } = loadOrExit();
+    runAccountsVerify(config, { json: opts.json, resolved });
+  });
+
+accountCmd
+  .command("export <format>")
+  .description("Write SSH host aliases (ssh-config) or per-project identity includes (gitconfig) from accounts")
+  .option("--check", "Show a diff against the current files and exit 1 if out of date, without writing")
+  .option("--file <path>", "Target file (default: ~/.ssh/config or ~/.gitconfig)")
+  .action((format, opts) => {
+    const { config } = loadOrExit();
+    runAccountsExport(config, format, opts);
+  });
+
+// --- hop secret ---
+const secretCmd = program
+  .command("secret")
+  .description("Check the secrets hop.json references (pat_bws_id, token_env)");
+
+secretCmd
+  .command("check")
+  .description("Report which referenced secrets resolve on this machine, without printing them")
+  .option("--json", "Output as JSON")
+  .action((opts) => {
+    const { config } = loadOrExit();
+    runSecretCheck(config, opts);
+  });
+
 // --- hop where ---
 program
   .command("where")
@@ -269,6 +494,14 @@ configCmd
     }
   });
 
+configCmd
+  .command("explain <pointer>")
+  .description("Show an effective value, the file it came from, and how that file was discovered")
+  .option("--json", "Output as JSON")
+  .action(async (pointer, opts) => {
+    await runExplain(pointer, { json: opts.json });
+  });
+
 // --- hop bundles ---
 program
   .command("bundles")
@@ -302,25 +535,21 @@ program
     }
   });
 
-// --- hop bundle <id> ---
-program
-  .command("bundle <id>")
+// --- hop bundle [show] <id> ---
+const bundleCmd = program
+  .command("bundle")
+  .description("Show, create, and edit bundles");
+
+addDefaultCommand(bundleCmd, "show <id>")
   .description("Show details for a specific bundle by ID")
   .option("--json", "Output as JSON")
   .action((id, opts) => {
     const { config } = loadOrExit();
-    const bundles = config.bundles ?? [];
-    const bundle = bundles.find((b) => b.id === id);
-
-    if (!bundle) {
-      console.error(`Error: Bundle '${id}' not found.`);
-      const ids = bundles.map((b) => b.id);
-      if (ids.length > 0) {
-        console.error(`Available bundles: ${ids.join(", ")}`);
-      }
-      process.exit(1);
-      return;
+    const result = resolveBundle(config, id);
+    if (result.status !== "found") {
+      exitUnresolved("Bundle", id, result, { label: "Available bundles", names: (config.bundles ?? []).map((b) => b.id) });
     }
+    const bundle = result.match.value;
 
     if (opts.json) {
       console.log(JSON.stringify(bundle, null, 2));
@@ -353,6 +582,60 @@ program
     }
   });
 
+// --- hop bundle create|add-project|remove-project|set-primary|delete ---
+bundleCmd
+  .command("create <id> <projects...>")
+  .description("Create a bundle of existing projects")
+  .option("-n, --name <name>", "Human-readable name (default: the id)")
+  .option("--description <text>", "Bundle purpose")
+  .option("-p, --primary <project>", "Default project when the bundle is selected")
+  .option("--dry-run", "Show a diff of the change without writing")
+  .option("--json", "Output as JSON")
+  .action(async (id, projects, opts) => {
+    const { resolved } = loadOrExit();
+    await runBundleCreate(id, projects, { resolved, ...opts });
+  });
+
+bundleCmd
+  .command("add-project <id> <projects...>")
+  .description("Add existing projects to a bundle")
+  .option("--dry-run", "Show a diff of the change without writing")
+  .option("--json", "Output as JSON")
+  .action(async (id, projects, opts) => {
+    const { resolved } = loadOrExit();
+    await runBundleAddProject(id, projects, { resolved, ...opts });
+  });
+
+bundleCmd
+  .command("remove-project <id> <project>")
+  .description("Remove a project from a bundle, clearing it as primary if it was")
+  .option("--dry-run", "Show a diff of the change without writing")
+  .option("--json", "Output as JSON")
+  .action(async (id, project, opts) => {
+    const { resolved } = loadOrExit();
+    await runBundleRemoveProject(id, project, { resolved, ...opts });
+  });
+
+bundleCmd
+  .command("set-primary <id> <project>")
+  .description("Set the bundle's primary project (must already be in the bundle)")
+  .option("--dry-run", "Show a diff of the change without writing")
+  .option("--json", "Output as JSON")
+  .action(async (id, project, opts) => {
+    const { resolved } = loadOrExit();
+    await runBundleSetPrimary(id, project, { resolved, ...opts });
+  });
+
+bundleCmd
+  .command("delete <id>")
+  .description("Delete a bundle")
+  .option("--dry-run", "Show a diff of the change without writing")
+  .option("--json", "Output as JSON")
+  .action(async (id, opts) => {
+    const { resolved } = loadOrExit();
+    await runBundleDelete(id, { resolved, ...opts });
+  });
+
 // --- hop infra ---
 program
   .command("infra")
@@ -487,22 +770,21 @@ systemCmd
   .command("show <name>")
   .description("Show all projects and infra repos in a system")
   .option("--json", "Output as JSON")
-  .action((name, opts) => {
+  .action((query, opts) => {
     const { config } = loadOrExit();
-    const systems = collectSystems(config);
-    const system = systems.get(name);
-
-    if (!system) {
-      console.error(`Error: System '${name}' not found.`);
-      const available = Array.from(systems.keys());
-      if (available.length > 0) {
-        console.error(`Available systems: ${available.join(", ")}`);
-      } else {
+    const result = resolveSystem(config, query);
+    if (result.status !== "found") {
+      const available = Array.from(collectSystems(config).keys());
+      if (available.length === 0) {
+        console.error(`Error: System '${query}' not found.`);
         console.error("No systems defined. Add system fields to projects or infra repos.");
+        process.exit(1);
+        return;
       }
-      process.exit(1);
-      return;
+      exitUnresolved("System", query, result, { label: "Available systems", names: available });
     }
+    const name = result.match.name;
+    const system = result.match.value;
 
     if (opts.json) {
       console.log(JSON.stringify({
@@ -543,8 +825,22 @@ program
   .command("validate [file]")
   .description("Validate a hop.json file against the HarnessOps JSON Schema")
   .option("--schema <path>", "Path to custom schema file (default: bundled schema)")
+  .option("--env", "Also check paths and git repos against this machine's filesystem")
+  .option("--strict", "Fail on warnings as well as errors")
+  .option("--format <format>", "Output format: text, json, sarif, junit", "text")
   .action(async (file, opts) => {
-    await runValidate({ file, schemaPath: opts.schema });
+    await runValidate({ file, schemaPath: opts.schema, env: opts.env, strict: opts.strict, format: opts.format });
+  });
+
+// --- hop fix ---
+program
+  .command("fix [file]")
+  .description("Apply the mechanical remedies hop report suggests, preserving formatting")
+  .option("--dry-run", "Show a diff of the changes without writing")
+  .option("--drop-stale", "Remove stale projects that cannot be re-pathed")
+  .option("--json", "Output as JSON")
+  .action(async (file, opts) => {
+    await runFix({ file, dryRun: opts.dryRun, dropStale: opts.dropStale, json: opts.json });
   });
 
 // --- hop discover ---
@@ -553,8 +849,10 @@ program
   .description("Auto-scan a directory for projects, git repos, and tools")
   .option("--json", "Output as hop.json-compatible project entries")
   .option("-d, --depth <n>", "Max directory depth to scan (default: 3)", parseInt)
+  .option("--apply", "Merge new projects and changed remotes/branches into hop.json")
+  .option("-y, --yes", "With --apply, accept every change without prompting")
   .action(async (dir, opts) => {
-    await runDiscover({ dir, depth: opts.depth, json: opts.json });
+    await runDiscover({ dir, depth: opts.depth, json: opts.json, apply: opts.apply, yes: opts.yes });
   });
 
 // --- hop audit ---
@@ -564,8 +862,8 @@ program
   .option("--json", "Output as JSON")
   .option("--scan", "Also scan outside managed dirs for unregistered git repos")
   .action(async (opts) => {
-    const { config } = loadOrExit();
-    await runAudit(config, { json: opts.json, scan: opts.scan });
+    const { config, resolved } = loadOrExit();
+    await runAudit(config, { json: opts.json, scan: opts.scan, resolved });
   });
 
 // --- hop report ---
@@ -575,8 +873,8 @@ program
   .option("-o, --out <path>", "Output file path (default: ~/.hop/report.html)")
   .option("--scan", "Also scan outside managed dirs for unregistered git repos")
   .action(async (opts) => {
-    const { config, path: hopPath } = loadOrExit();
-    await runReport(config, hopPath, { out: opts.out, scan: opts.scan });
+    const { config, path: hopPath, resolved } = loadOrExit();
+    await runReport(config, hopPath, { out: opts.out, scan: opts.scan, resolved });
   });
 
 // --- hop init ---
@@ -0,0 +1,422 @@
+/**
+ * hop completion — tab completion scripts for bash, zsh and fish.
+ *
+ * The command tree is static: subcommands, options and which arguments take
+ * which kind of value are read from the commander program when the script is
+ * generated, so a new command is completable as soon as it is registered.
+ * The names themselves (projects, bundles, systems, ...) change with hop.json,
+ * so the script fetches them on every Tab through the hidden `hop __complete`
+ * command, from whichever hop.json discovery selects at that moment.
+ *
+ * What an argument or option value completes to is inferred from its
+ * placeholder (`<project>`, `<system>`, `<path>`, ...), with the overrides
+ * below for placeholders that mean different things in different commands —
+ * `<name>` is a project for `hop project remove` but a system for
+ * `hop system show`.
+ *
+ * Each value is described by a short spec the generated scripts interpret:
+ * `names:<kind> ...` (ask `hop __complete`), `words:<word> ...` (a fixed
+ * list), `file`, `dir`, or `none` (takes a value, but nothing to suggest).
+ */
+
+import { Help } from "commander";
+import type { Argument, Command, Option } from "commander";
+import type { HopConfig } from "@hop-org/hop-spec-core";
+import { collectSystems, infraRepoName } from "@hop-org/hop-spec-core";
+import { EXPORT_FORMATS } from "./account.js";
+
+export const SHELLS = ["bash", "zsh", "fish"] as const;
+export type Shell = (typeof SHELLS)[number];
+
+export type NameKind = "project" | "bundle" | "system" | "infra" | "account" | "type";
+export const NAME_KINDS: NameKind[] = ["project", "bundle", "system", "infra", "account", "type"];
+
+/** Names of one kind, in hop.json order. */
+export function namesOf(config: HopConfig, kind: NameKind): string[] {
+  switch (kind) {
+    case "project":
+      return (config.projects ?? []).map((p) => p.name);
+    case "bundle":
+      return (config.bundles ?? []).map((b) => b.id);
+    case "system":
+      return Array.from(collectSystems(config).keys());
+    case "infra":
+      return (config.infra_repos?.repos ?? []).map((r) => infraRepoName(r));
+    case "account":
+      return (config.accounts?.github ?? []).map((a) => a.username);
+    case "type":
+      return [...new Set((config.projects ?? []).flatMap((p) => (p.type ? [p.type] : [])))];
+  }
+}
+
+/** Print the names of the given kinds, one per line, for shell completion. */
+export function runComplete(config: HopConfig | undefined, kinds: string[]): void {
+  if (!config) return;
+  const seen = new Set<string>();
+  for (const kind of kinds) {
+    if (!NAME_KINDS.includes(kind as NameKind)) continue;
+    for (const name of namesOf(config, kind as NameKind)) {
+      if (seen.has(name)) continue;
+      seen.add(name);
+      console.log(name);
+    }
+  }
+}
+
+/** Value spec by placeholder name, for arguments and options alike. */
+const PLACEHOLDER_VALUES: Record<string, string> = {
+  project: "names:project",
+  projects: "names:project",
+  id: "names:bundle",
+  system: "names:system",
+  type: "names:type",
+  username: "names:account",
+  path: "file",
+  file: "file",
+  dir: "dir",
+};
+
+/**
+ * Value specs by "<command path> <argument>" or "<command path> <--option>",
+ * where the placeholder alone is not enough.
+ */
+const VALUE_OVERRIDES: Record<string, string> = {
+  "path name": "names:project infra",
+  "cd name": "names:project bundle infra",
+  "project add path": "dir",
+  "here path": "dir",
+  "project remove name": "names:project",
+  "project set name": "names:project",
+  "project rename old": "names:project",
+  "bundle create id": "none",
+  "system show name": "names:system",
+  "validate --format": "words:text json sarif junit",
+  "shell-init shell": `words:${SHELLS.join(" ")}`,
+  "completion shell": `words:${SHELLS.join(" ")}`,
+  "account export format": `words:${EXPORT_FORMATS.join(" ")}`,
+  "help command": "none",
+};
+
+interface CompletionNode {
+  /** Space-separated subcommand path; "" for the program itself. */
+  path: string;
+  commands: { name: string; description: string }[];
+  /** Every flag, short and long. */
+  flags: string[];
+  /** Value spec per flag, for flags that take a value. */
+  optionValues: Map<string, string>;
+  /** Value spec per positional argument; a variadic last one repeats. */
+  args: string[];
+  variadic: boolean;
+}
+
+function placeholder(flags: string): string | undefined {
+  return /[<[]([^>\]]+?)(?:\.\.\.)?[>\]]/.exec(flags)?.[1];
+}
+
+function valueSpec(path: string, key: string, name: string | undefined, choices: readonly string[] | undefined): string {
+  if (choices) return `words:${choices.join(" ")}`;
+  const override = VALUE_OVERRIDES[`${path} ${key}`.trim()];
+  if (override) return override;
+  return (name && PLACEHOLDER_VALUES[name]) || "none";
+}
+
+function argumentSpecs(cmd: Command, path: string): { args: string[]; variadic: boolean } {
+  const registered: readonly Argument[] = cmd.registeredArguments;
+  return {
+    args: registered.map((a) => valueSpec(path, a.name(), a.name(), a.argChoices)),
+    variadic: registered.length > 0 && registered[registered.length - 1].variadic,
+  };
+}
+
+/** The default subcommand of each command that has one. */
+const defaultCommands = new WeakMap<Command, Command>();
+
+/**
+ * Register a subcommand that runs when `parent` is given none (`hop bundle
+ * <id>` runs `bundle show`), and remember it so completion can offer its
+ * arguments on the parent.
+ */
+export function addDefaultCommand(parent: Command, nameAndArgs: string): Command {
+  const cmd = parent.command(nameAndArgs, { isDefault: true });
+  defaultCommands.set(parent, cmd);
+  return cmd;
+}
+
+/** Walk the program, one node per command, parents first. */
+function collectNodes(program: Command): CompletionNode[] {
+  const help = new Help();
+  const nodes: CompletionNode[] = [];
+  const aliases: [path: string, alias: string][] = [];
+
+  const visit = (cmd: Command, path: string) => {
+    const subcommands = help.visibleCommands(cmd);
+    const options: Option[] = help.visibleOptions(cmd);
+    const optionValues = new Map<string, string>();
+    for (const opt of options) {
+      if (!opt.required && !opt.optional) continue;
+      const spec = valueSpec(path, opt.long ?? opt.short ?? "", placeholder(opt.flags), opt.argChoices);
+      for (const flag of [opt.short, opt.long]) if (flag) optionValues.set(flag, spec);
+    }
+
+    // A default subcommand (`hop bundle <id>` runs `bundle show`) lends its
+    // arguments to the parent.
+    const fallback = defaultCommands.get(cmd);
+    const own = fallback ? argumentSpecs(fallback, `${path} ${fallback.name()}`.trim()) : argumentSpecs(cmd, path);
+
+    nodes.push({
+      path,
+      commands: subcommands.flatMap((c) =>
+        [c.name(), ...c.aliases()].map((name) => ({ name, description: help.subcommandDescription(c) }))),
+      flags: options.flatMap((o) => [o.short, o.long].filter((f): f is string => !!f)),
+      optionValues,
+      ...own,
+    });
+    for (const sub of subcommands) {
+      const subPath = `${path} ${sub.name()}`.trim();
+      for (const alias of sub.aliases()) aliases.push([subPath, `${path} ${alias}`.trim()]);
+      visit(sub, subPath);
+    }
+  };
+
+  visit(program, "");
+  // An alias (`hop accounts`) completes exactly like the command it names
+  for (const [path, alias] of aliases) {
+    for (const node of nodes.filter((n) => n.path === path || n.path.startsWith(`${path} `))) {
+      nodes.push({ ...node, path: alias + node.path.slice(path.length) });
+    }
+  }
+  return nodes;
+}
+
+/** Case arms mapping "path|position" to a value spec; variadic last arm catches the rest. */
+function argumentArms(node: CompletionNode): [string, string][] {
+  const arms: [string, string][] = node.args.map((spec, i) => [`${node.path}|${i}`, spec]);
+  if (node.variadic) arms.push([`${node.path}|*`, node.args[node.args.length - 1]]);
+  return arms;
+}
+
+function optionArms(node: CompletionNode): [string[], string][] {
+  const bySpec = new Map<string, string[]>();
+  for (const [flag, spec] of node.optionValues) {
+    bySpec.set(spec, [...(bySpec.get(spec) ?? []), `${node.path}|${flag}`]);
+  }
+  return [...bySpec].map(([spec, keys]) => [keys, spec]);
+}
+
+const quote = (s: string) => `"${s.replace(/(["\\$`])/g, "\\$1")}"`;
+const fishQuote = (s: string) => `'${s.replace(/(['\\])/g, "\\$1")}'`;
+
+/** Data functions shared by bash and zsh; both read the same `case` syntax. */
+function posixTables(nodes: CompletionNode[]): string {
+  const out: string[] = [];
+  const table = (name: string, subject: string, arms: [string[], string][]) => {
+    out.push(`${name}() {`, `  case ${subject} in`);
+    for (const [patterns, body] of arms) {
+      // A trailing * is a pattern; everything before it is literal.
+      const pattern = patterns
+        .map((p) => (p.endsWith("|*") ? `${quote(p.slice(0, -1))}*` : quote(p)))
+        .join("|");
+      out.push(`    ${pattern}) ${body} ;;`);
+    }
+    out.push("  esac", "}", "");
+  };
+
+  table("_hop_commands", '"$1"', nodes
+    .filter((n) => n.commands.length > 0)
+    .map((n) => [[n.path], `echo ${quote(n.commands.map((c) => c.name).join(" "))}`]));
+  table("_hop_command_descriptions", '"$1"', nodes
+    .filter((n) => n.commands.length > 0)
+    .map((n) => [[n.path], `printf '%s\\n' ${n.commands.map((c) => quote(`${c.name}:${c.description}`)).join(" ")}`]));
+  table("_hop_options", '"$1"', nodes.filter((n) => n.flags.length > 0).map((n) => [[n.path], `echo ${quote(n.flags.join(" "))}`]));
+  table("_hop_option_values", '"$1|$2"', nodes.flatMap((n) =>
+    optionArms(n).map(([keys, spec]): [string[], string] => [keys, `echo ${quote(spec)}`])));
+  table("_hop_argument_values", '"$1|$2"', nodes.flatMap((n) =>
+    argumentArms(n).map(([key, spec]): [string[], string] => [[key], `echo ${quote(spec)}`])));
+  return out.join("\n");
+}
+
+function bashScript(nodes: CompletionNode[]): string {
+  return `# hop completion for bash — eval "$(hop completion bash)"
+${posixTables(nodes)}
+_hop_complete() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}" cmd="" pending="" spec="" words="" w
+  local -i arg=0 i=1
+  while (( i < COMP_CWORD )); do
+    w="\${COMP_WORDS[i]}"
+    if [[ -n "$pending" ]]; then
+      pending=""
+    elif [[ "$w" == -* ]]; then
+      [[ "$w" == *=* ]] || pending="$(_hop_option_values "$cmd" "$w")"
+    elif (( arg == 0 )) && [[ " $(_hop_commands "$cmd") " == *" $w "* ]]; then
+      cmd="\${cmd:+$cmd }$w"
+    else
+      arg+=1
+    fi
+    i+=1
+  done
+
+  COMPREPLY=()
+  if [[ -n "$pending" ]]; then
+    spec="$pending"
+  elif [[ "$cur" == -* ]]; then
+    COMPREPLY=($(compgen -W "$(_hop_options "$cmd")" -- "$cur"))
+    return
+  else
+    spec="$(_hop_argument_values "$cmd" "$arg")"
+    (( arg == 0 )) && words="$(_hop_commands "$cmd")"
+  fi
+
+  case "$spec" in
+    names:*) words="$words $(command hop __complete \${spec#names:} 2>/dev/null)" ;;
+    words:*) words="$words \${spec#words:}" ;;
+    file) compopt -o filenames 2>/dev/null; COMPREPLY=($(compgen -f -- "$cur")) ;;
+    dir) compopt -o filenames 2>/dev/null; COMPREPLY=($(compgen -d -- "$cur")) ;;
+  esac
+  COMPREPLY+=($(compgen -W "$words" -- "$cur"))
+}
+complete -F _hop_complete hop
+`;
+}
+
+function zshScript(nodes: CompletionNode[]): string {
+  return `# hop completion for zsh — eval "$(hop completion zsh)"
+${posixTables(nodes)}
+_hop() {
+  local cur="\${words[CURRENT]}" cmd="" pending="" spec="" w
+  local -a subs names
+  integer arg=0 i=2
+  while (( i < CURRENT )); do
+    w="\${words[i]}"
+    if [[ -n "$pending" ]]; then
+      pending=""
+    elif [[ "$w" == -* ]]; then
+      [[ "$w" == *=* ]] || pending="$(_hop_option_values "$cmd" "$w")"
+    elif (( arg == 0 )) && [[ " $(_hop_commands "$cmd") " == *" $w "* ]]; then
+      cmd="\${cmd:+$cmd }$w"
+    else
+      (( arg++ ))
+    fi
+    (( i++ ))
+  done
+
+  if [[ -n "$pending" ]]; then
+    spec="$pending"
+  elif [[ "$cur" == -* ]]; then
+    compadd -- $(_hop_options "$cmd")
+    return
+  else
+    spec="$(_hop_argument_values "$cmd" "$arg")"
+    if (( arg == 0 )); then
+      subs=(\${(f)"$(_hop_command_descriptions "$cmd")"})
+      (( $#subs )) && _describe command subs
+    fi
+  fi
+
+  case "$spec" in
+    names:*)
+      names=(\${(f)"$(command hop __complete \${=spec#names:} 2>/dev/null)"})
+      (( $#names )) && compadd -a names
+      ;;
+    words:*) compadd -- \${=spec#words:} ;;
+    file) _files ;;
+    dir) _files -/ ;;
+  esac
+}
+(( $+functions[compdef] )) && compdef _hop hop
+`;
+}
+
+function fishScript(nodes: CompletionNode[]): string {
+  const out: string[] = [];
+  const table = (name: string, subject: string, arms: [string[], string][]) => {
+    out.push(`function ${name}`, `  switch ${subject}`);
+    for (const [patterns, body] of arms) {
+      const pattern = patterns
+        .map((p) => (p.endsWith("|*") ? `${fishQuote(p.slice(0, -1))}*` : fishQuote(p)))
+        .join(" ");
+      out.push(`    case ${pattern}`, `      ${body}`);
+    }
+    out.push("  end", "end", "");
+  };
+
+  const parents = nodes.filter((n) => n.commands.length > 0);
+  table("__hop_commands", '"$argv[1]"', parents.map((n) => [[n.path],
+    `printf '%s\\n' ${n.commands.map((c) => fishQuote(c.name)).join(" ")}`]));
+  table("__hop_command_descriptions", '"$argv[1]"', parents.map((n) => [[n.path],
+    `printf '%s\\t%s\\n' ${n.commands.map((c) => `${fishQuote(c.name)} ${fishQuote(c.description)}`).join(" ")}`]));
+  table("__hop_options", '"$argv[1]"', nodes.filter((n) => n.flags.length > 0).map((n) => [[n.path],
+    `printf '%s\\n' ${n.flags.map(fishQuote).join(" ")}`]));
+  table("__hop_option_values", '"$argv[1]|$argv[2]"', nodes.flatMap((n) =>
+    optionArms(n).map(([keys, spec]): [string[], string] => [keys, `echo ${fishQuote(spec)}`])));
+  table("__hop_argument_values", '"$argv[1]|$argv[2]"', nodes.flatMap((n) =>
+    argumentArms(n).map(([key, spec]): [string[], string] => [[key], `echo ${fishQuote(spec)}`])));
+
+  return `# hop completion for fish — hop completion fish | source
+${out.join("\n")}
+function __hop_complete
+  set -l words (commandline -opc)
+  set -l cur (commandline -ct)
+  set -e words[1]
+  set -l cmd ''
+  set -l pending ''
+  set -l spec ''
+  set -l arg 0
+  for w in $words
+    if test -n "$pending"
+      set pending ''
+    else if string match -q -- '-*' $w
+      string match -q -- '*=*' $w; or set pending (__hop_option_values "$cmd" $w)
+    else if test $arg -eq 0; and contains -- $w (__hop_commands "$cmd")
+      set cmd (string trim -- "$cmd $w")
+    else
+      set arg (math $arg + 1)
+    end
+  end
+
+  if test -n "$pending"
+    set spec $pending
+  else if string match -q -- '-*' $cur
+    __hop_options "$cmd"
+    return
+  else
+    set spec (__hop_argument_values "$cmd" $arg)
+    test $arg -eq 0; and __hop_command_descriptions "$cmd"
+  end
+
+  switch "$spec"
+    case 'names:*'
+      command hop __complete (string split ' ' -- (string replace 'names:' '' -- $spec)) 2>/dev/null
+    case 'words:*'
+      string split ' ' -- (string replace 'words:' '' -- $spec)
+    case file
+      __fish_complete_path $cur
+    case dir
+      __fish_complete_directories $cur
+  end
+end
+
+complete -c hop -f -a '(__hop_complete)'
+`;
+}
+
+export function completionScript(program: Command, shell: Shell): string {
+  const nodes = collectNodes(program);
+  switch (shell) {
+    case "bash":
+      return bashScript(nodes);
+    case "zsh":
+      return zshScript(nodes);
+    case "fish":
+      return fishScript(nodes);
+  }
+}
+
+export function runCompletion(program: Command, shell: string): void {
+  if (!SHELLS.includes(shell as Shell)) {
+    console.error(`Error: Unsupported shell '${shell}'. Supported: ${SHELLS.join(", ")}`);
+    process.exit(1);
+    return;
+  }
+  process.stdout.write(completionScript(program, shell as Shell));
+}
@@ -0,0 +1,92 @@
+/**
+ * Unified diffs for previewing edits to hop.json (`--dry-run`).
+ *
+ * A plain LCS over lines. hop.json files run to hundreds of lines, not tens
+ * of thousands, so the quadratic table is cheap and keeps this dependency-free.
+ */
+
+import { isAbsolute } from "node:path";
+
+type Op = { kind: " " | "-" | "+"; line: string };
+
+function diffLines(a: string[], b: string[]): Op[] {
+  const n = a.length;
+  const m = b.length;
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[i] === b[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      ops.push({ kind: "-", line: a[i++] });
+    } else {
+      ops.push({ kind: "+", line: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ kind: "-", line: a[i++] });
+  while (j < m) ops.push({ kind: "+", line: b[j++] });
+  return ops;
+}
+
+/**
+ * Render the change from `before` to `after` as a unified diff with `context`
+ * lines around each hunk. `label` names the file in the header. Empty when the
+ * texts are identical.
+ */
+export function unifiedDiff(before: string, after: string, label: string, context = 3): string {
+  if (before === after) return "";
+  const ops = diffLines(before.split("\n"), after.split("\n"));
+
+  // git's a/ and b/ prefixes only make sense for relative paths.
+  const [from, to] = isAbsolute(label) ? [label, label] : [`a/${label}`, `b/${label}`];
+  const out = [`--- ${from}`, `+++ ${to}`];
+  let k = 0;
+  while (k < ops.length) {
+    // Find the next change, then grow the hunk while changes stay within
+    // 2 * context lines of each other.
+    while (k < ops.length && ops[k].kind === " ") k++;
+    if (k === ops.length) break;
+    const start = Math.max(0, k - context);
+    let end = k;
+    while (end < ops.length) {
+      let next = end;
+      while (next < ops.length && ops[next].kind !== " ") next++;
+      let gap = next;
+      while (gap < ops.length && ops[gap].kind === " ") gap++;
+      if (gap < ops.length && gap - next <= context * 2) {
+        end = gap;
+      } else {
+        end = Math.min(ops.length, next + context);
+        break;
+      }
+    }
+
+    // Line numbers are 1-based positions in each side at the hunk's start.
+    let oldLine = 1;
+    let newLine = 1;
+    for (let x = 0; x < start; x++) {
+      if (ops[x].kind !== "+") oldLine++;
+      if (ops[x].kind !== "-") newLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((o) => o.kind !== "+").length;
+    const newCount = hunk.filter((o) => o.kind !== "-").length;
+    out.push(`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`);
+    for (const o of hunk) out.push(`${o.kind}${o.line}`);
+    k = end;
+  }
+  return out.join("\n");
+}
@@ -0,0 +1,199 @@
+/**
+ * hop discover --apply — merge discovered repos into hop.json.
+ *
+ * Discoveries are matched to registered projects by path, not name: a
+ * directory renamed on disk is still the same project, and two checkouts that
+ * slug to the same name are not. Unregistered directories become new
+ * `projects` entries; registered ones are checked for a remote or default
+ * branch that no longer matches what is on disk.
+ *
+ * A recorded default_branch is only replaced with what origin/HEAD says. HEAD
+ * is merely the current checkout — trusting it would flip the entry every time
+ * someone switched to a feature branch — so it only fills in a missing value.
+ *
+ * Interactive by default: each addition and update is offered in turn, then
+ * the combined diff is shown before anything is written. `--yes` accepts
+ * everything. Either way the result is validated first (see mutate.ts).
+ */
+
+import { resolve, relative, isAbsolute } from "node:path";
+import type { JsonEdit, Project, ResolvedHopConfig } from "@hop-org/hop-spec-core";
+import { originOf } from "@hop-org/hop-spec-core";
+import type { DiscoveredProject } from "./discover.js";
+import { detectDefaultBranch, toProjectEntry } from "./discover.js";
+import { checkEditsOrExit, assertNoNewErrors, commitCheckedWrite, printChanges } from "./mutate.js";
+import { createPrompter } from "./prompt.js";
+
+export interface DiscoveryUpdate {
+  /** Name of the registered project. */
+  project: string;
+  /** Its index in the merged `projects` array. */
+  index: number;
+  field: "remote_url" | "default_branch";
+  /** Recorded value; undefined when the field is unset. */
+  from?: string;
+  to: string;
+}
+
+export interface DiscoveryPlan {
+  additions: Project[];
+  updates: DiscoveryUpdate[];
+  skipped: { path: string; reason: string }[];
+}
+
+function isWithin(path: string, dir: string): boolean {
+  const rel = relative(dir, path);
+  return !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+/** Sort discoveries into new projects, updates to registered ones, and skips. */
+export function planDiscoveryMerge(resolved: ResolvedHopConfig, discovered: DiscoveredProject[]): DiscoveryPlan {
+  const config = resolved.config;
+  const projects = config.projects ?? [];
+  const plan: DiscoveryPlan = { additions: [], updates: [], skipped: [] };
+
+  const byPath = new Map<string, number>();
+  projects.forEach((p, i) => {
+    if (p.path) byPath.set(resolve(p.path), i);
+  });
+  const names = new Set(projects.map((p) => p.name));
+  const infraRoot = config.infra_repos?.path ? resolve(config.infra_repos.path) : undefined;
+
+  for (const d of discovered) {
+    const index = byPath.get(d.path);
+    if (index !== undefined) {
+      const p = projects[index];
+      const remote = d.git?.remote_url;
+      if (remote && remote !== p.git?.remote_url) {
+        plan.updates.push({ project: p.name, index, field: "remote_url", from: p.git?.remote_url, to: remote });
+      }
+      const recorded = p.git?.default_branch;
+      const branch = detectDefaultBranch(d.path);
+      if (branch && branch.branch !== recorded && (!recorded || branch.from !== ".git/HEAD")) {
+        plan.updates.push({ project: p.name, index, field: "default_branch", from: recorded, to: branch.branch });
+      }
+      continue;
+    }
+
+    if (infraRoot && isWithin(d.path, infraRoot)) {
+      plan.skipped.push({ path: d.path, reason: "inside infra_repos.path" });
+    } else if (!d.name) {
+      plan.skipped.push({ path: d.path, reason: "no usable name; add it with `hop project add --name`" });
+    } else if (names.has(d.name)) {
+      plan.skipped.push({ path: d.path, reason: `name '${d.name}' is taken; add it with \`hop project add --name\`` });
+    } else {
+      names.add(d.name);
+      plan.additions.push(toProjectEntry(d));
+    }
+  }
+  return plan;
+}
+
+/**
+ * Edits for the accepted part of a plan. New projects go into the loaded
+ * file; updates go to whichever file's entry for the project is closest to
+ * the user.
+ */
+export function discoveryEdits(
+  resolved: ResolvedHopConfig,
+  additions: Project[],
+  updates: DiscoveryUpdate[]
+): Map<string, JsonEdit[]> {
+  const edits = new Map<string, JsonEdit[]>();
+  const add = (file: string, edit: JsonEdit) => edits.set(file, [...(edits.get(file) ?? []), edit]);
+
+  for (const index of new Set(updates.map((u) => u.index))) {
+    const origin = originOf(resolved, `/projects/${index}`)!;
+    const git = `${origin.pointer}/git`;
+    const fields = updates.filter((u) => u.index === index);
+    if (resolved.documents.get(origin.file)!.nodes.has(git)) {
+      for (const u of fields) add(origin.file, { op: "set", pointer: `${git}/${u.field}`, value: u.to });
+    } else {
+      add(origin.file, { op: "set", pointer: git, value: Object.fromEntries(fields.map((u) => [u.field, u.to])) });
+    }
+  }
+
+  const file = resolved.files[resolved.files.length - 1];
+  let hasProjects = resolved.documents.get(file)!.nodes.has("/projects");
+  for (const project of additions) {
+    add(file, hasProjects
+      ? { op: "insert", pointer: "/projects/-", value: project }
+      : { op: "set", pointer: "/projects", value: [project] });
+    hasProjects = true;
+  }
+  return edits;
+}
+
+export interface ApplyOptions {
+  /** Accept every addition and update without asking. */
+  yes?: boolean;
+  json?: boolean;
+}
+
+export async function applyDiscoveries(
+  discovered: DiscoveredProject[],
+  resolved: ResolvedHopConfig,
+  opts: ApplyOptions
+): Promise<void> {
+  const file = resolved.files[resolved.files.length - 1];
+  const plan = planDiscoveryMerge(resolved, discovered);
+  let { additions, updates } = plan;
+
+  if (!opts.json) {
+    for (const s of plan.skipped) console.log(`  - ${s.path}: skipped — ${s.reason}`);
+  }
+
+  if (additions.length === 0 && updates.length === 0) {
+    if (opts.json) {
+      console.log(JSON.stringify({ file, written: false, added: [], updated: [], skipped: plan.skipped }, null, 2));
+    } else {
+      console.log("Nothing to apply: every discovered project is registered and up to date.");
+    }
+    return;
+  }
+
+  const prompt = opts.yes ? undefined : createPrompter();
+  let written: string[];
+  try {
+    if (prompt) {
+      const accepted: Project[] = [];
+      for (const p of additions) {
+        if (await prompt.confirm(`Add '${p.name}' (${p.path})?`)) accepted.push(p);
+      }
+      const acceptedUpdates: DiscoveryUpdate[] = [];
+      for (const u of updates) {
+        if (await prompt.confirm(`Update '${u.project}' ${u.field}: ${u.from ?? "(unset)"} → ${u.to}?`)) {
+          acceptedUpdates.push(u);
+        }
+      }
+      additions = accepted;
+      updates = acceptedUpdates;
+      if (additions.length === 0 && updates.length === 0) {
+        console.log("Nothing selected. Nothing written.");
+        return;
+      }
+    }
+
+    const check = checkEditsOrExit(resolved, discoveryEdits(resolved, additions, updates));
+    if (!check || !assertNoNewErrors(check)) return;
+
+    if (!opts.json) printChanges(check);
+    if (prompt && !(await prompt.confirm("Write these changes?"))) {
+      console.log("Nothing written.");
+      return;
+    }
+    commitCheckedWrite(check);
+    written = [...check.changes.keys()];
+  } finally {
+    prompt?.close();
+  }
+
+  if (opts.json) {
+    console.log(JSON.stringify({ file, written: true, added: additions, updated: updates, skipped: plan.skipped }, null, 2));
+    return;
+  }
+  const a = additions.length;
+  const u = updates.length;
+  console.log(`✓ Added ${a} project${a === 1 ? "" : "s"}, updated ${u} field${u === 1 ? "" : "s"}`);
+  console.log(`  Saved to ${written.join(", ")}`);
+}
@@ -2,8 +2,9 @@ import { readdirSync, statSync, existsSync, readFileSync } from "node:fs";
 import { join, basename, resolve } from "node:path";
 import type { Project, HopConfig } from "@hop-org/hop-spec-core";
 import { discoverAndLoad } from "@hop-org/hop-spec-core";
+import { applyDiscoveries } from "./discover-apply.js";
 
-interface DiscoveredProject {
+export interface DiscoveredProject {
   name: string;
   path: string;
   type: string;
@@ -34,30 +35,88 @@ function isGitRepo(dir: string): boolean {
   return existsSync(join(dir, ".git"));
 }
 
-function getGitRemote(dir: string): string | undefined {
-  try {
-    const configPath = join(dir, ".git", "config");
-    if (!existsSync(configPath)) return undefined;
-    const content = readFileSync(configPath, "utf-8");
-    const match = content.match(/\[remote "origin"\][^[]*url\s*=\s*(.+)/m);
-    return match?.[1]?.trim();
-  } catch {
-    return undefined;
+/**
+ * Parse a git config file into sections keyed as git prints them
+ * (`remote "origin"`, `user`), with lower-cased keys. Covers what hop reads —
+ * remotes and identity — not includes or multi-valued keys.
+ */
+export function parseGitConfig(content: string): Record<string, Record<string, string>> {
+  const sections: Record<string, Record<string, string>> = {};
+  let current: Record<string, string> | undefined;
+  for (const raw of content.split("\n")) {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#") || line.startsWith(";")) continue;
+    const header = /^\[([^\s\]"]+)(?:\s+"(.*)")?\]$/.exec(line);
+    if (header) {
+      const name = header[2] === undefined ? header[1].toLowerCase() : `${header[1].toLowerCase()} "${header[2]}"`;
+      current = sections[name] ??= {};
+      continue;
+    }
+    const entry = /^([\w-]+)\s*(?:=\s*(.*))?$/.exec(line);
+    if (!entry || !current) continue;
+    let value = (entry[2] ?? "true").replace(/\s+[#;].*$/, "");
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1);
+    current[entry[1].toLowerCase()] = value;
   }
+  return sections;
+}
+
+/**
+ * The config file for a repo. A branch checkout made with `git worktree add`
+ * has a `.git` file pointing at its git dir, whose `commondir` leads back to
+ * the main repo's config.
+ */
+function gitConfigPath(dir: string): string | undefined {
+  const dotGit = join(dir, ".git");
+  if (!existsSync(dotGit)) return undefined;
+  if (statSync(dotGit).isDirectory()) return join(dotGit, "config");
+
+  const gitdir = /^gitdir:\s*(.+)$/m.exec(readFileSync(dotGit, "utf-8"))?.[1]?.trim();
+  if (!gitdir) return undefined;
+  const gitDirPath = resolve(dir, gitdir);
+  const commondir = join(gitDirPath, "commondir");
+  const base = existsSync(commondir) ? resolve(gitDirPath, readFileSync(commondir, "utf-8").trim()) : gitDirPath;
+  return join(base, "config");
 }
 
-function getDefaultBranch(dir: string): string | undefined {
+/** A repo's own git config, parsed; undefined when it has none. */
+export function readGitConfig(dir: string): Record<string, Record<string, string>> | undefined {
   try {
-    const headPath = join(dir, ".git", "HEAD");
-    if (!existsSync(headPath)) return undefined;
-    const content = readFileSync(headPath, "utf-8").trim();
-    const match = content.match(/^ref: refs\/heads\/(.+)$/);
-    return match?.[1];
+    const configPath = gitConfigPath(dir);
+    if (!configPath || !existsSync(configPath)) return undefined;
+    return parseGitConfig(readFileSync(configPath, "utf-8"));
   } catch {
     return undefined;
   }
 }
 
+function getGitRemote(dir: string): string | undefined {
+  return readGitConfig(dir)?.['remote "origin"']?.url;
+}
+
+/**
+ * The branch a clone treats as default. origin/HEAD is what `git clone`
+ * records for the remote's default; HEAD is only what is checked out now, so
+ * it is the fallback.
+ */
+export function detectDefaultBranch(repoPath: string): { branch: string; from: string } | undefined {
+  const gitDir = join(repoPath, ".git");
+  if (!existsSync(join(gitDir, "HEAD"))) return undefined;
+  const read = (rel: string) => {
+    try {
+      return readFileSync(join(gitDir, rel), "utf-8").trim();
+    } catch {
+      return "";
+    }
+  };
+
+  const originHead = /^ref: refs\/remotes\/origin\/(.+)$/.exec(read("refs/remotes/origin/HEAD"));
+  if (originHead) return { branch: originHead[1], from: ".git/refs/remotes/origin/HEAD" };
+  const head = /^ref: refs\/heads\/(.+)$/.exec(read("HEAD"));
+  if (head) return { branch: head[1], from: ".git/HEAD" };
+  return undefined;
+}
+
 function detectMarkers(dir: string): string[] {
   const markers: string[] = [];
   for (const marker of Object.keys(PROJECT_MARKERS)) {
@@ -68,13 +127,51 @@ function detectMarkers(dir: string): string[] {
   return markers;
 }
 
-function toSlug(name: string): string {
+export function toSlug(name: string): string {
   return name
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, "-")
     .replace(/^-|-$/g, "");
 }
 
+/**
+ * Describe one directory as a project: slug name, type from its first marker,
+ * and git remote and branch when it is a repo. `markers` is empty when the
+ * directory has neither .git nor a known manifest.
+ */
+export function inspectDirectory(dir: string): DiscoveredProject {
+  const hasGit = isGitRepo(dir);
+  const markers = detectMarkers(dir);
+  const project: DiscoveredProject = {
+    name: toSlug(basename(dir)),
+    path: resolve(dir),
+    type: markers.length > 0 ? PROJECT_MARKERS[markers[0]] : "tool",
+    markers: hasGit ? [".git", ...markers] : markers,
+  };
+
+  if (hasGit) {
+    const remoteUrl = getGitRemote(dir);
+    const defaultBranch = detectDefaultBranch(dir)?.branch;
+    if (remoteUrl || defaultBranch) {
+      project.git = {};
+      if (remoteUrl) project.git.remote_url = remoteUrl;
+      if (defaultBranch) project.git.default_branch = defaultBranch;
+    }
+  }
+  return project;
+}
+
+/** The hop.json `projects` entry for a discovered project. */
+export function toProjectEntry(p: DiscoveredProject): Project {
+  const proj: Project = {
+    name: p.name,
+    path: p.path,
+    type: p.type,
+  };
+  if (p.git) proj.git = p.git;
+  return proj;
+}
+
 function scanDirectory(rootDir: string, maxDepth: number): DiscoveredProject[] {
   const results: DiscoveredProject[] = [];
 
@@ -84,30 +181,11 @@ function scanDirectory(rootDir: string, maxDepth: number): DiscoveredProject[] {
     const dirName = basename(dir);
     if (SKIP_DIRS.has(dirName) && depth > 0) return;
 
-    const hasGit = isGitRepo(dir);
-    const markers = detectMarkers(dir);
-
-    if (hasGit || markers.length > 0) {
-      const project: DiscoveredProject = {
-        name: toSlug(basename(dir)),
-        path: resolve(dir),
-        type: markers.length > 0 ? PROJECT_MARKERS[markers[0]] : "tool",
-        markers: hasGit ? [".git", ...markers] : markers,
-      };
-
-      if (hasGit) {
-        const remoteUrl = getGitRemote(dir);
-        const defaultBranch = getDefaultBranch(dir);
-        if (remoteUrl || defaultBranch) {
-          project.git = {};
-          if (remoteUrl) project.git.remote_url = remoteUrl;
-          if (defaultBranch) project.git.default_branch = defaultBranch;
-        }
-      }
-
+    const project = inspectDirectory(dir);
+    if (project.markers.length > 0) {
       results.push(project);
       // Don't recurse into git repos - they are self-contained projects
-      if (hasGit) return;
+      if (project.markers[0] === ".git") return;
     }
 
     // Recurse into subdirectories
@@ -159,12 +237,39 @@ interface DiscoverOptions {
   depth?: number;
   json?: boolean;
   smart?: boolean;
+  /** Merge discoveries into hop.json instead of printing them. */
+  apply?: boolean;
+  /** With `apply`, accept every change without prompting. */
+  yes?: boolean;
 }
 
 export async function runDiscover(opts: DiscoverOptions): Promise<void> {
   const maxDepth = opts.depth ?? 3;
   let scanDirs: string[];
 
+  if (opts.apply && opts.json && !opts.yes) {
+    console.error("Error: --apply --json cannot prompt; pass --yes as well.");
+    process.exit(1);
+    return;
+  }
+  let loaded: ReturnType<typeof discoverAndLoad> | undefined;
+  if (opts.apply) {
+    try {
+      loaded = discoverAndLoad();
+    } catch (err) {
+      console.error("Error: Failed to load hop.json.");
+      console.error(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+      return;
+    }
+    if (!loaded) {
+      console.error("Error: No hop.json found to apply discoveries to.");
+      console.error("Run 'hop init' to create ~/.hop/hop.json");
+      process.exit(1);
+      return;
+    }
+  }
+
   if (opts.dir) {
     // Explicit directory — just scan it
     const dir = resolve(opts.dir);
@@ -175,7 +280,7 @@ export async function runDiscover(opts: DiscoverOptions): Promise<void> {
     scanDirs = [dir];
   } else {
     // Smart mode: try to use hop.json roots
-    const loaded = discoverAndLoad();
+    loaded ??= discoverAndLoad();
     if (loaded) {
       const roots = getScanRootsFromConfig(loaded.config);
       if (roots.length > 0) {
@@ -212,17 +317,14 @@ export async function runDiscover(opts: DiscoverOptions): Promise<void> {
 
   console.error(`Found ${allProjects.length} project(s).\n`);
 
+  if (opts.apply) {
+    await applyDiscoveries(allProjects, loaded!.resolved, { yes: opts.yes, json: opts.json });
+    return;
+  }
+
   if (opts.json) {
     // Output as hop.json-compatible project entries
-    const hopProjects: Project[] = allProjects.map((p) => {
-      const proj: Project = {
-        name: p.name,
-        path: p.path,
-        type: p.type,
-      };
-      if (p.git) proj.git = p.git;
-      return proj;
-    });
+    const hopProjects: Project[] = allProjects.map(toProjectEntry);
     console.log(JSON.stringify(hopProjects, null, 2));
     return;
   }
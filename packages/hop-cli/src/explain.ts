@@ -0,0 +1,117 @@
+/**
+ * hop config explain — show where an effective hop.json value comes from.
+ *
+ * A value can be shaped by two independent mechanisms: discovery picks one
+ * hop.json out of several candidate locations, and `extends` then merges that
+ * file over its bases. This command reports both for a single JSON pointer —
+ * the effective value, the file that supplied it, the discovery step that
+ * selected the loaded file, and every other candidate that step shadowed.
+ */
+
+import type { DiscoveryCandidate } from "@hop-org/hop-spec-core";
+import {
+  discoverHopCandidates,
+  loadResolvedHopConfig,
+  getAtPointer,
+  parsePointer,
+  sourcesOf,
+} from "@hop-org/hop-spec-core";
+
+export interface ExplainOptions {
+  json?: boolean;
+}
+
+export interface Explanation {
+  pointer: string;
+  exists: boolean;
+  value?: unknown;
+  /** Files that supplied the value, in merge order. One for a plain leaf. */
+  sources: string[];
+  /** The hop.json discovery selected, and the step that selected it. */
+  config: DiscoveryCandidate;
+  /** Every file in the extends chain, bases first. */
+  files: string[];
+  /** Other hop.json files discovery found but did not select. */
+  shadowed: DiscoveryCandidate[];
+}
+
+export async function runExplain(pointer: string, opts: ExplainOptions): Promise<void> {
+  try {
+    parsePointer(pointer);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Example: hop config explain /projects/0/path");
+    process.exit(1);
+    return;
+  }
+
+  const [selected, ...shadowed] = discoverHopCandidates();
+  if (!selected) {
+    console.error("Error: No hop.json found.");
+    console.error("Searched: ~/.hop/settings.json, $HOP_CONFIG_PATH, ~/.hop/hop.json, parent directories");
+    process.exit(1);
+    return;
+  }
+
+  let resolved;
+  try {
+    resolved = loadResolvedHopConfig(selected.path);
+  } catch (err) {
+    console.error(`Error: Failed to load ${selected.path}`);
+    console.error(`  ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+    return;
+  }
+
+  const value = getAtPointer(resolved.config, pointer);
+  const explanation: Explanation = {
+    pointer,
+    exists: value !== undefined,
+    ...(value !== undefined ? { value } : {}),
+    sources: value !== undefined ? sourcesOf(resolved, pointer) : [],
+    config: selected,
+    files: resolved.files,
+    shadowed,
+  };
+
+  if (opts.json) {
+    console.log(JSON.stringify(explanation, null, 2));
+  } else {
+    printExplanation(explanation);
+  }
+
+  if (!explanation.exists) process.exitCode = 1;
+}
+
+function printExplanation(e: Explanation): void {
+  console.log(`Pointer:  ${e.pointer}`);
+  if (e.exists) {
+    const text = JSON.stringify(e.value, null, 2).split("\n");
+    console.log(`Value:    ${text[0]}`);
+    for (const line of text.slice(1)) console.log(`          ${line}`);
+  } else {
+    console.log(`Value:    (not set)`);
+  }
+
+  if (e.sources.length === 1) {
+    console.log(`Source:   ${e.sources[0]}`);
+  } else if (e.sources.length > 1) {
+    console.log(`Sources:  merged from ${e.sources.length} files`);
+    for (const s of e.sources) console.log(`          ${s}`);
+  }
+
+  console.log("");
+  console.log(`Config:   ${e.config.path}`);
+  console.log(`Selected: ${e.config.via} (step: ${e.config.step})`);
+  if (e.files.length > 1) {
+    console.log(`Extends:  ${e.files.join(" → ")}`);
+  }
+
+  if (e.shadowed.length > 0) {
+    console.log("");
+    console.log(`Shadowed (${e.shadowed.length}): found by discovery but not loaded`);
+    for (const s of e.shadowed) {
+      console.log(`  ${s.path}  (${s.via})`);
+    }
+  }
+}
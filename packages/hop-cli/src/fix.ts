@@ -0,0 +1,259 @@
+/**
+ * hop fix — apply the remedies `hop report` can only suggest.
+ *
+ * Three problems have an unambiguous mechanical fix:
+ *   - infra_repos naming its directory with a legacy key (root, root_path,
+ *     base, dir) instead of `path` → rename the key.
+ *   - A project with a checkout on disk but no git.default_branch → read it
+ *     from the repo: origin/HEAD when the clone recorded it, else HEAD.
+ *   - A project whose path no longer exists → re-path it when exactly one
+ *     directory of the same name sits in agent_root; otherwise drop the entry,
+ *     but only with --drop-stale and only when nothing else refers to it.
+ *
+ * Edits go through the core's format-preserving editor: the rest of the file —
+ * key order, spacing, hand-grouped sections — is left byte-for-byte as it
+ * was. With `extends`, each fix lands in the file that wrote the value. Like
+ * every other command that writes hop.json, the result is validated first and
+ * refused if a fix would introduce an error (see mutate.ts).
+ */
+
+import { existsSync, statSync } from "node:fs";
+import { basename, join, resolve } from "node:path";
+import type { JsonEdit, ResolvedHopConfig } from "@hop-org/hop-spec-core";
+import {
+  discoverHopPath,
+  loadResolvedHopConfig,
+  originOf,
+  sourcesOf,
+  formatLocation,
+  locate,
+} from "@hop-org/hop-spec-core";
+import { detectDefaultBranch } from "./discover.js";
+import { checkEditsOrExit, commitCheckedWrite } from "./mutate.js";
+
+const LEGACY_INFRA_KEYS = ["root", "root_path", "base", "dir"];
+
+export type FixKind = "infra-path-key" | "default-branch" | "stale-repath" | "stale-drop";
+
+export interface Fix {
+  kind: FixKind;
+  /** File the edit applies to — a base file when `extends` supplied the value. */
+  file: string;
+  /** Pointer in the merged config. */
+  pointer: string;
+  description: string;
+  /** The edit, addressed by pointer within `file`. */
+  edit: JsonEdit;
+}
+
+export interface SkippedFix {
+  kind: FixKind;
+  pointer: string;
+  reason: string;
+}
+
+export interface FixOptions {
+  file?: string;
+  dryRun?: boolean;
+  dropStale?: boolean;
+  json?: boolean;
+}
+
+function isDir(p: string): boolean {
+  try {
+    return statSync(p).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+/** Everything outside `projects` that names a project, by pointer. */
+function projectReferences(resolved: ResolvedHopConfig, name: string): string[] {
+  const config = resolved.config;
+  const refs: string[] = [];
+  (config.bundles ?? []).forEach((b, i) => {
+    if (b.projects.includes(name) || b.primary_project === name) refs.push(`/bundles/${i}`);
+  });
+  if (config.cross_project?.home_project === name) refs.push("/cross_project/home_project");
+  return refs;
+}
+
+/** Work out every applicable fix without touching the filesystem. */
+export function planFixes(
+  resolved: ResolvedHopConfig,
+  opts: { dropStale?: boolean } = {}
+): { fixes: Fix[]; skipped: SkippedFix[] } {
+  const config = resolved.config;
+  const fixes: Fix[] = [];
+  const skipped: SkippedFix[] = [];
+
+  // Edits target the file and in-file pointer that wrote the merged value.
+  const target = (pointer: string) => {
+    const origin = originOf(resolved, pointer)!;
+    return { file: origin.file, inFile: origin.pointer };
+  };
+
+  // --- infra_repos legacy key ---
+  const infra = config.infra_repos as Record<string, unknown> | undefined;
+  if (infra && typeof infra.path !== "string") {
+    const legacyKey = LEGACY_INFRA_KEYS.find((k) => typeof infra[k] === "string");
+    if (legacyKey) {
+      const pointer = `/infra_repos/${legacyKey}`;
+      const t = target(pointer);
+      fixes.push({
+        kind: "infra-path-key",
+        file: t.file,
+        pointer,
+        description: `renamed "${legacyKey}" to "path"`,
+        edit: { op: "rename", pointer: t.inFile, key: "path" },
+      });
+    }
+  }
+
+  // --- projects ---
+  const registered = new Set((config.projects ?? []).filter((p) => p.path).map((p) => resolve(p.path!)));
+  const agentRoot = config.machine?.agent_root;
+  const loadedFile = resolved.files[resolved.files.length - 1];
+
+  (config.projects ?? []).forEach((p, i) => {
+    const pointer = `/projects/${i}`;
+
+    if (p.path && !existsSync(p.path)) {
+      // Bases are typically shared between machines; only the loaded file is
+      // this machine's to rewrite.
+      const shared = sourcesOf(resolved, pointer).filter((f) => f !== loadedFile);
+      const names = [...new Set([basename(p.path), p.name])];
+      const candidates = agentRoot && isDir(agentRoot)
+        ? names.map((n) => join(agentRoot, n)).filter((c) => isDir(c) && !registered.has(resolve(c)))
+        : [];
+
+      const tp = target(`${pointer}/path`);
+      if (candidates.length === 1 && tp.file === loadedFile) {
+        fixes.push({
+          kind: "stale-repath",
+          file: tp.file,
+          pointer: `${pointer}/path`,
+          description: `re-pathed "${p.name}": ${p.path} → ${candidates[0]}`,
+          edit: { op: "set", pointer: tp.inFile, value: candidates[0] },
+        });
+        // Claimed: a later stale project must not be re-pathed to it too
+        registered.add(resolve(candidates[0]));
+      } else if (!opts.dropStale) {
+        skipped.push({ kind: "stale-drop", pointer, reason: `"${p.name}" is missing from disk; pass --drop-stale to remove it` });
+      } else {
+        const refs = projectReferences(resolved, p.name);
+        if (refs.length > 0) {
+          skipped.push({ kind: "stale-drop", pointer, reason: `"${p.name}" is missing from disk but still referenced at ${refs.join(", ")}` });
+        } else if (shared.length > 0) {
+          skipped.push({ kind: "stale-drop", pointer, reason: `"${p.name}" is missing from disk but partly defined in ${shared.join(", ")}` });
+        } else {
+          fixes.push({
+            kind: "stale-drop",
+            file: loadedFile,
+            pointer,
+            description: `dropped stale project "${p.name}" (${p.path})`,
+            edit: { op: "remove", pointer: target(pointer).inFile },
+          });
+        }
+      }
+      return;
+    }
+
+    if (p.path && !p.git?.default_branch) {
+      const detected = detectDefaultBranch(p.path);
+      if (!detected) return;
+      const t = target(p.git ? `${pointer}/git` : pointer);
+      fixes.push({
+        kind: "default-branch",
+        file: t.file,
+        pointer: `${pointer}/git/default_branch`,
+        description: `set "${p.name}" default_branch to "${detected.branch}" (from ${detected.from})`,
+        edit: p.git
+          ? { op: "set", pointer: `${t.inFile}/default_branch`, value: detected.branch }
+          : { op: "set", pointer: `${t.inFile}/git`, value: { default_branch: detected.branch } },
+      });
+    }
+  });
+
+  return { fixes, skipped };
+}
+
+/**
+ * The edits for every file the fixes touch. Removals run last and from the
+ * highest index down, so earlier edits' pointers still hold when they run.
+ */
+export function fixEdits(fixes: Fix[]): Map<string, JsonEdit[]> {
+  const out = new Map<string, JsonEdit[]>();
+  for (const file of new Set(fixes.map((f) => f.file))) {
+    const edits = fixes.filter((f) => f.file === file).map((f) => f.edit);
+    const removals = edits
+      .filter((e) => e.op === "remove")
+      .sort((a, b) => Number(b.pointer.split("/").pop()) - Number(a.pointer.split("/").pop()));
+    out.set(file, [...edits.filter((e) => e.op !== "remove"), ...removals]);
+  }
+  return out;
+}
+
+export async function runFix(opts: FixOptions): Promise<void> {
+  const hopPath = opts.file ? resolve(opts.file) : discoverHopPath();
+  if (!hopPath) {
+    console.error("Error: No hop.json found.");
+    console.error("Searched: ~/.hop/settings.json, $HOP_CONFIG_PATH, ~/.hop/hop.json, parent directories");
+    process.exit(1);
+    return;
+  }
+
+  let resolved: ResolvedHopConfig;
+  let plan: { fixes: Fix[]; skipped: SkippedFix[] };
+  try {
+    resolved = loadResolvedHopConfig(hopPath);
+    plan = planFixes(resolved, { dropStale: opts.dropStale });
+  } catch (err) {
+    console.error(`Error: Failed to fix ${hopPath}`);
+    console.error(`  ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+    return;
+  }
+
+  // With --dry-run this prints the diff (unless --json) and writes nothing
+  const check = checkEditsOrExit(resolved, fixEdits(plan.fixes));
+  if (!check || !commitCheckedWrite(check, opts)) return;
+  const changes = check.changes;
+
+  if (opts.json) {
+    console.log(JSON.stringify({
+      file: hopPath,
+      dry_run: !!opts.dryRun,
+      fixes: plan.fixes.map(({ edit: _edit, ...f }) => ({ ...f, location: locate(resolved, f.pointer) })),
+      skipped: plan.skipped,
+      files: [...changes.keys()],
+    }, null, 2));
+    return;
+  }
+
+  if (plan.fixes.length === 0 && plan.skipped.length === 0) {
+    console.log(`Nothing to fix in ${hopPath}`);
+    return;
+  }
+
+  for (const f of plan.fixes) {
+    const where = formatLocation(locate(resolved, f.pointer)!, process.cwd());
+    console.log(`  ${opts.dryRun ? "~" : "✓"} ${where}: ${f.description}`);
+  }
+  for (const s of plan.skipped) {
+    console.log(`  - ${s.pointer}: skipped — ${s.reason}`);
+  }
+
+  console.log("");
+  const n = plan.fixes.length;
+  const files = [...changes.keys()].join(", ");
+  if (opts.dryRun) {
+    console.log(`Dry run: ${n} fix${n === 1 ? "" : "es"} would be applied${n ? ` to ${files}` : ""}. Nothing written.`);
+  } else {
+    console.log(`Applied ${n} fix${n === 1 ? "" : "es"}${n ? ` to ${files}` : ""}.`);
+  }
+}
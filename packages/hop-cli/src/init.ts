@@ -8,9 +8,9 @@
 import { writeFileSync, existsSync, mkdirSync } from "node:fs";
 import { resolve, dirname, join } from "node:path";
 import { homedir, hostname as getHostname } from "node:os";
-import { createInterface } from "node:readline";
 import type { HopConfig, Machine } from "@hop-org/hop-spec-core";
 import { discoverHopPath, ensureHopDir, setConfigPath, HOP_DEFAULT_PATH } from "@hop-org/hop-spec-core";
+import { createPrompter } from "./prompt.js";
 
 const SCHEMA_URL = "https://harnessops.org/schema/v0.1.0/hop.json";
 const SCHEMA_VERSION = "0.1.0";
@@ -20,39 +20,6 @@ interface PromptResult {
   outputPath: string;
 }
 
-/**
- * Simple readline-based prompt (no external dependency needed).
- */
-function createPrompter() {
-  const rl = createInterface({ input: process.stdin, output: process.stdout });
-
-  function ask(question: string, defaultValue?: string): Promise<string> {
-    const suffix = defaultValue ? ` [${defaultValue}]` : "";
-    return new Promise((resolve) => {
-      rl.question(`${question}${suffix}: `, (answer) => {
-        resolve(answer.trim() || defaultValue || "");
-      });
-    });
-  }
-
-  function confirm(question: string, defaultYes = true): Promise<boolean> {
-    const hint = defaultYes ? "[Y/n]" : "[y/N]";
-    return new Promise((resolve) => {
-      rl.question(`${question} ${hint}: `, (answer) => {
-        const a = answer.trim().toLowerCase();
-        if (a === "") resolve(defaultYes);
-        else resolve(a === "y" || a === "yes");
-      });
-    });
-  }
-
-  function close() {
-    rl.close();
-  }
-
-  return { ask, confirm, close };
-}
-
 /**
  * Detect reasonable defaults from the environment.
  */
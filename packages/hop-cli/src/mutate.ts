@@ -0,0 +1,121 @@
+/**
+ * Checked writes for the commands that change hop.json.
+ *
+ * Edits go through the core's format-preserving editor, then the merged
+ * result is validated — schema and semantic rules — before anything touches
+ * disk. A write is refused only for errors the edit would introduce: a file
+ * that already has one bad bundle can still gain a project, but adding a
+ * project must not leave a second bad bundle behind.
+ */
+
+import { relative, isAbsolute } from "node:path";
+import { applyJsonEdits, JsonEditError, writeFileAtomically } from "@hop-org/hop-spec-core";
+import type { JsonEdit, ResolvedHopConfig } from "@hop-org/hop-spec-core";
+import { findBundledSchema, validateHopFile } from "./validate.js";
+import type { LocatedDiagnostic } from "./validate.js";
+import { unifiedDiff } from "./diff.js";
+
+export interface CheckedWrite {
+  /** The loaded hop.json — the file validated, whichever files changed. */
+  hopPath: string;
+  /** Text before and after the edits, for every file they touch. */
+  changes: Map<string, { before: string; after: string }>;
+  /** Errors present after the edits but not before. Empty when safe to write. */
+  introduced: LocatedDiagnostic[];
+}
+
+function errorKey(d: LocatedDiagnostic): string {
+  return `${d.rule}\u0000${d.message}`;
+}
+
+/**
+ * Apply `edits` (file → edits in that file) to the texts `resolved` was read
+ * from and validate the outcome. Throws JsonEditError when an edit does not
+ * fit its file, and when the schema cannot be found.
+ */
+export function checkEdits(resolved: ResolvedHopConfig, edits: Map<string, JsonEdit[]>): CheckedWrite {
+  const hopPath = resolved.files[resolved.files.length - 1];
+  const changes = new Map<string, { before: string; after: string }>();
+  for (const [file, fileEdits] of edits) {
+    const before = resolved.documents.get(file)!.text;
+    changes.set(file, { before, after: applyJsonEdits(before, fileEdits) });
+  }
+
+  const schemaPath = findBundledSchema();
+  if (!schemaPath) throw new Error("Could not find bundled hop-schema.json to validate the change against.");
+
+  const errors = (contents?: Map<string, string>) =>
+    validateHopFile(hopPath, schemaPath, { contents }).diagnostics.filter((d) => d.severity === "error");
+
+  // Count pre-existing errors by rule and message; pointers shift when
+  // entries are added or removed, so they cannot be part of the match.
+  const existing = new Map<string, number>();
+  for (const d of errors()) existing.set(errorKey(d), (existing.get(errorKey(d)) ?? 0) + 1);
+  const contents = new Map([...changes].map(([file, { after }]) => [file, after]));
+  const introduced = errors(contents).filter((d) => {
+    const left = existing.get(errorKey(d)) ?? 0;
+    existing.set(errorKey(d), left - 1);
+    return left <= 0;
+  });
+
+  return { hopPath, changes, introduced };
+}
+
+/**
+ * `checkEdits`, printing the error and exiting 1 when an edit does not fit
+ * its file or the schema cannot be found.
+ */
+export function checkEditsOrExit(resolved: ResolvedHopConfig, edits: Map<string, JsonEdit[]>): CheckedWrite | undefined {
+  try {
+    return checkEdits(resolved, edits);
+  } catch (err) {
+    const message = err instanceof JsonEditError ? `Cannot edit hop.json: ${err.message}` : (err as Error).message;
+    console.error(`Error: ${message}`);
+    process.exit(1);
+    return undefined;
+  }
+}
+
+/**
+ * Print why a checked change cannot be written and exit 1, if it introduces
+ * errors. Returns whether it is safe to go on.
+ */
+export function assertNoNewErrors(check: CheckedWrite): boolean {
+  if (check.introduced.length === 0) return true;
+  console.error(`Error: Not writing ${check.hopPath} — the change would make it invalid:`);
+  for (const d of check.introduced) {
+    console.error(`  ${d.path || "/"}: ${d.message} [${d.rule}]`);
+    if (d.suggestion) console.error(`    → ${d.suggestion}`);
+  }
+  process.exit(1);
+  return false;
+}
+
+/** Print a unified diff for every file the change touches. */
+export function printChanges(check: CheckedWrite): void {
+  for (const [file, { before, after }] of check.changes) {
+    const rel = relative(process.cwd(), file);
+    console.log(unifiedDiff(before, after, rel && !rel.startsWith("..") && !isAbsolute(rel) ? rel : file));
+    console.log("");
+  }
+}
+
+/**
+ * Write a checked change, or explain why not. Prints the refusal and exits 1
+ * when the edits introduce errors; with `dryRun`, prints a diff per file and
+ * writes nothing. Returns whether the caller should go on to report success.
+ */
+export function commitCheckedWrite(check: CheckedWrite, opts: { dryRun?: boolean; json?: boolean } = {}): boolean {
+  if (!assertNoNewErrors(check)) return false;
+
+  if (opts.dryRun) {
+    if (!opts.json) printChanges(check);
+    return true;
+  }
+
+  // Every file's text was worked out and validated above; replace each in one step
+  for (const [file, { before, after }] of check.changes) {
+    if (after !== before) writeFileAtomically(file, after);
+  }
+  return true;
+}
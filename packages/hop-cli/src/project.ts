@@ -0,0 +1,250 @@
+/**
+ * hop project add|remove|set|rename — change the `projects` array in place.
+ *
+ * `add` inspects the directory the way `hop discover` does (slug name, type
+ * from its manifest, git remote and branch) so a single repo can be
+ * registered without scanning a tree and pasting JSON. `remove` also takes
+ * the project out of every bundle that lists it and clears it as
+ * `cross_project.home_project`, and `rename` updates every
+ * reference to the old name (see core's rename.ts). Every change is validated
+ * before it is written (see mutate.ts) and leaves the rest of the file's
+ * formatting alone.
+ *
+ * With `extends`, new projects go into the loaded file; `set` edits whichever
+ * file's entry for the project is closest to the user. A project defined in a
+ * shared base is not removed from here — that base belongs to every machine
+ * that extends it.
+ */
+
+import { existsSync, statSync } from "node:fs";
+import { resolve } from "node:path";
+import type { JsonEdit, Project, ResolvedHopConfig } from "@hop-org/hop-spec-core";
+import { originOf, sourcesOf, parsePointer, formatPointer, planProjectRename } from "@hop-org/hop-spec-core";
+import type { ProjectRename } from "@hop-org/hop-spec-core";
+import { inspectDirectory, toProjectEntry } from "./discover.js";
+import { checkEditsOrExit, commitCheckedWrite } from "./mutate.js";
+import { bundleEditsForProjectRemoval } from "./bundle.js";
+import type { CheckedWrite } from "./mutate.js";
+
+interface MutationOptions {
+  resolved: ResolvedHopConfig;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+export interface ProjectAddOptions extends MutationOptions {
+  name?: string;
+  type?: string;
+  system?: string;
+  description?: string;
+}
+
+export interface ProjectSetOptions extends MutationOptions {
+  /** Parse the value as JSON instead of taking it as a string. */
+  jsonValue?: boolean;
+}
+
+function loadedFile(resolved: ResolvedHopConfig): string {
+  return resolved.files[resolved.files.length - 1];
+}
+
+function fail(message: string, hint?: string): void {
+  console.error(`Error: ${message}`);
+  if (hint) console.error(hint);
+  process.exit(1);
+}
+
+/** Check edits to a single file. */
+function check(resolved: ResolvedHopConfig, file: string, edits: JsonEdit[]): CheckedWrite | undefined {
+  return checkEditsOrExit(resolved, new Map([[file, edits]]));
+}
+
+function findProject(resolved: ResolvedHopConfig, name: string): number {
+  const projects = resolved.config.projects ?? [];
+  const index = projects.findIndex((p) => p.name === name);
+  if (index < 0) {
+    fail(
+      `Project '${name}' not found.`,
+      projects.length > 0 ? `Available: ${projects.map((p) => p.name).join(", ")}` : undefined
+    );
+  }
+  return index;
+}
+
+export async function runProjectAdd(dir: string, opts: ProjectAddOptions): Promise<void> {
+  const { resolved } = opts;
+  const path = resolve(dir);
+  if (!existsSync(path) || !statSync(path).isDirectory()) {
+    fail(`Directory '${path}' does not exist.`);
+    return;
+  }
+
+  const projects = resolved.config.projects ?? [];
+  const detected = inspectDirectory(path);
+  const entry: Project = { ...toProjectEntry(detected), name: opts.name ?? detected.name };
+  if (opts.type) entry.type = opts.type;
+  if (opts.system) entry.system = opts.system;
+  if (opts.description) entry.description = opts.description;
+
+  const samePath = projects.find((p) => p.path && resolve(p.path) === path);
+  if (samePath) {
+    fail(`${path} is already registered as '${samePath.name}'.`);
+    return;
+  }
+  if (projects.some((p) => p.name === entry.name)) {
+    fail(`A project named '${entry.name}' already exists.`, "Choose another with --name <name>.");
+    return;
+  }
+
+  // Keep the detected field order (name, path, type, git) with the
+  // user-supplied fields before git.
+  const { git, ...rest } = entry;
+  const project: Project = git ? { ...rest, git } : rest;
+
+  const file = loadedFile(resolved);
+  const hasProjects = resolved.documents.get(file)!.nodes.has("/projects");
+  const checked = check(resolved, file, [
+    hasProjects
+      ? { op: "insert", pointer: "/projects/-", value: project }
+      : { op: "set", pointer: "/projects", value: [project] },
+  ]);
+  if (!checked || !commitCheckedWrite(checked, opts)) return;
+
+  if (opts.json) {
+    console.log(JSON.stringify({ file, dry_run: !!opts.dryRun, project }, null, 2));
+    return;
+  }
+  const markers = detected.markers.length > 0 ? ` [${detected.markers.join(", ")}]` : "";
+  console.log(`${opts.dryRun ? "~" : "✓"} Added project '${project.name}' → ${path}${markers}`);
+  if (project.git?.remote_url) console.log(`  Remote: ${project.git.remote_url}`);
+  if (project.git?.default_branch) console.log(`  Branch: ${project.git.default_branch}`);
+  console.log(opts.dryRun ? "  Dry run — nothing written." : `  Saved to ${file}`);
+}
+
+export async function runProjectRemove(name: string, opts: MutationOptions): Promise<void> {
+  const { resolved } = opts;
+  const index = findProject(resolved, name);
+  if (index < 0) return;
+
+  const file = loadedFile(resolved);
+  const pointer = `/projects/${index}`;
+  const shared = sourcesOf(resolved, pointer).filter((f) => f !== file);
+  if (shared.length > 0) {
+    fail(`Project '${name}' is defined in ${shared.join(", ")}, which this file extends.`, "Remove it from there instead.");
+    return;
+  }
+
+  // Take it out of bundles in the same write, so none is left naming it.
+  const cascade = bundleEditsForProjectRemoval(resolved, name, new Map([[file, [
+    { op: "remove", pointer: originOf(resolved, pointer)!.pointer },
+  ]]]));
+  if (cascade.error) {
+    fail(`Cannot remove project '${name}': ${cascade.error}`);
+    return;
+  }
+  if (resolved.config.cross_project?.home_project === name) {
+    const home = originOf(resolved, "/cross_project/home_project")!;
+    cascade.edits.set(home.file, [...(cascade.edits.get(home.file) ?? []), { op: "remove", pointer: home.pointer }]);
+    cascade.notes.push("cleared cross_project.home_project");
+  }
+  const checked = checkEditsOrExit(resolved, cascade.edits);
+  if (!checked || !commitCheckedWrite(checked, opts)) return;
+
+  const project = resolved.config.projects![index];
+  const files = [...checked.changes.keys()];
+  if (opts.json) {
+    console.log(JSON.stringify({ files, dry_run: !!opts.dryRun, removed: project, cascaded: cascade.notes }, null, 2));
+    return;
+  }
+  console.log(`${opts.dryRun ? "~" : "✓"} Removed project '${name}'${project.path ? ` (${project.path})` : ""}`);
+  for (const note of cascade.notes) console.log(`  Also ${note}`);
+  console.log(opts.dryRun ? "  Dry run — nothing written." : `  Saved to ${files.join(", ")}`);
+}
+
+export async function runProjectSet(
+  name: string,
+  field: string,
+  raw: string,
+  opts: ProjectSetOptions
+): Promise<void> {
+  const { resolved } = opts;
+  const index = findProject(resolved, name);
+  if (index < 0) return;
+
+  // Fields are dotted (git.default_branch) or, for keys containing dots, a
+  // JSON pointer relative to the project (/extensions/x.y).
+  const segments = field.startsWith("/") ? parsePointer(field) : field.split(".");
+  if (segments.length === 0 || segments.some((s) => s === "")) {
+    fail(`Invalid field '${field}'.`);
+    return;
+  }
+  if (segments[0] === "name") {
+    fail(
+      "A project's name cannot be set; bundles and other entries refer to it by name.",
+      `Use \`hop project rename ${name} <new-name>\` to update them together.`
+    );
+    return;
+  }
+
+  let value: unknown = raw;
+  if (opts.jsonValue) {
+    try {
+      value = JSON.parse(raw);
+    } catch (err) {
+      fail(`--json-value: ${(err as Error).message}`);
+      return;
+    }
+  }
+
+  // Edit the entry closest to the user, creating any missing parent objects
+  // there rather than setting a path that does not exist yet.
+  const origin = originOf(resolved, `/projects/${index}`)!;
+  const nodes = resolved.documents.get(origin.file)!.nodes;
+  const base = parsePointer(origin.pointer);
+  let depth = 0;
+  while (depth < segments.length - 1 && nodes.has(formatPointer([...base, ...segments.slice(0, depth + 1)]))) depth++;
+  const nested = segments.slice(depth + 1).reduceRight<unknown>((inner, key) => ({ [key]: inner }), value);
+  const pointer = formatPointer([...base, ...segments.slice(0, depth + 1)]);
+
+  const checked = check(resolved, origin.file, [{ op: "set", pointer, value: nested }]);
+  if (!checked || !commitCheckedWrite(checked, opts)) return;
+
+  const target = formatPointer(["projects", index, ...segments]);
+  if (opts.json) {
+    console.log(JSON.stringify({ file: origin.file, dry_run: !!opts.dryRun, project: name, pointer: target, value }, null, 2));
+    return;
+  }
+  console.log(`${opts.dryRun ? "~" : "✓"} Set ${name}.${segments.join(".")} = ${JSON.stringify(value)}`);
+  console.log(opts.dryRun ? "  Dry run — nothing written." : `  Saved to ${origin.file}`);
+}
+
+export async function runProjectRename(from: string, to: string, opts: MutationOptions): Promise<void> {
+  const { resolved } = opts;
+  if (findProject(resolved, from) < 0) return;
+
+  let plan: ProjectRename;
+  try {
+    plan = planProjectRename(resolved, from, to);
+  } catch (err) {
+    fail((err as Error).message);
+    return;
+  }
+  const checked = checkEditsOrExit(resolved, plan.edits);
+  if (!checked || !commitCheckedWrite(checked, opts)) return;
+
+  const files = [...checked.changes.keys()];
+  if (opts.json) {
+    console.log(JSON.stringify({ files, dry_run: !!opts.dryRun, from, to, changes: plan.changes, mentions: plan.mentions }, null, 2));
+    return;
+  }
+  const label = plan.changes.length === 1 ? "reference" : "references";
+  console.log(`${opts.dryRun ? "~" : "✓"} Renamed project '${from}' → '${to}' (${plan.changes.length} ${label})`);
+  for (const c of plan.changes) {
+    console.log(`  ${c.kind.padEnd(9)} ${c.file}:${c.pointer}`);
+  }
+  if (plan.mentions.length > 0) {
+    console.log(`  Left as is — extension values equal to '${from}' that hop does not know to be references:`);
+    for (const m of plan.mentions) console.log(`    ${m.file}:${m.pointer}`);
+  }
+  console.log(opts.dryRun ? "  Dry run — nothing written." : `  Saved to ${files.join(", ")}`);
+}
@@ -0,0 +1,62 @@
+/**
+ * Interactive prompts for commands that ask before acting (init, discover --apply).
+ */
+
+import { createInterface } from "node:readline";
+
+/**
+ * Simple readline-based prompt (no external dependency needed).
+ *
+ * Lines are queued as they arrive rather than read per question, so answers
+ * piped in ahead of time (`printf 'y\nn\n' | hop ...`) are not lost between
+ * prompts. Once input ends, `ask` takes its default and `confirm` declines —
+ * running out of answers is not consent.
+ */
+export function createPrompter() {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const queued: string[] = [];
+  let waiting: ((line: string | undefined) => void) | undefined;
+  let ended = false;
+
+  rl.on("line", (line) => {
+    const resolve = waiting;
+    waiting = undefined;
+    if (resolve) resolve(line);
+    else queued.push(line);
+  });
+  rl.on("close", () => {
+    ended = true;
+    waiting?.(undefined);
+    waiting = undefined;
+  });
+
+  async function answer(question: string): Promise<string | undefined> {
+    process.stdout.write(question);
+    const line = queued.length > 0 ? queued.shift() : ended ? undefined : await new Promise<string | undefined>((resolve) => {
+      waiting = resolve;
+    });
+    // A terminal echoes what was typed; piped input needs the line ending.
+    if (!process.stdin.isTTY) process.stdout.write(`${line ?? ""}\n`);
+    return line;
+  }
+
+  async function ask(question: string, defaultValue?: string): Promise<string> {
+    const suffix = defaultValue ? ` [${defaultValue}]` : "";
+    const a = await answer(`${question}${suffix}: `);
+    return a?.trim() || defaultValue || "";
+  }
+
+  async function confirm(question: string, defaultYes = true): Promise<boolean> {
+    const hint = defaultYes ? "[Y/n]" : "[y/N]";
+    const a = (await answer(`${question} ${hint}: `))?.trim().toLowerCase();
+    if (a === undefined) return false;
+    if (a === "") return defaultYes;
+    return a === "y" || a === "yes";
+  }
+
+  function close() {
+    rl.close();
+  }
+
+  return { ask, confirm, close };
+}
@@ -13,17 +13,26 @@
  */
 
 import { existsSync, writeFileSync } from "node:fs";
-import { join, resolve } from "node:path";
+import { join, resolve, dirname } from "node:path";
 import type {
   Bundle,
   GitHubAccount,
   HopConfig,
   InfraRepoEntry,
   Project,
+  ResolvedHopConfig,
+  SourceLocation,
+} from "@hop-org/hop-spec-core";
+import {
+  HOP_DIR,
+  ensureHopDir,
+  infraRepoName,
+  normalizeInfraRepo,
+  locate,
+  formatLocation,
+  observeHarness,
 } from "@hop-org/hop-spec-core";
-import { HOP_DIR, ensureHopDir, infraRepoName, normalizeInfraRepo } from "@hop-org/hop-spec-core";
 import { computeAudit } from "./audit.js";
-import { observeHarness } from "./harness.js";
 import { FOUNDATION_CSS, FOUNDATION_JS } from "./assets.generated.js";
 
 /** Severity ordering drives both sort position and colour. */
@@ -38,6 +47,8 @@ interface Finding {
   detail: string;
   /** Concrete next step, when there is an unambiguous one. */
   remedy?: string;
+  /** Where in hop.json to make that change, when the finding is about one entry. */
+  location?: SourceLocation;
 }
 
 export interface ReportOptions {
@@ -45,6 +56,8 @@ export interface ReportOptions {
   out?: string;
   /** Include the stray scan, which walks outside the managed directories. */
   scan?: boolean;
+  /** The loaded config with its sources, used to locate findings. */
+  resolved?: ResolvedHopConfig;
 }
 
 /**
@@ -130,10 +143,14 @@ function badge(text: string, kind: "good" | "warn" | "bad" | "info" | "dim"): st
  * bundles or services, and flagging those as problems trains people to ignore
  * the panel.
  */
-function analyze(config: HopConfig, scan: boolean): Finding[] {
+function analyze(config: HopConfig, scan: boolean, resolved?: ResolvedHopConfig): Finding[] {
   const findings: Finding[] = [];
-  const audit = computeAudit(config, { scan });
+  const audit = computeAudit(config, { scan, resolved });
   const projects = config.projects ?? [];
+  const at = (pointer: string) => {
+    const location = resolved && locate(resolved, pointer);
+    return location ? { location } : {};
+  };
 
   // --- Machine ---
   if (!config.machine?.agent_root) {
@@ -144,6 +161,7 @@ function analyze(config: HopConfig, scan: boolean): Finding[] {
       detail:
         "Agent tooling uses agent_root as the default place to look for work, and hop audit treats it as a managed directory. Without it, the audit has nothing to reconcile against.",
       remedy: "Set machine.agent_root to your development root.",
+      ...at("/machine"),
     });
   } else if (!existsSync(config.machine.agent_root)) {
     findings.push({
@@ -152,11 +170,12 @@ function analyze(config: HopConfig, scan: boolean): Finding[] {
       title: "agent_root does not exist on disk",
       detail: `hop.json points at ${config.machine.agent_root}, but there is no directory there. Every path resolved relative to it will fail.`,
       remedy: "Correct machine.agent_root, or create the directory.",
+      ...at("/machine/agent_root"),
     });
   }
 
   // --- Projects ---
-  for (const p of projects) {
+  projects.forEach((p, i) => {
     if (!p.path) {
       findings.push({
         severity: "warn",
@@ -165,6 +184,7 @@ function analyze(config: HopConfig, scan: boolean): Finding[] {
         detail:
           "Name-to-path resolution is the most common reason tools consult hop.json. A project without a path cannot be resolved by hop path.",
         remedy: `Add a path to the "${p.name}" entry.`,
+        ...at(`/projects/${i}`),
       });
     }
     if (!p.git?.default_branch) {
@@ -174,9 +194,11 @@ function analyze(config: HopConfig, scan: boolean): Finding[] {
         title: `Project "${p.name}" has no default_branch`,
         detail:
           "Consumers fall back to \"main\" when default_branch is absent. That is usually right, but it is an assumption rather than a statement, and it is wrong for any repo that has moved on.",
+        ...(p.path ? { remedy: "hop fix fills it in from the checkout." } : {}),
+        ...at(p.git ? `/projects/${i}/git` : `/projects/${i}`),
       });
     }
-  }
+  });
 
   for (const s of audit.stale) {
     findings.push({
@@ -184,7 +206,8 @@ function analyze(config: HopConfig, scan: boolean): Finding[] {
       area: "projects",
       title: `Registered project "${s.name}" is missing from disk`,
       detail: `hop.json lists ${s.path}, but nothing exists there. The entry is stale — the repo was moved, renamed, or never cloned on this machine.`,
-      remedy: `Remove the "${s.name}" entry, or clone the repo to that path.`,
+      remedy: `Remove the "${s.name}" entry, or clone the repo to that path. hop fix re-paths it if the repo moved within agent_root.`,
+      ...(s.location ? { location: s.location } : {}),
     });
   }
 
@@ -242,16 +265,18 @@ function analyze(config: HopConfig, scan: boolean): Finding[] {
           ? `The spec field is infra_repos.path, but this config sets "${legacyKey}". Unknown keys are allowed by the schema, so the file validates while hop infra reports "(not set)" and no infra repo path resolves.`
           : "Without infra_repos.path, repo entries cannot be resolved to directories and hop infra reports no location.",
         remedy: legacyKey
-          ? `Rename "${legacyKey}" to "path".`
+          ? `Rename "${legacyKey}" to "path" — hop fix does this.`
           : "Set infra_repos.path to the directory holding the clones.",
+        ...at(legacyKey ? `/infra_repos/${legacyKey}` : "/infra_repos"),
       });
     } else {
-      for (const entry of infra.repos ?? []) {
+      const base = infra.path;
+      (infra.repos ?? []).forEach((entry, j) => {
         const name = infraRepoName(entry);
         const repoPath =
           typeof entry !== "string" && entry.path
             ? entry.path
-            : join(infra.path, name);
+            : join(base, name);
         if (!existsSync(repoPath)) {
           findings.push({
             severity: "warn",
@@ -259,9 +284,10 @@ function analyze(config: HopConfig, scan: boolean): Finding[] {
             title: `Infra repo "${name}" is not cloned`,
             detail: `Listed in hop.json but absent at ${repoPath}.`,
             remedy: `Clone it, or drop the entry.`,
+            ...at(`/infra_repos/repos/${j}`),
           });
         }
-      }
+      });
     }
   }
 
@@ -302,7 +328,7 @@ function analyze(config: HopConfig, scan: boolean): Finding[] {
 // Sections
 // ---------------------------------------------------------------------------
 
-function renderHealth(findings: Finding[]): string {
+function renderHealth(findings: Finding[], hopPath: string): string {
   const counts = {
     error: findings.filter((f) => f.severity === "error").length,
     warn: findings.filter((f) => f.severity === "warn").length,
@@ -329,6 +355,7 @@ function renderHealth(findings: Finding[]): string {
           ${badge(label[f.severity], f.severity === "error" ? "bad" : f.severity === "warn" ? "warn" : "info")}
           <span class="hop-finding-area">${esc(f.area)}</span>
           <span class="hop-finding-title">${esc(f.title)}</span>
+          ${f.location ? `<span class="hop-finding-where">${esc(formatLocation(f.location, dirname(hopPath)))}</span>` : ""}
         </div>
         <p class="hop-finding-detail">${esc(f.detail)}</p>
         ${f.remedy ? `<p class="hop-finding-remedy"><strong>Fix:</strong> ${esc(f.remedy)}</p>` : ""}
@@ -1022,6 +1049,7 @@ main.hop-main code{font-family:var(--font-mono);font-size:12px;background:var(--
 .hop-finding-head{display:flex;align-items:center;gap:9px;flex-wrap:wrap;margin-bottom:5px}
 .hop-finding-area{font-family:var(--font-mono);font-size:11px;color:var(--muted)}
 .hop-finding-title{font-weight:700;font-size:14px}
+.hop-finding-where{font-family:var(--font-mono);font-size:11px;color:var(--muted);margin-left:auto}
 .hop-finding-detail{margin:0;color:var(--ink-soft);font-size:13.5px;max-width:78ch}
 .hop-finding-remedy{margin:6px 0 0;font-size:13px;color:var(--muted);max-width:78ch}
 
@@ -1088,7 +1116,7 @@ function buildHtml(config: HopConfig, hopPath: string, findings: Finding[], gene
       : `${errors + warns} ${errors + warns === 1 ? "item needs" : "items need"} your attention — start with Health, then read the sections for context.`;
 
   const sections = [
-    renderHealth(findings),
+    renderHealth(findings, hopPath),
     renderMachine(config, hopPath),
     renderAccounts(config),
     renderProjects(config),
@@ -1175,7 +1203,7 @@ export async function runReport(
   hopPath: string,
   opts: ReportOptions
 ): Promise<void> {
-  const findings = analyze(config, opts.scan ?? false);
+  const findings = analyze(config, opts.scan ?? false, opts.resolved);
   const generated = new Date().toISOString().replace("T", " ").slice(0, 16) + " UTC";
   const html = buildHtml(config, hopPath, findings, generated);
 
@@ -0,0 +1,41 @@
+/**
+ * hop secret check — Report which secrets hop.json references are resolvable
+ * on this machine.
+ *
+ * Resolution goes through the core's secret providers (`secrets.providers`,
+ * or env, file and bws by default). Values are fetched to prove they exist and
+ * then dropped: nothing here prints, or holds on to, a secret.
+ */
+
+import type { HopConfig } from "@hop-org/hop-spec-core";
+import { checkSecrets, SecretProviderError } from "@hop-org/hop-spec-core";
+
+export function runSecretCheck(config: HopConfig, opts: { json?: boolean }): void {
+  let statuses;
+  try {
+    statuses = checkSecrets(config);
+  } catch (err) {
+    if (!(err instanceof SecretProviderError)) throw err;
+    console.error(`Error: ${err.message}`);
+    process.exit(1);
+    return;
+  }
+  const missing = statuses.filter((s) => !s.resolved).length;
+
+  if (opts.json) {
+    console.log(JSON.stringify({ resolved: statuses.length - missing, missing, secrets: statuses }, null, 2));
+  } else if (statuses.length === 0) {
+    console.log("No secrets referenced (pat_bws_id, token_env) in hop.json.");
+  } else {
+    const width = Math.max(...statuses.map((s) => s.ref.label.length));
+    for (const s of statuses) {
+      const line = `${s.resolved ? "✓" : "✗"} ${s.ref.label.padEnd(width)}  ${s.ref.kind} ${s.ref.id}`;
+      console.log(s.resolved ? `${line}  (${s.provider})` : line);
+      if (!s.resolved) for (const a of s.attempts) console.log(`    ${a.provider}: ${a.reason}`);
+    }
+    console.log("");
+    console.log(`Summary: ${statuses.length - missing} resolvable, ${missing} missing`);
+  }
+
+  if (missing > 0) process.exitCode = 1;
+}
@@ -0,0 +1,156 @@
+/**
+ * hop shell-init / hop cd — shell integration for jumping to project paths.
+ *
+ * A child process cannot change its parent shell's directory, so `hop cd`
+ * itself only resolves a name to a directory and prints it. `hop shell-init`
+ * emits a `hop` shell function that runs `hop cd` and then changes directory
+ * in the calling shell, passing every other subcommand through to the binary.
+ * Load it from a shell rc file:
+ *
+ *   eval "$(hop shell-init bash)"     # ~/.bashrc
+ *   eval "$(hop shell-init zsh)"      # ~/.zshrc
+ *   hop shell-init fish | source      # ~/.config/fish/config.fish
+ *
+ * The emitted script also includes `hop completion` for the same shell, so
+ * loading one line gives both.
+ */
+
+import type { Command } from "commander";
+import type { HopConfig } from "@hop-org/hop-spec-core";
+import { resolveInfraRepoPath, resolveName } from "@hop-org/hop-spec-core";
+import { completionScript, namesOf, SHELLS } from "./completion.js";
+import type { Shell } from "./completion.js";
+
+/** A directory `hop cd` can jump to. */
+export interface CdTarget {
+  kind: "project" | "bundle" | "infra";
+  name: string;
+  path: string;
+}
+
+/**
+ * Every name `hop cd` accepts. A bundle goes to its primary project, else its
+ * first project with a path; entries with no resolvable path are left out.
+ */
+export function cdTargets(config: HopConfig): CdTarget[] {
+  const projects = config.projects ?? [];
+  const pathOf = (name: string) => projects.find((p) => p.name === name)?.path;
+  const targets: CdTarget[] = [];
+
+  for (const p of projects) {
+    if (p.path) targets.push({ kind: "project", name: p.name, path: p.path });
+  }
+  for (const b of config.bundles ?? []) {
+    const order = b.primary_project ? [b.primary_project, ...b.projects] : b.projects;
+    const path = order.map(pathOf).find(Boolean);
+    if (path) targets.push({ kind: "bundle", name: b.id, path });
+  }
+  for (const name of namesOf(config, "infra")) {
+    const path = resolveInfraRepoPath(config, name);
+    if (path) targets.push({ kind: "infra", name, path });
+  }
+  return targets;
+}
+
+/** True when the characters of `query` appear in `name` in order. */
+function isSubsequence(query: string, name: string): boolean {
+  let i = 0;
+  for (const ch of name) {
+    if (ch === query[i]) i++;
+    if (i === query.length) return true;
+  }
+  return query.length === 0;
+}
+
+/** Several names resolving to one directory (a bundle and its primary project, say) are not ambiguous. */
+function distinctPaths(matched: CdTarget[]): CdTarget[] {
+  return new Set(matched.map((t) => t.path)).size === 1 ? matched.slice(0, 1) : matched;
+}
+
+/**
+ * Match a query against targets with the shared name rules (exact,
+ * case-insensitive, prefix, path basename), then — since a jump is easy to
+ * undo — two looser ones: substring, and the query's letters in order
+ * (`hsc` → `hop-spec-core`). Returns every target the first matching rule
+ * found; when none match, `suggestions` holds the closest names.
+ */
+export function matchTargets(targets: CdTarget[], query: string): { matched: CdTarget[]; suggestions: CdTarget[] } {
+  const result = resolveName(query, targets.map((t) => ({ name: t.name, path: t.path, value: t })));
+  if (result.status === "found") return { matched: [result.match.value], suggestions: [] };
+  if (result.status === "ambiguous") return { matched: distinctPaths(result.candidates.map((c) => c.value)), suggestions: [] };
+
+  const q = query.toLowerCase();
+  for (const rule of [(name: string) => name.includes(q), (name: string) => isSubsequence(q, name)]) {
+    const matched = targets.filter((t) => rule(t.name.toLowerCase()));
+    if (matched.length > 0) return { matched: distinctPaths(matched), suggestions: [] };
+  }
+  return { matched: [], suggestions: result.suggestions.map((c) => c.value) };
+}
+
+export function runCd(config: HopConfig, query: string | undefined): void {
+  if (!query) {
+    const root = config.machine?.agent_root;
+    if (!root) {
+      console.error("Error: No name given and no machine.agent_root set in hop.json.");
+      process.exit(1);
+      return;
+    }
+    console.log(root);
+    return;
+  }
+
+  const targets = cdTargets(config);
+  const { matched, suggestions } = matchTargets(targets, query);
+  if (matched.length === 1) {
+    console.log(matched[0].path);
+    return;
+  }
+
+  if (matched.length === 0) {
+    console.error(`Error: No project, bundle or infra repo matches '${query}'.`);
+    if (suggestions.length > 0) {
+      console.error(`Did you mean: ${suggestions.map((t) => t.name).join(", ")}?`);
+    } else if (targets.length > 0) {
+      console.error(`Available: ${targets.map((t) => t.name).join(", ")}`);
+    }
+  } else {
+    console.error(`Error: '${query}' matches more than one:`);
+    for (const t of matched) console.error(`  ${t.name} (${t.kind})  ${t.path}`);
+  }
+  process.exit(1);
+}
+
+const POSIX_FUNCTION = `hop() {
+  if [ "$1" = "cd" ]; then
+    shift
+    local dir
+    dir="$(command hop cd "$@")" || return
+    builtin cd -- "$dir"
+  else
+    command hop "$@"
+  fi
+}`;
+
+const FISH_FUNCTION = `function hop
+  if test "$argv[1]" = cd
+    set -l dir (command hop cd $argv[2..-1]); or return
+    builtin cd -- $dir
+  else
+    command hop $argv
+  end
+end`;
+
+export function shellInitScript(program: Command, shell: Shell): string {
+  const fn = shell === "fish" ? FISH_FUNCTION : POSIX_FUNCTION;
+  const load = shell === "fish" ? "hop shell-init fish | source" : `eval "$(hop shell-init ${shell})"`;
+  return `# hop shell integration for ${shell} — ${load}\n${fn}\n\n${completionScript(program, shell)}`;
+}
+
+export function runShellInit(program: Command, shell: string): void {
+  if (!SHELLS.includes(shell as Shell)) {
+    console.error(`Error: Unsupported shell '${shell}'. Supported: ${SHELLS.join(", ")}`);
+    process.exit(1);
+    return;
+  }
+  process.stdout.write(shellInitScript(program, shell as Shell));
+}
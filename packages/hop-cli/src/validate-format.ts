@@ -0,0 +1,173 @@
+/**
+ * Machine-readable renderings of a `hop validate` result.
+ *
+ * - json  — the "Collecting Errors" shape from spec/validation-rules.md §5,
+ *           with each diagnostic's severity, stage and source position added.
+ * - sarif — SARIF 2.1.0, for code-scanning UIs that annotate pull requests.
+ * - junit — JUnit XML, for CI systems that only understand test reports.
+ */
+
+import { relative, isAbsolute, sep } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { LocatedDiagnostic, ValidationResult } from "./validate.js";
+
+const RULES_DOC = "https://github.com/hop-org/hop-spec/blob/main/spec/validation-rules.md";
+
+function isFailure(d: LocatedDiagnostic, result: ValidationResult): boolean {
+  return d.severity === "error" || (result.strict && d.severity === "warning");
+}
+
+/** JSON: `{ valid, errors, warnings }` plus the files involved. */
+export function formatJson(result: ValidationResult): string {
+  const entry = (d: LocatedDiagnostic) => ({
+    path: d.path,
+    rule: d.rule,
+    severity: d.severity,
+    category: d.category,
+    message: d.message,
+    ...(d.suggestion ? { suggestion: d.suggestion } : {}),
+    file: d.file,
+    line: d.line,
+    column: d.column,
+  });
+
+  return JSON.stringify(
+    {
+      valid: result.valid,
+      file: result.file,
+      schema: result.schema,
+      ...(result.files.length > 1 ? { extends: result.files.slice(0, -1) } : {}),
+      environment: result.environment,
+      errors: result.diagnostics.filter((d) => d.severity === "error").map(entry),
+      warnings: result.diagnostics.filter((d) => d.severity !== "error").map(entry),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * SARIF locations are URIs. Files under the working directory are given
+ * relative to it — code-scanning UIs resolve those against the checkout —
+ * and anything else as an absolute file: URI.
+ */
+function artifactUri(file: string): { uri: string; uriBaseId?: string } {
+  const rel = relative(process.cwd(), file);
+  if (rel && !rel.startsWith("..") && !isAbsolute(rel)) {
+    return { uri: rel.split(sep).join("/"), uriBaseId: "%SRCROOT%" };
+  }
+  return { uri: pathToFileURL(file).href };
+}
+
+const SARIF_LEVEL = { error: "error", warning: "warning", info: "note" } as const;
+
+/** SARIF 2.1.0 log with one run. */
+export function formatSarif(result: ValidationResult): string {
+  const ruleIds = [...new Set(result.diagnostics.map((d) => d.rule))];
+
+  return JSON.stringify(
+    {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: "hop validate",
+              informationUri: "https://github.com/hop-org/hop-spec",
+              rules: ruleIds.map((id) => ({
+                id,
+                shortDescription: { text: id },
+                helpUri: RULES_DOC,
+              })),
+            },
+          },
+          results: result.diagnostics.map((d) => ({
+            ruleId: d.rule,
+            ruleIndex: ruleIds.indexOf(d.rule),
+            level: isFailure(d, result) ? "error" : SARIF_LEVEL[d.severity],
+            message: { text: d.suggestion ? `${d.message} (${d.suggestion})` : d.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: artifactUri(d.file),
+                  region: { startLine: d.line, startColumn: d.column },
+                },
+                logicalLocations: [{ fullyQualifiedName: d.path || "/", kind: "member" }],
+              },
+            ],
+            properties: { category: d.category, severity: d.severity },
+          })),
+        },
+      ],
+    },
+    null,
+    2
+  );
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const STAGES = ["syntax", "schema", "semantic", "environment"] as const;
+
+/**
+ * JUnit XML: one suite for the file, one test case per diagnostic. Failing
+ * diagnostics become failures; the rest pass with their message as output.
+ * Each stage that ran clean gets a passing case so an all-green run still
+ * reports what was checked.
+ */
+export function formatJunit(result: ValidationResult): string {
+  const cases: string[] = [];
+  let failures = 0;
+
+  // Stages run in order and stop at the first failing one.
+  const failedAt = STAGES.find((s) =>
+    result.diagnostics.some((d) => d.category === s && isFailure(d, result))
+  );
+  const ran = STAGES.filter((s) => {
+    if (s === "environment" && !result.environment) return false;
+    return !failedAt || STAGES.indexOf(s) <= STAGES.indexOf(failedAt);
+  });
+
+  for (const stage of ran) {
+    const diagnostics = result.diagnostics.filter((d) => d.category === stage);
+    if (!diagnostics.some((d) => isFailure(d, result))) {
+      cases.push(`    <testcase classname="${stage}" name="${stage} checks"/>`);
+    }
+    for (const d of diagnostics) {
+      const name = xmlEscape(`${d.rule} ${d.path || "/"}`);
+      const where = `${d.file}:${d.line}:${d.column}`;
+      const detail = xmlEscape(`${where}\n${d.message}${d.suggestion ? `\n→ ${d.suggestion}` : ""}`);
+      if (isFailure(d, result)) {
+        failures++;
+        cases.push(
+          `    <testcase classname="${stage}" name="${name}">\n` +
+            `      <failure message="${xmlEscape(d.message)}" type="${xmlEscape(d.rule)}">${detail}</failure>\n` +
+            `    </testcase>`
+        );
+      } else {
+        cases.push(
+          `    <testcase classname="${stage}" name="${name}">\n` +
+            `      <system-out>${detail}</system-out>\n` +
+            `    </testcase>`
+        );
+      }
+    }
+  }
+
+  const file = xmlEscape(result.file);
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="hop validate" tests="${cases.length}" failures="${failures}">`,
+    `  <testsuite name="${file}" tests="${cases.length}" failures="${failures}" errors="0">`,
+    ...cases,
+    `  </testsuite>`,
+    `</testsuites>`,
+  ].join("\n");
+}
@@ -2,6 +2,18 @@
  * hop validate — Validate hop.json against the HarnessOps JSON Schema.
  *
  * Uses AJV (Draft 2020-12) for validation with ajv-formats for URI etc.
+ * Once the schema passes, the semantic rules from spec/validation-rules.md
+ * run on top and are reported separately: schema errors mean the file is
+ * malformed, semantic errors mean it is well-formed but contradicts itself.
+ * With --env, the environment rules then check the file against this machine.
+ *
+ * A file using `extends` is validated as merged, since that is what every
+ * other command sees.
+ *
+ * Validation produces a ValidationResult; --format picks how it is printed.
+ * The machine-readable formats (json, sarif, junit) go to stdout whether or
+ * not the file is valid, and every diagnostic carries the file, line and
+ * column of the offending node — in a base file when `extends` supplied it.
  */
 
 import { readFileSync, existsSync } from "node:fs";
@@ -13,12 +25,63 @@ import addFormats from "ajv-formats";
 // Handle both CJS and ESM default exports
 const Ajv = (Ajv2020 as any).default ?? Ajv2020;
 const applyFormats = (addFormats as any).default ?? addFormats;
-import { discoverHopPath } from "@hop-org/hop-spec-core";
+import {
+  discoverHopPath,
+  resolveHopConfig,
+  validateSemantics,
+  validateEnvironment,
+  parseJsonSource,
+  locatePointer,
+  locate,
+  formatLocation,
+  pointerSegment,
+  JsonSyntaxError,
+} from "@hop-org/hop-spec-core";
+import type { Diagnostic, HopConfig, JsonSource, ResolvedHopConfig, SourceLocation } from "@hop-org/hop-spec-core";
+import { formatJson, formatSarif, formatJunit } from "./validate-format.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+/**
+ * Exit codes. Kept distinct so CI can tell a broken file from a machine that
+ * has drifted away from a correct one.
+ */
+const EXIT_VALID = 0;
+const EXIT_INVALID = 1;
+const EXIT_ENVIRONMENT = 2;
+
+export const VALIDATE_FORMATS = ["text", "json", "sarif", "junit"] as const;
+export type ValidateFormat = (typeof VALIDATE_FORMATS)[number];
+
+/** The validation stage a diagnostic came from, in the order they run. */
+export type DiagnosticCategory = "syntax" | "schema" | "semantic" | "environment";
+
+export interface LocatedDiagnostic extends Diagnostic {
+  category: DiagnosticCategory;
+  /** File holding the offending node — a base file when `extends` supplied it. */
+  file: string;
+  /** 1-based line and column of the node, or of its nearest existing ancestor. */
+  line: number;
+  column: number;
+}
+
+export interface ValidationResult {
+  /** The validated hop.json. */
+  file: string;
+  schema: string;
+  /** The extends chain, bases first; just `[file]` without extends. */
+  files: string[];
+  valid: boolean;
+  exitCode: number;
+  /** Whether the environment rules ran. */
+  environment: boolean;
+  /** Whether warnings counted as failures. */
+  strict: boolean;
+  diagnostics: LocatedDiagnostic[];
+}
+
 /** Resolve the bundled schema path (spec/hop-schema.json relative to repo root). */
-function findBundledSchema(): string | null {
+export function findBundledSchema(): string | null {
   // Walk up from __dirname to find spec/hop-schema.json
   let dir = __dirname;
   for (let i = 0; i < 10; i++) {
@@ -31,12 +94,233 @@ function findBundledSchema(): string | null {
   return null;
 }
 
+/** `file:line:column` of a diagnostic, relative to the working directory when under it. */
+function where(d: LocatedDiagnostic): string {
+  return formatLocation(d, process.cwd());
+}
+
+/** Print one group of semantic diagnostics under a counted heading. */
+function printDiagnostics(heading: string, diagnostics: LocatedDiagnostic[], log: (line: string) => void): void {
+  if (diagnostics.length === 0) return;
+  log("");
+  log(`${heading} (${diagnostics.length}):`);
+  for (const d of diagnostics) {
+    log(`  ${where(d)}: ${d.path}: ${d.message} [${d.rule}]`);
+    if (d.suggestion) log(`    → ${d.suggestion}`);
+  }
+}
+
 interface ValidateOptions {
   file?: string;
   schemaPath?: string;
+  /** Also run the environment rules against this machine's filesystem. */
+  env?: boolean;
+  /** Treat warnings as failures (the spec's "strict" mode, meant for CI). */
+  strict?: boolean;
+  format?: string;
+}
+
+/**
+ * Map merged-config pointers to file positions. With `extends`, a pointer is
+ * traced to the file that wrote it; without, the file's own parse is enough
+ * (and, unlike resolving, does not insist the document is an object).
+ */
+function makeLocator(hopPath: string, source: JsonSource, resolved?: ResolvedHopConfig) {
+  return (pointer: string): SourceLocation => {
+    const location = resolved && locate(resolved, pointer);
+    if (location) return location;
+    const { line, column } = locatePointer(source, pointer);
+    return { file: hopPath, line, column };
+  };
+}
+
+/** Turn AJV errors into diagnostics with `schema.<keyword>` rule IDs. */
+function schemaDiagnostics(errors: any[]): Diagnostic[] {
+  return errors.map((err) => {
+    // Point at the offending property itself where AJV names it.
+    let path: string = err.instancePath;
+    if (err.keyword === "required") path += `/${pointerSegment(err.params.missingProperty)}`;
+    if (err.keyword === "additionalProperties") path += `/${pointerSegment(err.params.additionalProperty)}`;
+
+    const details = Object.entries(err.params ?? {})
+      .filter(([k]) => k !== "type")
+      .map(([k, v]) => `${k}=${JSON.stringify(v)}`)
+      .join(", ");
+    return {
+      rule: `schema.${err.keyword}`,
+      severity: "error" as const,
+      path,
+      message: err.message ?? "failed schema validation",
+      ...(details ? { suggestion: details } : {}),
+    };
+  });
+}
+
+/**
+ * Validate a hop.json file without printing or exiting. Throws when the
+ * schema cannot be loaded or `extends` cannot be resolved — problems with the
+ * inputs rather than findings about the file.
+ *
+ * `contents` validates unwritten text in place of files on disk, keyed by
+ * absolute path, so an edit can be checked before it is saved.
+ */
+export function validateHopFile(
+  hopPath: string,
+  schemaPath: string,
+  opts: { env?: boolean; strict?: boolean; contents?: Map<string, string> } = {}
+): ValidationResult {
+  const result: ValidationResult = {
+    file: hopPath,
+    schema: schemaPath,
+    files: [hopPath],
+    valid: false,
+    exitCode: EXIT_INVALID,
+    environment: false,
+    strict: !!opts.strict,
+    diagnostics: [],
+  };
+
+  // 1. Parse JSON, keeping positions for every node
+  let source: JsonSource;
+  try {
+    source = parseJsonSource(opts.contents?.get(hopPath) ?? readFileSync(hopPath, "utf-8"));
+  } catch (err) {
+    if (!(err instanceof JsonSyntaxError)) throw err;
+    result.diagnostics.push({
+      rule: "json.syntax",
+      severity: "error",
+      category: "syntax",
+      path: "",
+      message: err.reason,
+      file: hopPath,
+      line: err.line,
+      column: err.column,
+    });
+    return result;
+  }
+  let doc = source.value;
+
+  // 2. Resolve `extends` — what tools see is the merged file, so that is
+  // what gets validated. Bases alone may legitimately omit required fields.
+  let resolved: ResolvedHopConfig | undefined;
+  if ((doc as HopConfig | null)?.extends !== undefined) {
+    try {
+      resolved = resolveHopConfig(hopPath, opts.contents);
+    } catch (err: any) {
+      throw new Error(`Could not resolve extends for ${hopPath}\n  ${err.message}`);
+    }
+    doc = resolved.config;
+    result.files = resolved.files;
+  }
+
+  const locateDiagnostic = makeLocator(hopPath, source, resolved);
+  const add = (category: DiagnosticCategory, diagnostics: Diagnostic[]) => {
+    for (const d of diagnostics) {
+      result.diagnostics.push({ ...d, category, ...locateDiagnostic(d.path) });
+    }
+  };
+  const failing = (ds: Diagnostic[]) =>
+    ds.some((d) => d.severity === "error" || (opts.strict && d.severity === "warning"));
+
+  // 3. Schema
+  let schema: unknown;
+  try {
+    schema = JSON.parse(readFileSync(schemaPath, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`Invalid schema file: ${schemaPath}\n  ${err.message}`);
+  }
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  applyFormats(ajv);
+  const validate = ajv.compile(schema as object);
+  if (!validate(doc)) {
+    add("schema", schemaDiagnostics(validate.errors ?? []));
+    return result;
+  }
+
+  // 4. Semantic rules — only meaningful once the shape is known to be right
+  const config = doc as HopConfig;
+  const semantic = validateSemantics(config);
+  add("semantic", semantic);
+  if (failing(semantic)) return result;
+
+  // 5. Environment rules — opt-in, since they judge this machine, not the file
+  if (opts.env) {
+    result.environment = true;
+    const environment = validateEnvironment(config);
+    add("environment", environment);
+    if (failing(environment)) {
+      result.exitCode = EXIT_ENVIRONMENT;
+      return result;
+    }
+  }
+
+  result.valid = true;
+  result.exitCode = EXIT_VALID;
+  return result;
+}
+
+/** The original human-readable report. */
+function printText(result: ValidationResult): void {
+  const of = (category: DiagnosticCategory, severity?: string) =>
+    result.diagnostics.filter((d) => d.category === category && (!severity || d.severity === severity));
+
+  const syntax = of("syntax");
+  if (syntax.length > 0) {
+    console.error(`Error: Invalid JSON in ${result.file}`);
+    for (const d of syntax) console.error(`  ${where(d)}: ${d.message}`);
+    return;
+  }
+
+  const schema = of("schema");
+  if (schema.length > 0) {
+    console.error(`✗ Invalid: ${result.file}`);
+    console.error(`  Schema: ${result.schema}`);
+    console.error("");
+    for (const d of schema) {
+      console.error(`  ${where(d)}: ${d.path || "/"}: ${d.message}`);
+      if (d.suggestion) console.error(`    (${d.suggestion})`);
+    }
+    return;
+  }
+
+  const errors = of("semantic", "error");
+  const warnings = of("semantic", "warning");
+  const envErrors = of("environment", "error");
+  const envWarnings = of("environment", "warning");
+
+  if (result.exitCode === EXIT_INVALID) {
+    console.error(`✗ Invalid: ${result.file}`);
+    console.error(`  Schema: ${result.schema} (passed)`);
+    printDiagnostics("Semantic errors", errors, console.error);
+    printDiagnostics("Warnings", warnings, console.error);
+    return;
+  }
+
+  if (result.exitCode === EXIT_ENVIRONMENT) {
+    console.error(`✗ Environment mismatch: ${result.file}`);
+    console.error(`  Schema: ${result.schema} (passed)`);
+    printDiagnostics("Warnings", warnings, console.error);
+    printDiagnostics("Environment errors", envErrors, console.error);
+    printDiagnostics("Environment warnings", envWarnings, console.error);
+    return;
+  }
+
+  console.log(`✓ Valid: ${result.file}`);
+  console.log(`  Schema: ${result.schema}`);
+  if (result.files.length > 1) console.log(`  Extends: ${result.files.slice(0, -1).join(", ")}`);
+  if (result.environment) console.log(`  Environment: checked`);
+  printDiagnostics("Warnings", warnings, console.log);
+  printDiagnostics("Environment warnings", envWarnings, console.log);
 }
 
 export async function runValidate(opts: ValidateOptions): Promise<void> {
+  const format = (opts.format ?? "text") as ValidateFormat;
+  if (!VALIDATE_FORMATS.includes(format)) {
+    console.error(`Error: Unknown format "${opts.format}". Expected one of: ${VALIDATE_FORMATS.join(", ")}`);
+    process.exit(1);
+    return;
+  }
+
   // 1. Resolve hop.json file
   let hopPath: string;
   if (opts.file) {
@@ -59,19 +343,7 @@ export async function runValidate(opts: ValidateOptions): Promise<void> {
     return;
   }
 
-  // 2. Parse JSON
-  let doc: unknown;
-  try {
-    const raw = readFileSync(hopPath, "utf-8");
-    doc = JSON.parse(raw);
-  } catch (err: any) {
-    console.error(`Error: Invalid JSON in ${hopPath}`);
-    console.error(`  ${err.message}`);
-    process.exit(1);
-    return;
-  }
-
-  // 3. Load schema
+  // 2. Locate schema
   let schemaPath: string;
   if (opts.schemaPath) {
     schemaPath = resolve(opts.schemaPath);
@@ -86,42 +358,28 @@ export async function runValidate(opts: ValidateOptions): Promise<void> {
     schemaPath = bundled;
   }
 
-  let schema: unknown;
+  // 3. Validate, then print in the requested format
+  let result: ValidationResult;
   try {
-    schema = JSON.parse(readFileSync(schemaPath, "utf-8"));
+    result = validateHopFile(hopPath, schemaPath, { env: opts.env, strict: opts.strict });
   } catch (err: any) {
-    console.error(`Error: Invalid schema file: ${schemaPath}`);
-    console.error(`  ${err.message}`);
+    console.error(`Error: ${err.message}`);
     process.exit(1);
     return;
   }
 
-  // 4. Validate
-  const ajv = new Ajv({ allErrors: true, strict: false });
-  applyFormats(ajv);
-
-  const validate = ajv.compile(schema as object);
-  const valid = validate(doc);
-
-  if (valid) {
-    console.log(`✓ Valid: ${hopPath}`);
-    console.log(`  Schema: ${schemaPath}`);
-    process.exit(0);
-  } else {
-    console.error(`✗ Invalid: ${hopPath}`);
-    console.error(`  Schema: ${schemaPath}`);
-    console.error("");
-    for (const err of validate.errors ?? []) {
-      const path = err.instancePath || "/";
-      console.error(`  ${path}: ${err.message}`);
-      if (err.params) {
-        const details = Object.entries(err.params)
-          .filter(([k]) => k !== "type")
-          .map(([k, v]) => `${k}=${JSON.stringify(v)}`)
-          .join(", ");
-        if (details) console.error(`    (${details})`);
-      }
-    }
-    process.exit(1);
+  switch (format) {
+    case "json":
+      console.log(formatJson(result));
+      break;
+    case "sarif":
+      console.log(formatSarif(result));
+      break;
+    case "junit":
+      console.log(formatJunit(result));
+      break;
+    default:
+      printText(result);
   }
+  process.exit(result.exitCode);
 }
@@ -0,0 +1,172 @@
+/**
+ * Integration tests for hop accounts verify (git remotes, host aliases and
+ * user.email checked against each project's effective account) and hop
+ * accounts export.
+ */
+
+import { describe, it, expect, beforeAll } from "bun:test";
+import { join } from "node:path";
+import { mkdirSync, mkdtempSync, readFileSync, realpathSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+
+const CLI = join(import.meta.dir, "..", "src", "cli.ts");
+// Temp HOME so ~/.hop/settings.json and ~/.gitconfig come from the test
+const ISOLATED_HOME = realpathSync(mkdtempSync(join(tmpdir(), "hop-account-test-")));
+const DEV = join(ISOLATED_HOME, "dev");
+const hopFile = join(ISOLATED_HOME, "hop.json");
+
+async function run(args: string[], home = ISOLATED_HOME): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const proc = Bun.spawn(["bun", CLI, ...args], {
+    env: { ...process.env, HOME: home, HOP_CONFIG_PATH: hopFile },
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode };
+}
+
+function repo(name: string, gitConfig: string): string {
+  const dir = join(DEV, name);
+  mkdirSync(join(dir, ".git"), { recursive: true });
+  writeFileSync(join(dir, ".git", "config"), gitConfig);
+  return dir;
+}
+
+const origin = (url: string) => `[core]\n\tbare = false\n[remote "origin"]\n\turl = ${url}\n\tfetch = +refs/heads/*:refs/remotes/origin/*\n`;
+
+beforeAll(() => {
+  writeFileSync(join(ISOLATED_HOME, ".gitconfig"), "[user]\n\tname = Me\n\temail = me@example.com\n");
+
+  const client = repo("client", origin("git@github-work:acme/client.git") + "[user]\n\temail = me@acme.com\n");
+  const app = repo("app", origin("git@github.com:me/app.git"));
+  const wrongAlias = repo("leaky", origin("git@github.com:acme/leaky.git"));
+  const moved = repo("moved", origin("git@github-work:acme/moved-again.git") + "[user]\n\temail = me@acme.com\n");
+  const badEmail = repo("badmail", origin("git@github-work:acme/badmail.git") + "[user]\n\temail = 1+me@users.noreply.github.com\n");
+  // A branch checkout made by `git worktree add`, reading the main repo's config
+  const worktree = join(DEV, "client-next");
+  mkdirSync(join(client, ".git", "worktrees", "next"), { recursive: true });
+  writeFileSync(join(client, ".git", "worktrees", "next", "commondir"), "../..\n");
+  mkdirSync(worktree, { recursive: true });
+  writeFileSync(join(worktree, ".git"), `gitdir: ${join(client, ".git", "worktrees", "next")}\n`);
+
+  writeFileSync(hopFile, JSON.stringify({
+    schema_version: "0.1.0",
+    machine: { id: "verify", name: "Verify" },
+    accounts: {
+      github: [
+        { username: "me", default: true, email: "me@example.com" },
+        { username: "work", git_alias: "github-work", email: "me@acme.com" },
+        // Named like a subcommand: reachable only as `hop account show export`
+        { username: "export", active: false },
+      ],
+    },
+    projects: [
+      { name: "client", path: client, account_override: "work", git: { remote_url: "git@github.com:acme/client.git" } },
+      { name: "client-next", path: worktree, account_override: "work" },
+      { name: "app", path: app, git: { remote_url: "git@github.com:me/app.git" } },
+      { name: "leaky", path: wrongAlias, account_override: "work" },
+      { name: "moved", path: moved, account_override: "work", git: { remote_url: "git@github.com:acme/moved.git" } },
+      { name: "badmail", path: badEmail, account_override: "work" },
+      { name: "nowhere", path: join(DEV, "nowhere") },
+    ],
+  }, null, 2));
+});
+
+describe("hop accounts verify", () => {
+  it("passes projects whose remote, alias and email match their account", async () => {
+    const { stdout } = await run(["accounts", "verify", "--json"]);
+    const byName = Object.fromEntries(JSON.parse(stdout).projects.map((p: any) => [p.name, p]));
+    expect(byName.client).toMatchObject({ status: "ok", account: "work", user_email: "me@acme.com", user_email_from: ".git/config" });
+    expect(byName.app).toMatchObject({ status: "ok", account: "me", user_email: "me@example.com", user_email_from: "~/.gitconfig" });
+    expect(byName["client-next"]).toMatchObject({ status: "ok", remote_url: "git@github-work:acme/client.git" });
+    expect(byName.nowhere).toMatchObject({ status: "skipped", reason: `no git repo at ${join(DEV, "nowhere")}` });
+  });
+
+  it("flags wrong aliases, changed remotes and another identity's email", async () => {
+    const { stdout } = await run(["accounts", "verify", "--json"]);
+    const parsed = JSON.parse(stdout);
+    const issues = (name: string) => parsed.projects.find((p: any) => p.name === name).issues.map((i: any) => i.kind);
+    expect(issues("leaky")).toEqual(["wrong_alias", "wrong_email"]);
+    expect(issues("moved")).toEqual(["remote_mismatch"]);
+    expect(issues("badmail")).toEqual(["wrong_email"]);
+    expect(parsed).toMatchObject({ ok: 3, problems: 3, skipped: 1 });
+  });
+
+  it("prints each problem with where hop.json declares the remote, and exits 1", async () => {
+    const { stdout, exitCode } = await run(["account", "verify"]);
+    expect(exitCode).toBe(1);
+    expect(stdout).toContain("✓ client");
+    expect(stdout).toContain("origin goes to github.com, not SSH host alias 'github-work' of account 'work'");
+    expect(stdout).toContain("user.email is me@example.com, but account 'work' commits as me@acme.com");
+    expect(stdout).toMatch(/origin is git@github-work:acme\/moved-again\.git, but hop\.json declares git@github\.com:acme\/moved\.git  \(.*hop\.json:\d+:\d+\)/);
+    expect(stdout).toContain("Summary: 3 ok, 3 with problems, 1 skipped");
+  });
+});
+
+describe("hop account show", () => {
+  it("shows an account named like a subcommand, which the bare form would run", async () => {
+    const { stdout, exitCode } = await run(["account", "show", "export", "--json"]);
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout).username).toBe("export");
+
+    const bare = await run(["account", "export"]);
+    expect(bare.exitCode).toBe(1);
+    expect(bare.stderr).toContain("missing required argument 'format'");
+  });
+});
+
+describe("hop accounts export", () => {
+  // A separate HOME, so the files written here don't change what verify sees above
+  const EXPORT_HOME = realpathSync(mkdtempSync(join(tmpdir(), "hop-export-test-")));
+  const sshConfig = join(EXPORT_HOME, ".ssh", "config");
+
+  it("diffs the ssh config without writing under --check", async () => {
+    mkdirSync(join(EXPORT_HOME, ".ssh"), { recursive: true });
+    writeFileSync(sshConfig, "Host *\n  AddKeysToAgent yes\n");
+    const { stdout, exitCode } = await run(["accounts", "export", "ssh-config", "--check"], EXPORT_HOME);
+    expect(exitCode).toBe(1);
+    expect(stdout).toContain("+Host github-work");
+    expect(stdout).toContain("+  IdentityFile ~/.ssh/id_ed25519_work");
+    expect(readFileSync(sshConfig, "utf-8")).toBe("Host *\n  AddKeysToAgent yes\n");
+  });
+
+  it("writes a Host block per alias, keeping the rest of the file, and is then up to date", async () => {
+    expect((await run(["accounts", "export", "ssh-config"], EXPORT_HOME)).exitCode).toBe(0);
+    const written = readFileSync(sshConfig, "utf-8");
+    expect(written.startsWith("Host *\n  AddKeysToAgent yes\n\n# >>> hop accounts >>>\n")).toBe(true);
+    expect(written).toContain("Host github-work\n  HostName github.com\n  User git\n");
+    expect(written).not.toContain("Host me");
+
+    const check = await run(["accounts", "export", "ssh-config", "--check"], EXPORT_HOME);
+    expect(check.exitCode).toBe(0);
+    expect(check.stdout).toContain("is up to date");
+  });
+
+  it("writes includeIf sections for account_override projects, which verify then follows", async () => {
+    expect((await run(["accounts", "export", "gitconfig"], EXPORT_HOME)).exitCode).toBe(0);
+    const include = join(EXPORT_HOME, ".hop", "git", "work.gitconfig");
+    expect(readFileSync(join(EXPORT_HOME, ".gitconfig"), "utf-8")).toContain(
+      `[includeIf "gitdir:${join(DEV, "leaky")}/"]\n\tpath = ${include}\n`
+    );
+    expect(readFileSync(include, "utf-8")).toContain('[url "git@github-work:"]\n\tinsteadOf = git@github.com:\n');
+
+    const { stdout } = await run(["accounts", "verify", "--json"], EXPORT_HOME);
+    const leaky = JSON.parse(stdout).projects.find((p: any) => p.name === "leaky");
+    expect(leaky).toMatchObject({
+      status: "ok",
+      rewritten_url: "git@github-work:acme/leaky.git",
+      user_email: "me@acme.com",
+      user_email_from: "~/.hop/git/work.gitconfig",
+    });
+  });
+
+  it("rejects unknown formats", async () => {
+    const { stderr, exitCode } = await run(["accounts", "export", "netrc"], EXPORT_HOME);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Supported: ssh-config, gitconfig");
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Integration tests for hop bundle create/add-project/remove-project/
+ * set-primary/delete: referential checks and format preservation.
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { join } from "node:path";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+
+const CLI = join(import.meta.dir, "..", "src", "cli.ts");
+// Temp HOME so ~/.hop/settings.json doesn't override HOP_CONFIG_PATH
+const ISOLATED_HOME = mkdtempSync(join(tmpdir(), "hop-bundle-edit-test-"));
+
+let hopFile: string;
+
+async function run(args: string[]): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const proc = Bun.spawn(["bun", CLI, ...args], {
+    env: { ...process.env, HOME: ISOLATED_HOME, HOP_CONFIG_PATH: hopFile },
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode };
+}
+
+const ORIGINAL = `{
+  "schema_version": "0.1.0",
+  "machine": { "id": "bun", "name": "Bundles" },
+  "projects": [
+    { "name": "app" },
+    { "name": "lib" },
+    { "name": "docs" }
+  ],
+  "bundles": [
+    {
+      "id": "core",
+      "name": "Core",
+      "projects": ["app", "lib"],
+      "primary_project": "app"
+    }
+  ]
+}
+`;
+
+function read(): any {
+  return JSON.parse(readFileSync(hopFile, "utf-8"));
+}
+
+beforeEach(() => {
+  hopFile = join(mkdtempSync(join(ISOLATED_HOME, "case-")), "hop.json");
+  writeFileSync(hopFile, ORIGINAL);
+});
+
+describe("hop bundle create", () => {
+  it("appends a bundle in the style of its siblings", async () => {
+    const { stdout, exitCode } = await run(["bundle", "create", "site", "docs", "app", "--name", "Site", "--primary", "docs"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Created bundle 'site' (docs, app)");
+    expect(readFileSync(hopFile, "utf-8")).toBe(ORIGINAL.replace(
+      '"primary_project": "app"\n    }\n',
+      `"primary_project": "app"
+    },
+    {
+      "id": "site",
+      "name": "Site",
+      "projects": [
+        "docs",
+        "app"
+      ],
+      "primary_project": "docs"
+    }
+`
+    ));
+  });
+
+  it("refuses unknown projects, a taken id, and a primary outside the bundle", async () => {
+    const unknown = await run(["bundle", "create", "x", "app", "ghost"]);
+    expect(unknown.exitCode).toBe(1);
+    expect(unknown.stderr).toContain("Unknown project: ghost");
+
+    const taken = await run(["bundle", "create", "core", "app"]);
+    expect(taken.stderr).toContain("'core' already exists");
+
+    const primary = await run(["bundle", "create", "x", "app", "--primary", "lib"]);
+    expect(primary.stderr).toContain("must be one of the bundle's projects");
+    expect(readFileSync(hopFile, "utf-8")).toBe(ORIGINAL);
+  });
+});
+
+describe("hop bundle membership", () => {
+  it("adds and removes projects in place", async () => {
+    expect((await run(["bundle", "add-project", "core", "docs"])).exitCode).toBe(0);
+    expect(readFileSync(hopFile, "utf-8")).toContain('"projects": ["app", "lib", "docs"],');
+
+    expect((await run(["bundle", "remove-project", "core", "lib"])).exitCode).toBe(0);
+    expect(read().bundles[0]).toEqual({ id: "core", name: "Core", projects: ["app", "docs"], primary_project: "app" });
+  });
+
+  it("clears the primary when it leaves the bundle", async () => {
+    const { stdout } = await run(["bundle", "remove-project", "core", "app"]);
+    expect(stdout).toContain("cleared its primary_project");
+    expect(read().bundles[0]).toEqual({ id: "core", name: "Core", projects: ["lib"] });
+  });
+
+  it("will not empty a bundle or add a dangling name", async () => {
+    await run(["bundle", "remove-project", "core", "app"]);
+    const last = await run(["bundle", "remove-project", "core", "lib"]);
+    expect(last.exitCode).toBe(1);
+    expect(last.stderr).toContain("hop bundle delete core");
+
+    const ghost = await run(["bundle", "add-project", "core", "ghost"]);
+    expect(ghost.exitCode).toBe(1);
+    expect(ghost.stderr).toContain("Unknown project: ghost");
+  });
+});
+
+describe("hop bundle set-primary / delete", () => {
+  it("sets a primary only from the bundle's own projects", async () => {
+    expect((await run(["bundle", "set-primary", "core", "lib"])).exitCode).toBe(0);
+    expect(read().bundles[0].primary_project).toBe("lib");
+
+    const outside = await run(["bundle", "set-primary", "core", "docs"]);
+    expect(outside.exitCode).toBe(1);
+    expect(outside.stderr).toContain("hop bundle add-project core docs");
+  });
+
+  it("deletes a bundle and still shows bundles by id", async () => {
+    const shown = await run(["bundle", "core", "--json"]);
+    expect(JSON.parse(shown.stdout).id).toBe("core");
+
+    const { stdout, exitCode } = await run(["bundle", "delete", "core", "--json"]);
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout).deleted.id).toBe("core");
+    expect(readFileSync(hopFile, "utf-8")).toContain('"bundles": []');
+  });
+
+  it("shows a bundle named like a subcommand only through `show`", async () => {
+    writeFileSync(hopFile, ORIGINAL.replace('"id": "core"', '"id": "delete"'));
+    const shown = await run(["bundle", "show", "delete", "--json"]);
+    expect(shown.exitCode).toBe(0);
+    expect(JSON.parse(shown.stdout).id).toBe("delete");
+
+    // Without `show`, the word is the subcommand, which still wants its id
+    const { stderr, exitCode } = await run(["bundle", "delete"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("missing required argument 'id'");
+    expect(read().bundles[0].id).toBe("delete");
+  });
+});
@@ -135,6 +135,194 @@ describe("hop validate", () => {
     expect(exitCode).toBe(1);
     expect(stderr).toContain("Invalid");
   });
+
+  it("reports semantic errors separately from schema errors", async () => {
+    const semantic = join(import.meta.dir, "fixtures", "semantic-errors.json");
+    const { stderr, exitCode } = await run(["validate", semantic]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("(passed)");
+    expect(stderr).toContain("Semantic errors (1):");
+    expect(stderr).toContain('/bundles/0/projects/1: Bundle "core" references unknown project: "worker" [bundle.projects.valid]');
+    expect(stderr).toContain("Warnings (1):");
+    expect(stderr).toContain("[project.path.unique]");
+  });
+
+  it("prefixes diagnostics with file:line:column", async () => {
+    const semantic = await run(["validate", join(import.meta.dir, "fixtures", "semantic-errors.json")]);
+    expect(semantic.stderr).toContain("semantic-errors.json:15:27: /bundles/0/projects/1:");
+    expect(semantic.stderr).toContain("semantic-errors.json:9:22: /projects/1/path:");
+
+    const schema = await run(["validate", join(import.meta.dir, "fixtures", "invalid.json")]);
+    expect(schema.stderr).toContain("invalid.json:4:5: /machine/id: must be string");
+  });
+
+  it("exits 2 with --env when the filesystem disagrees", async () => {
+    const file = join(TEST_HOME, "env-check.json");
+    writeFileSync(file, JSON.stringify({
+      schema_version: "0.1.0",
+      machine: { id: "env-check", name: "Env Check", agent_root: join(TEST_HOME, "missing-root") },
+      projects: [{ name: "home", path: TEST_HOME }],
+    }));
+    const plain = await run(["validate", file]);
+    expect(plain.exitCode).toBe(0);
+
+    const { stderr, exitCode } = await run(["validate", "--env", file]);
+    expect(exitCode).toBe(2);
+    expect(stderr).toContain("Environment mismatch");
+    expect(stderr).toContain("[agent_root.exists]");
+  });
+
+  it("fails on environment warnings only with --strict", async () => {
+    const file = join(TEST_HOME, "env-warn.json");
+    writeFileSync(file, JSON.stringify({
+      schema_version: "0.1.0",
+      machine: { id: "env-warn", name: "Env Warn" },
+      projects: [{ name: "gone", path: join(TEST_HOME, "gone") }],
+    }));
+    const lenient = await run(["validate", "--env", file]);
+    expect(lenient.exitCode).toBe(0);
+    expect(lenient.stdout).toContain("[project.path.exists]");
+
+    const strict = await run(["validate", "--env", "--strict", file]);
+    expect(strict.exitCode).toBe(2);
+  });
+});
+
+describe("hop validate --format", () => {
+  const SEMANTIC = join(import.meta.dir, "fixtures", "semantic-errors.json");
+
+  it("emits JSON diagnostics with rule, severity and position", async () => {
+    const { stdout, exitCode } = await run(["validate", "--format", "json", SEMANTIC]);
+    expect(exitCode).toBe(1);
+    const parsed = JSON.parse(stdout);
+    expect(parsed.valid).toBe(false);
+    expect(parsed.errors).toEqual([{
+      path: "/bundles/0/projects/1",
+      rule: "bundle.projects.valid",
+      severity: "error",
+      category: "semantic",
+      message: 'Bundle "core" references unknown project: "worker"',
+      suggestion: "Ensure all projects in bundle exist in the projects array, or add the missing project",
+      file: SEMANTIC,
+      line: 15,
+      column: 27,
+    }]);
+    expect(parsed.warnings.map((w: any) => w.rule)).toEqual(["project.path.unique"]);
+  });
+
+  it("gives schema errors schema.<keyword> rule IDs", async () => {
+    const invalid = join(import.meta.dir, "fixtures", "invalid.json");
+    const { stdout, exitCode } = await run(["validate", "--format", "json", invalid]);
+    expect(exitCode).toBe(1);
+    const [error] = JSON.parse(stdout).errors;
+    expect(error).toMatchObject({ path: "/machine/id", rule: "schema.type", line: 4, column: 5 });
+  });
+
+  it("reports syntax errors at their position", async () => {
+    const file = join(TEST_HOME, "broken.json");
+    writeFileSync(file, '{\n  "schema_version": "0.1.0",\n  "machine" {}\n}\n');
+    const { stdout, exitCode } = await run(["validate", "--format", "json", file]);
+    expect(exitCode).toBe(1);
+    expect(JSON.parse(stdout).errors[0]).toMatchObject({ rule: "json.syntax", line: 3, column: 13 });
+  });
+
+  it("emits SARIF 2.1.0", async () => {
+    const { stdout, exitCode } = await run(["validate", "--format", "sarif", SEMANTIC]);
+    expect(exitCode).toBe(1);
+    const sarif = JSON.parse(stdout);
+    expect(sarif.version).toBe("2.1.0");
+    const [run0] = sarif.runs;
+    expect(run0.tool.driver.rules.map((r: any) => r.id)).toContain("bundle.projects.valid");
+    const result = run0.results.find((r: any) => r.ruleId === "bundle.projects.valid");
+    expect(result.level).toBe("error");
+    expect(result.locations[0].physicalLocation.region).toEqual({ startLine: 15, startColumn: 27 });
+    expect(result.locations[0].logicalLocations[0].fullyQualifiedName).toBe("/bundles/0/projects/1");
+  });
+
+  it("emits JUnit XML", async () => {
+    const { stdout, exitCode } = await run(["validate", "--format", "junit", SEMANTIC]);
+    expect(exitCode).toBe(1);
+    expect(stdout).toStartWith('<?xml version="1.0" encoding="UTF-8"?>');
+    expect(stdout).toContain('<testsuites name="hop validate" tests="4" failures="1">');
+    expect(stdout).toContain('type="bundle.projects.valid"');
+    expect(stdout).toContain("semantic-errors.json:15:27");
+
+    const valid = await run(["validate", "--format", "junit", MINIMAL]);
+    expect(valid.exitCode).toBe(0);
+    expect(valid.stdout).toContain('failures="0"');
+  });
+
+  it("locates diagnostics in the base file that supplied them", async () => {
+    const dir = mkdtempSync(join(TEST_HOME, "extends-format-"));
+    const base = join(dir, "base.json");
+    writeFileSync(base, JSON.stringify({
+      projects: [{ name: "shared" }],
+      bundles: [{ id: "b", name: "B", projects: ["shared", "ghost"] }],
+    }, null, 2));
+    const child = join(dir, "hop.json");
+    writeFileSync(child, JSON.stringify({
+      extends: "./base.json",
+      schema_version: "0.1.0",
+      machine: { id: "m", name: "M" },
+    }, null, 2));
+    const { stdout, exitCode } = await run(["validate", "--format", "json", child]);
+    expect(exitCode).toBe(1);
+    const parsed = JSON.parse(stdout);
+    expect(parsed.extends).toEqual([base]);
+    expect(parsed.errors[0]).toMatchObject({ rule: "bundle.projects.valid", file: base, line: 13, column: 9 });
+  });
+
+  it("rejects unknown formats", async () => {
+    const { stderr, exitCode } = await run(["validate", "--format", "yaml", MINIMAL]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain('Unknown format "yaml"');
+  });
+});
+
+describe("extends", () => {
+  const CHILD = join(import.meta.dir, "fixtures", "extends-child.json");
+
+  it("commands see the merged config", async () => {
+    const { stdout, exitCode } = await run(["projects", "--json"], { HOP_CONFIG_PATH: CHILD });
+    expect(exitCode).toBe(0);
+    const parsed = JSON.parse(stdout);
+    expect(parsed.map((p: any) => p.name)).toEqual(["shared-app", "local-only"]);
+    expect(parsed[0].path).toBe("/home/test/shared-app");
+    expect(parsed[0].git.default_branch).toBe("main");
+  });
+
+  it("validates the merged result", async () => {
+    const { stdout, exitCode } = await run(["validate", CHILD]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Extends:");
+    expect(stdout).toContain("extends-base.json");
+  });
+});
+
+describe("diagnostic locations", () => {
+  it("reports where a hop.json fails to parse", async () => {
+    const broken = join(TEST_HOME, "unparseable.json");
+    writeFileSync(broken, '{\n  "schema_version": "0.1.0",\n  "machine" {}\n}\n');
+    const { stderr, exitCode } = await run(["projects"], { HOP_CONFIG_PATH: broken });
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain(`${broken}:3:13: Expected ':' after property name`);
+  });
+
+  it("locates stale projects in hop audit", async () => {
+    const file = join(TEST_HOME, "audit-stale.json");
+    writeFileSync(file, JSON.stringify({
+      schema_version: "0.1.0",
+      machine: { id: "audit", name: "Audit" },
+      projects: [{ name: "ghost", path: join(TEST_HOME, "no-such-dir") }],
+    }, null, 2));
+    const { stdout, exitCode } = await run(["audit", "--json"], { HOP_CONFIG_PATH: file });
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout).stale[0].location).toEqual({ file, line: 10, column: 7 });
+
+    const human = await run(["audit"], { HOP_CONFIG_PATH: file });
+    expect(human.exitCode).toBe(1);
+    expect(human.stdout).toContain("audit-stale.json:10:7)");
+  });
 });
 
 describe("hop init", () => {
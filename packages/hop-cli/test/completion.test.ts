@@ -0,0 +1,123 @@
+/**
+ * Integration tests for hop completion: the generated bash script is loaded
+ * into a real shell and asked for candidates the way bash would on Tab.
+ */
+
+import { describe, it, expect, beforeAll } from "bun:test";
+import { join } from "node:path";
+import { chmodSync, mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+
+const CLI = join(import.meta.dir, "..", "src", "cli.ts");
+// Temp HOME so ~/.hop/settings.json doesn't override HOP_CONFIG_PATH
+const ISOLATED_HOME = mkdtempSync(join(tmpdir(), "hop-completion-test-"));
+const BIN = join(ISOLATED_HOME, "bin");
+const hopFile = join(ISOLATED_HOME, "hop.json");
+const env = { ...process.env, HOME: ISOLATED_HOME, HOP_CONFIG_PATH: hopFile, PATH: `${BIN}:${process.env.PATH}` };
+
+async function run(cmd: string[]): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const proc = Bun.spawn(cmd, { env, stdout: "pipe", stderr: "pipe" });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode };
+}
+
+let script: string;
+
+/** Candidates bash would offer for the command line `words` (last word being completed). */
+async function complete(words: string): Promise<string[]> {
+  const { stdout } = await run(["bash", "-c", `${script}
+COMP_WORDS=(${words}); COMP_CWORD=$((\${#COMP_WORDS[@]} - 1)); _hop_complete
+printf '%s\\n' "\${COMPREPLY[@]}"`]);
+  return stdout === "" ? [] : stdout.split("\n");
+}
+
+beforeAll(async () => {
+  mkdirSync(BIN);
+  writeFileSync(join(BIN, "hop"), `#!/bin/sh\nexec bun ${JSON.stringify(CLI)} "$@"\n`);
+  chmodSync(join(BIN, "hop"), 0o755);
+  writeFileSync(hopFile, JSON.stringify({
+    schema_version: "0.1.0",
+    machine: { id: "comp", name: "Completion" },
+    accounts: { github: [{ username: "octo", default: true }, { username: "work-octo" }] },
+    projects: [
+      { name: "app", type: "website", system: "shop" },
+      { name: "api", type: "api", system: "shop" },
+      { name: "docs", type: "website" },
+    ],
+    bundles: [{ id: "web", name: "Web", projects: ["app", "docs"] }],
+  }, null, 2));
+  script = (await run(["bun", CLI, "completion", "bash"])).stdout;
+});
+
+describe("hop completion bash", () => {
+  it("completes commands and subcommands", async () => {
+    expect(await complete("hop pro")).toEqual(["projects", "project"]);
+    expect(await complete("hop project re")).toEqual(["remove", "rename"]);
+    expect(await complete("hop system ''")).toEqual(["list", "show", "help"]);
+  });
+
+  it("completes options, skipping option values when counting arguments", async () => {
+    expect(await complete("hop projects --s")).toEqual(["--system"]);
+    expect(await complete("hop bundle create --primary app site ''")).toEqual(["app", "api", "docs"]);
+  });
+
+  it("completes names read from hop.json", async () => {
+    expect(await complete("hop projects --system ''")).toEqual(["shop"]);
+    expect(await complete("hop projects -t ''")).toEqual(["website", "api"]);
+    expect(await complete("hop account show ''")).toEqual(["octo", "work-octo"]);
+    expect(await complete("hop account for a")).toEqual(["app", "api"]);
+    expect(await complete("hop project rename a")).toEqual(["app", "api"]);
+    expect(await complete("hop project rename app ''")).toEqual([]);
+  });
+
+  it("completes every position of variadic and default subcommands", async () => {
+    expect(await complete("hop bundle add-project ''")).toEqual(["web"]);
+    expect(await complete("hop bundle add-project web app d")).toEqual(["docs"]);
+    // `hop bundle <id>` runs `bundle show`
+    expect(await complete("hop bundle w")).toEqual(["web"]);
+    expect(await complete("hop account o")).toEqual(["octo"]);
+  });
+
+  it("completes a command alias like the command", async () => {
+    expect(await complete("hop accounts o")).toEqual(["octo"]);
+    expect(await complete("hop accounts show ''")).toEqual(["octo", "work-octo"]);
+    expect(await complete("hop accounts export ''")).toEqual(["ssh-config", "gitconfig"]);
+    expect(await complete("hop acc")).toEqual(["account", "accounts"]);
+  });
+
+  it("completes fixed choices", async () => {
+    expect(await complete("hop validate --format s")).toEqual(["sarif"]);
+    expect(await complete("hop completion ''")).toEqual(["bash", "zsh", "fish"]);
+    expect(await complete("hop account export ''")).toEqual(["ssh-config", "gitconfig"]);
+  });
+
+  it("offers no names when hop.json cannot be loaded", async () => {
+    const broken = join(ISOLATED_HOME, "missing.json");
+    const { stdout, stderr } = await run(["bash", "-c", `HOP_CONFIG_PATH=${broken} hop __complete project bundle`]);
+    expect(stdout).toBe("");
+    expect(stderr).toBe("");
+  });
+});
+
+describe("hop completion zsh|fish", () => {
+  it("emits scripts built from the same command tree", async () => {
+    const zsh = (await run(["bun", CLI, "completion", "zsh"])).stdout;
+    expect(zsh).toContain("compdef _hop hop");
+    expect(zsh).toContain('"bundle add-project|"*) echo "names:project" ;;');
+
+    const fish = (await run(["bun", CLI, "completion", "fish"])).stdout;
+    expect(fish).toContain("complete -c hop -f -a '(__hop_complete)'");
+    expect(fish).toContain("case 'bundle add-project|'*");
+    expect(fish).toContain("'rename' 'Rename a project");
+  });
+
+  it("rejects other shells", async () => {
+    const { stderr, exitCode } = await run(["bun", CLI, "completion", "tcsh"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Supported: bash, zsh, fish");
+  });
+});
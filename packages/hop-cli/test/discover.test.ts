@@ -262,6 +262,18 @@ describe("discovery: settings.json as authoritative pointer", () => {
     expect(exitCode).toBe(0);
     expect(stdout).toContain("hop-example-vps-server.json");
   });
+
+  it("config set-path edits settings.json in place, keeping other keys", async () => {
+    const home = join(tmpdir(), `hop-setpath-test-${Date.now()}`);
+    mkdirSync(join(home, ".hop"), { recursive: true });
+    const settings = join(home, ".hop", "settings.json");
+    writeFileSync(settings, `{\n    "theme": "dark",\n    "hop_config": "/old/hop.json"\n}\n`);
+
+    const { exitCode } = await run(["config", "set-path", MINIMAL], { HOME: home });
+    expect(exitCode).toBe(0);
+    expect(readFileSync(settings, "utf-8")).toBe(`{\n    "theme": "dark",\n    "hop_config": "${MINIMAL}"\n}\n`);
+    rmSync(home, { recursive: true, force: true });
+  });
 });
 
 describe("discover: smart roots from hop.json", () => {
@@ -311,3 +323,139 @@ describe("discover: smart roots from hop.json", () => {
     expect(names).toContain("my-proj");
   });
 });
+
+describe("hop discover --apply", () => {
+  const root = join(tmpdir(), `hop-apply-test-${Date.now()}`);
+  const hopFile = join(root, "hop.json");
+  const original = `{
+  "schema_version": "0.1.0",
+  "machine": { "id": "apply", "name": "Apply", "agent_root": "${join(root, "dev")}" },
+  "projects": [
+    { "name": "app", "path": "${join(root, "dev", "app")}", "git": { "remote_url": "git@github.com:me/old.git" } }
+  ]
+}
+`;
+
+  function repo(name: string, remote?: string) {
+    mkdirSync(join(root, "dev", name, ".git"), { recursive: true });
+    writeFileSync(join(root, "dev", name, ".git", "HEAD"), "ref: refs/heads/main\n");
+    if (remote) writeFileSync(join(root, "dev", name, ".git", "config"), `[remote "origin"]\n\turl = ${remote}\n`);
+  }
+
+  async function apply(args: string[], input?: string) {
+    const proc = Bun.spawn(["bun", CLI, "discover", "--apply", ...args], {
+      env: { ...process.env, HOME: ISOLATED_HOME, HOP_CONFIG_PATH: hopFile },
+      stdin: input === undefined ? "ignore" : new Blob([input]),
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    const [stdout, stderr] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+    ]);
+    return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode: await proc.exited };
+  }
+
+  beforeAll(() => {
+    repo("app", "git@github.com:me/new.git");
+    repo("lib");
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("adds new repos and updates changed remotes with --yes", async () => {
+    writeFileSync(hopFile, original);
+    const { stdout, exitCode } = await apply(["--yes"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('-    { "name": "app"');
+    expect(stdout).toContain("Added 1 project, updated 2 fields");
+
+    const written = readFileSync(hopFile, "utf-8");
+    expect(written).toContain(
+      `{ "name": "app", "path": "${join(root, "dev", "app")}", "git": { "remote_url": "git@github.com:me/new.git", "default_branch": "main" } },`
+    );
+    const config = JSON.parse(written);
+    expect(config.projects.map((p: any) => p.name)).toEqual(["app", "lib"]);
+    expect(config.projects[1]).toEqual({ name: "lib", path: join(root, "dev", "lib"), type: "tool", git: { default_branch: "main" } });
+
+    const again = await apply(["--yes"]);
+    expect(again.stdout).toContain("Nothing to apply");
+  });
+
+  it("asks about each change and writes nothing when declined", async () => {
+    writeFileSync(hopFile, original);
+    const { stdout, exitCode } = await apply([], "n\nn\nn\n");
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Add 'lib'");
+    expect(stdout).toContain("Update 'app' remote_url: git@github.com:me/old.git → git@github.com:me/new.git?");
+    expect(stdout).toContain("Nothing selected");
+    expect(readFileSync(hopFile, "utf-8")).toBe(original);
+  });
+
+  it("treats running out of answers as no", async () => {
+    writeFileSync(hopFile, original);
+    const { stdout } = await apply([], "y\n");
+    expect(stdout).toContain("Write these changes?");
+    expect(stdout).toContain("Nothing written");
+    expect(readFileSync(hopFile, "utf-8")).toBe(original);
+  });
+
+  it("requires --yes for JSON output", async () => {
+    const { stderr, exitCode } = await apply(["--json"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("pass --yes");
+  });
+});
+
+describe("hop config explain", () => {
+  const testHome = join(tmpdir(), `hop-explain-test-${Date.now()}`);
+  const defaultHop = join(testHome, ".hop", "hop.json");
+
+  beforeAll(() => {
+    mkdirSync(join(testHome, ".hop"), { recursive: true });
+    writeFileSync(
+      defaultHop,
+      JSON.stringify({ schema_version: "0.1.0", machine: { id: "shadowed", name: "Shadowed" } }, null, 2),
+    );
+  });
+
+  afterAll(() => {
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it("reports value, source file, discovery step, and shadowed files", async () => {
+    const { stdout, exitCode } = await run(
+      ["config", "explain", "/projects/0/path", "--json"],
+      { HOME: testHome, HOP_CONFIG_PATH: FIXTURE },
+    );
+    expect(exitCode).toBe(0);
+    const parsed = JSON.parse(stdout);
+    expect(parsed.value).toBe("/home/deploy/projects/api");
+    expect(parsed.sources).toEqual([FIXTURE]);
+    expect(parsed.config.step).toBe("env");
+    expect(parsed.shadowed.map((s: any) => s.path)).toContain(defaultHop);
+  });
+
+  it("names the extends base a value was inherited from", async () => {
+    const child = join(import.meta.dir, "fixtures", "extends-child.json");
+    const { stdout, exitCode } = await run(
+      ["config", "explain", "/bundles/0/primary_project"],
+      { HOP_CONFIG_PATH: child },
+    );
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('Value:    "shared-app"');
+    expect(stdout).toContain("Source:   " + join(import.meta.dir, "fixtures", "extends-base.json"));
+    expect(stdout).toContain("Selected: $HOP_CONFIG_PATH (step: env)");
+  });
+
+  it("exits 1 for a pointer with no value", async () => {
+    const { stdout, exitCode } = await run(
+      ["config", "explain", "/projects/99"],
+      { HOP_CONFIG_PATH: FIXTURE },
+    );
+    expect(exitCode).toBe(1);
+    expect(stdout).toContain("(not set)");
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Integration tests for hop fix: each remedy, --dry-run, and the guarantee
+ * that untouched parts of the file survive byte-for-byte.
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { join } from "node:path";
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+
+const CLI = join(import.meta.dir, "..", "src", "cli.ts");
+// Temp HOME so ~/.hop/settings.json doesn't override HOP_CONFIG_PATH
+const ISOLATED_HOME = mkdtempSync(join(tmpdir(), "hop-fix-test-"));
+
+async function run(
+  args: string[],
+  env?: Record<string, string>,
+): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const proc = Bun.spawn(["bun", CLI, ...args], {
+    env: { ...process.env, HOME: ISOLATED_HOME, ...env },
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode };
+}
+
+let dir: string;
+let hopFile: string;
+let root: string;
+
+/** A hand-formatted file: mixed inline and expanded entries, a blank line. */
+function original(): string {
+  return `{
+  "schema_version": "0.1.0",
+  "machine": { "id": "fix", "name": "Fix", "agent_root": "${root}" },
+
+  "projects": [
+    {
+      "name": "app",
+      "path": "${root}/app",
+      "git": {
+        "remote_url": "git@github.com:me/app.git"
+      }
+    },
+    { "name": "lib", "path": "${root}/lib" },
+    { "name": "moved", "path": "/old/place/moved" },
+    { "name": "gone", "path": "/nowhere/gone" },
+    { "name": "kept", "path": "/nowhere/kept" }
+  ],
+  "bundles": [
+    { "id": "b", "name": "B", "projects": ["app", "kept"] }
+  ],
+  "infra_repos": {
+    "root": "/srv/infra",
+    "repos": []
+  }
+}
+`;
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(ISOLATED_HOME, "case-"));
+  root = join(dir, "root");
+  mkdirSync(join(root, "app", ".git", "refs", "remotes", "origin"), { recursive: true });
+  writeFileSync(join(root, "app", ".git", "refs", "remotes", "origin", "HEAD"), "ref: refs/remotes/origin/trunk\n");
+  writeFileSync(join(root, "app", ".git", "HEAD"), "ref: refs/heads/feature/x\n");
+  mkdirSync(join(root, "lib", ".git"), { recursive: true });
+  writeFileSync(join(root, "lib", ".git", "HEAD"), "ref: refs/heads/dev\n");
+  mkdirSync(join(root, "moved"));
+  hopFile = join(dir, "hop.json");
+  writeFileSync(hopFile, original());
+});
+
+describe("hop fix", () => {
+  it("applies every remedy and leaves the rest of the file untouched", async () => {
+    const { stdout, exitCode } = await run(["fix", hopFile]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Applied 4 fixes");
+    expect(stdout).toContain('skipped — "gone" is missing from disk; pass --drop-stale to remove it');
+
+    const expected = original()
+      .replace(
+        `"remote_url": "git@github.com:me/app.git"\n`,
+        `"remote_url": "git@github.com:me/app.git",\n        "default_branch": "trunk"\n`
+      )
+      .replace(`"path": "${root}/lib" }`, `"path": "${root}/lib", "git": { "default_branch": "dev" } }`)
+      .replace(`"/old/place/moved"`, `"${root}/moved"`)
+      .replace(`"root": "/srv/infra"`, `"path": "/srv/infra"`);
+    expect(readFileSync(hopFile, "utf-8")).toBe(expected);
+
+    const again = await run(["fix", hopFile]);
+    expect(again.stdout).toContain("Applied 0 fixes");
+  });
+
+  it("shows a diff and writes nothing with --dry-run", async () => {
+    const { stdout, exitCode } = await run(["fix", "--dry-run", hopFile]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain(`--- ${hopFile}`);
+    expect(stdout).toContain('-    "root": "/srv/infra",');
+    expect(stdout).toContain('+    "path": "/srv/infra",');
+    expect(stdout).toContain("Nothing written.");
+    expect(readFileSync(hopFile, "utf-8")).toBe(original());
+  });
+
+  it("drops stale projects only with --drop-stale and only when unreferenced", async () => {
+    const { stdout } = await run(["fix", "--drop-stale", hopFile]);
+    expect(stdout).toContain('dropped stale project "gone"');
+    expect(stdout).toContain('"kept" is missing from disk but still referenced at /bundles/0');
+
+    const after = readFileSync(hopFile, "utf-8");
+    expect(after).not.toContain('"gone"');
+    expect(after).toContain(`    { "name": "moved", "path": "${root}/moved" },\n    { "name": "kept", "path": "/nowhere/kept" }\n  ],`);
+  });
+
+  it("re-paths two stale projects to one directory at most once", async () => {
+    writeFileSync(hopFile, original().replace(
+      `{ "name": "gone", "path": "/nowhere/gone" }`,
+      `{ "name": "moved-too", "path": "/elsewhere/moved" }`
+    ));
+    const { stdout, exitCode } = await run(["fix", hopFile]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('skipped — "moved-too" is missing from disk');
+
+    const after = JSON.parse(readFileSync(hopFile, "utf-8"));
+    expect(after.projects[2].path).toBe(join(root, "moved"));
+    expect(after.projects[3].path).toBe("/elsewhere/moved");
+  });
+
+  it("reports planned fixes as JSON", async () => {
+    const { stdout, exitCode } = await run(["fix", "--dry-run", "--json"], { HOP_CONFIG_PATH: hopFile });
+    expect(exitCode).toBe(0);
+    const parsed = JSON.parse(stdout);
+    expect(parsed.dry_run).toBe(true);
+    expect(parsed.fixes.map((f: any) => f.kind)).toEqual([
+      "infra-path-key",
+      "default-branch",
+      "default-branch",
+      "stale-repath",
+    ]);
+    expect(parsed.fixes[0]).toMatchObject({ pointer: "/infra_repos/root", location: { file: hopFile, line: 22, column: 5 } });
+    expect(parsed.skipped.map((s: any) => s.pointer)).toEqual(["/projects/3", "/projects/4"]);
+  });
+
+  it("reports when there is nothing to fix", async () => {
+    const clean = join(dir, "clean.json");
+    writeFileSync(clean, JSON.stringify({ schema_version: "0.1.0", machine: { id: "c", name: "C" } }));
+    const { stdout, exitCode } = await run(["fix", clean]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Nothing to fix");
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Integration tests for hop here (the project, branch checkout or infra repo
+ * containing a directory) and hop account for.
+ */
+
+import { describe, it, expect, beforeAll } from "bun:test";
+import { join } from "node:path";
+import { mkdirSync, mkdtempSync, realpathSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+
+const CLI = join(import.meta.dir, "..", "src", "cli.ts");
+// Temp HOME so ~/.hop/settings.json doesn't override HOP_CONFIG_PATH
+const ISOLATED_HOME = realpathSync(mkdtempSync(join(tmpdir(), "hop-here-test-")));
+const DEV = join(ISOLATED_HOME, "dev");
+const hopFile = join(ISOLATED_HOME, "hop.json");
+
+async function run(args: string[], cwd?: string): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const proc = Bun.spawn(["bun", CLI, ...args], {
+    cwd,
+    env: { ...process.env, HOME: ISOLATED_HOME, HOP_CONFIG_PATH: hopFile },
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode };
+}
+
+beforeAll(() => {
+  mkdirSync(join(DEV, "app", "src"), { recursive: true });
+  mkdirSync(join(DEV, "app-next"), { recursive: true });
+  mkdirSync(join(DEV, "infra", "terraform"), { recursive: true });
+  symlinkSync(join(DEV, "app"), join(ISOLATED_HOME, "link"));
+  writeFileSync(hopFile, JSON.stringify({
+    schema_version: "0.1.0",
+    machine: { id: "here", name: "Here" },
+    accounts: { github: [{ username: "me", default: true }, { username: "work", git_alias: "github-work" }] },
+    projects: [
+      { name: "app", path: join(DEV, "app"), system: "shop", account_override: "work", branch_checkouts: { next: join(DEV, "app-next") }, git: { remote_url: "git@github.com:acme/app.git" } },
+      { name: "legacy", account_override: "gone" },
+    ],
+    bundles: [{ id: "web", name: "Web", projects: ["app"] }],
+    infra_repos: { path: join(DEV, "infra"), repos: ["terraform"] },
+  }, null, 2));
+});
+
+describe("hop here", () => {
+  it("reports the project containing the working directory", async () => {
+    const { stdout, exitCode } = await run(["here"], join(DEV, "app", "src"));
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Project:  app");
+    expect(stdout).toContain("System:   shop");
+    expect(stdout).toContain("Bundles:  web");
+    expect(stdout).toContain("Account:  work (account_override)");
+  });
+
+  it("recognises branch checkouts and infra repos", async () => {
+    const checkout = JSON.parse((await run(["here", join(DEV, "app-next"), "--json"])).stdout);
+    expect(checkout).toMatchObject({ kind: "branch_checkout", name: "app", branch: "next", relative: "" });
+    expect(checkout.account.account.username).toBe("work");
+
+    const { stdout } = await run(["here", join(DEV, "infra", "terraform")]);
+    expect(stdout).toContain("Infra:    terraform (infra repo)");
+    expect(stdout).not.toContain("Account:");
+  });
+
+  it("follows symlinks to the registered path", async () => {
+    const match = JSON.parse((await run(["here", join(ISOLATED_HOME, "link", "src"), "--json"])).stdout);
+    expect(match).toMatchObject({ name: "app", relative: "src" });
+  });
+
+  it("exits 1 outside every registered directory", async () => {
+    const { stderr, exitCode } = await run(["here", DEV]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("is not inside any project");
+  });
+});
+
+describe("hop account for", () => {
+  it("shows the project's account, alias, aliased remote and why", async () => {
+    const { stdout, exitCode } = await run(["account", "for", "ap"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Account:  work");
+    expect(stdout).toContain("Auth:     ssh");
+    expect(stdout).toContain("Alias:    github-work");
+    expect(stdout).toContain("Remote:   git@github-work:acme/app.git");
+    expect(stdout).toContain("Project 'app' sets account_override 'work'.");
+  });
+
+  it("defaults to the project containing the working directory", async () => {
+    const { stdout, exitCode } = await run(["account", "for", "--json"], join(DEV, "app-next"));
+    expect(exitCode).toBe(0);
+    const json = JSON.parse(stdout);
+    expect(json).toMatchObject({ project: "app", source: "account_override", account: { username: "work" } });
+    expect(json.explanation.length).toBeGreaterThan(0);
+  });
+
+  it("exits 1 with the reason when the override names a missing account", async () => {
+    const { stderr, exitCode } = await run(["account", "for", "legacy"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("No GitHub account applies to 'legacy'");
+    expect(stderr).toContain("has no such account");
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Integration tests for hop project add/remove/set: detection, validation
+ * before writing, and format preservation.
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { join } from "node:path";
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+
+const CLI = join(import.meta.dir, "..", "src", "cli.ts");
+// Temp HOME so ~/.hop/settings.json doesn't override HOP_CONFIG_PATH
+const ISOLATED_HOME = mkdtempSync(join(tmpdir(), "hop-project-test-"));
+
+let dir: string;
+let hopFile: string;
+
+async function run(args: string[]): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const proc = Bun.spawn(["bun", CLI, ...args], {
+    env: { ...process.env, HOME: ISOLATED_HOME, HOP_CONFIG_PATH: hopFile },
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode };
+}
+
+const ORIGINAL = `{
+  "schema_version": "0.1.0",
+  "machine": { "id": "proj", "name": "Proj" },
+
+  "projects": [
+    { "name": "lib", "path": "/nowhere/lib" }
+  ],
+  "bundles": [{ "id": "b", "name": "B", "projects": ["lib"] }]
+}
+`;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(ISOLATED_HOME, "case-"));
+  const repo = join(dir, "My App");
+  mkdirSync(join(repo, ".git"), { recursive: true });
+  writeFileSync(join(repo, ".git", "HEAD"), "ref: refs/heads/main\n");
+  writeFileSync(join(repo, ".git", "config"), '[remote "origin"]\n\turl = git@github.com:me/app.git\n');
+  writeFileSync(join(repo, "package.json"), "{}");
+  hopFile = join(dir, "hop.json");
+  writeFileSync(hopFile, ORIGINAL);
+});
+
+describe("hop project add", () => {
+  it("detects the project and appends it in the file's style", async () => {
+    const { stdout, exitCode } = await run(["project", "add", join(dir, "My App")]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Added project 'my-app'");
+
+    const expected = ORIGINAL.replace(
+      '{ "name": "lib", "path": "/nowhere/lib" }\n',
+      `{ "name": "lib", "path": "/nowhere/lib" },
+    {
+      "name": "my-app",
+      "path": "${join(dir, "My App")}",
+      "type": "tool",
+      "git": {
+        "remote_url": "git@github.com:me/app.git",
+        "default_branch": "main"
+      }
+    }
+`
+    );
+    expect(readFileSync(hopFile, "utf-8")).toBe(expected);
+  });
+
+  it("refuses a name or path that is already registered", async () => {
+    await run(["project", "add", join(dir, "My App")]);
+    const again = await run(["project", "add", join(dir, "My App"), "--name", "other"]);
+    expect(again.exitCode).toBe(1);
+    expect(again.stderr).toContain("already registered as 'my-app'");
+
+    mkdirSync(join(dir, "lib"));
+    const clash = await run(["project", "add", join(dir, "lib")]);
+    expect(clash.exitCode).toBe(1);
+    expect(clash.stderr).toContain("A project named 'lib' already exists");
+  });
+
+  it("writes nothing with --dry-run and reports JSON", async () => {
+    const { stdout, exitCode } = await run(["project", "add", join(dir, "My App"), "--type", "website", "--dry-run", "--json"]);
+    expect(exitCode).toBe(0);
+    const parsed = JSON.parse(stdout);
+    expect(parsed.dry_run).toBe(true);
+    expect(parsed.project).toMatchObject({ name: "my-app", type: "website" });
+    expect(readFileSync(hopFile, "utf-8")).toBe(ORIGINAL);
+  });
+});
+
+describe("hop project remove", () => {
+  it("refuses to leave a bundle empty", async () => {
+    const { stderr, exitCode } = await run(["project", "remove", "lib"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Bundle 'b' would be left empty");
+    expect(readFileSync(hopFile, "utf-8")).toBe(ORIGINAL);
+  });
+
+  it("takes the project out of bundles and clears it as primary", async () => {
+    await run(["project", "add", join(dir, "My App")]);
+    await run(["bundle", "add-project", "b", "my-app"]);
+    await run(["bundle", "set-primary", "b", "my-app"]);
+    const { stdout, exitCode } = await run(["project", "remove", "my-app"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Also removed from bundle 'b'");
+    expect(stdout).toContain("Also cleared primary_project of bundle 'b'");
+    expect(readFileSync(hopFile, "utf-8")).toBe(ORIGINAL);
+  });
+
+  it("clears cross_project.home_project when it names the project", async () => {
+    await run(["project", "add", join(dir, "My App")]);
+    const before = readFileSync(hopFile, "utf-8");
+    writeFileSync(hopFile, before.replace(
+      '"machine": { "id": "proj", "name": "Proj" },',
+      '"machine": { "id": "proj", "name": "Proj" },\n  "cross_project": { "home_project": "my-app", "artifacts_path": "/art" },'
+    ));
+    const { stdout, exitCode } = await run(["project", "remove", "my-app"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Also cleared cross_project.home_project");
+
+    const after = JSON.parse(readFileSync(hopFile, "utf-8"));
+    expect(after.cross_project).toEqual({ artifacts_path: "/art" });
+    expect(after.projects.map((p: { name: string }) => p.name)).toEqual(["lib"]);
+  });
+
+  it("removes an unreferenced project", async () => {
+    await run(["project", "add", join(dir, "My App")]);
+    const { stdout, exitCode } = await run(["project", "remove", "my-app"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Removed project 'my-app'");
+    expect(readFileSync(hopFile, "utf-8")).toBe(ORIGINAL);
+  });
+
+  it("reports unknown projects", async () => {
+    const { stderr, exitCode } = await run(["project", "remove", "nope"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Project 'nope' not found");
+    expect(stderr).toContain("Available: lib");
+  });
+});
+
+describe("hop project set", () => {
+  it("sets a field, creating missing parents", async () => {
+    const { exitCode } = await run(["project", "set", "lib", "git.default_branch", "trunk"]);
+    expect(exitCode).toBe(0);
+    expect(readFileSync(hopFile, "utf-8")).toBe(
+      ORIGINAL.replace('"/nowhere/lib" }', '"/nowhere/lib", "git": { "default_branch": "trunk" } }')
+    );
+  });
+
+  it("parses --json-value and rejects values the schema does not allow", async () => {
+    const ok = await run(["project", "set", "lib", "branch_checkouts", '{"dev":"/nowhere/lib-dev"}', "--json-value"]);
+    expect(ok.exitCode).toBe(0);
+    expect(JSON.parse(readFileSync(hopFile, "utf-8")).projects[0].branch_checkouts).toEqual({ dev: "/nowhere/lib-dev" });
+
+    const bad = await run(["project", "set", "lib", "system", "Not A Slug"]);
+    expect(bad.exitCode).toBe(1);
+    expect(bad.stderr).toContain("/projects/0/system: must match pattern");
+  });
+
+  it("refuses to set the name", async () => {
+    const { stderr, exitCode } = await run(["project", "set", "lib", "name", "other"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("cannot be set");
+    expect(stderr).toContain("hop project rename lib");
+  });
+});
+
+describe("hop project rename", () => {
+  it("renames the project and every reference to it", async () => {
+    writeFileSync(hopFile, ORIGINAL
+      .replace('"machine": { "id": "proj", "name": "Proj" },', '"machine": { "id": "proj", "name": "Proj" },\n  "cross_project": { "home_project": "lib" },')
+      .replace('"projects": ["lib"] }', '"projects": ["lib"], "primary_project": "lib" }')
+      .replace('"path": "/nowhere/lib" }', '"path": "/nowhere/lib", "extensions": { "beads": { "prefix": "lib" } } }'));
+    const { stdout, exitCode } = await run(["project", "rename", "lib", "core"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Renamed project 'lib' → 'core' (4 references)");
+    expect(stdout).toContain(`home      ${hopFile}:/cross_project/home_project`);
+    expect(stdout).toContain("Left as is");
+    expect(stdout).toContain(`${hopFile}:/projects/0/extensions/beads/prefix`);
+
+    const after = JSON.parse(readFileSync(hopFile, "utf-8"));
+    expect(after.projects[0].name).toBe("core");
+    expect(after.bundles[0]).toMatchObject({ projects: ["core"], primary_project: "core" });
+    expect(after.cross_project.home_project).toBe("core");
+    expect(after.projects[0].extensions.beads.prefix).toBe("lib");
+  });
+
+  it("refuses a taken name and writes nothing with --dry-run", async () => {
+    await run(["project", "add", join(dir, "My App")]);
+    const taken = await run(["project", "rename", "lib", "my-app"]);
+    expect(taken.exitCode).toBe(1);
+    expect(taken.stderr).toContain('A project named "my-app" already exists');
+
+    const before = readFileSync(hopFile, "utf-8");
+    const { stdout, exitCode } = await run(["project", "rename", "lib", "core", "--dry-run", "--json"]);
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout).changes.map((c: { kind: string }) => c.kind)).toEqual(["name", "bundle"]);
+    expect(readFileSync(hopFile, "utf-8")).toBe(before);
+  });
+});
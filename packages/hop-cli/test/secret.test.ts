@@ -0,0 +1,63 @@
+/**
+ * Integration tests for hop secret check.
+ */
+
+import { describe, it, expect, beforeAll } from "bun:test";
+import { join } from "node:path";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+
+const CLI = join(import.meta.dir, "..", "src", "cli.ts");
+// Temp HOME so ~/.hop/settings.json doesn't override HOP_CONFIG_PATH
+const ISOLATED_HOME = mkdtempSync(join(tmpdir(), "hop-secret-test-"));
+const hopFile = join(ISOLATED_HOME, "hop.json");
+
+async function run(args: string[]): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const proc = Bun.spawn(["bun", CLI, ...args], {
+    env: { ...process.env, HOME: ISOLATED_HOME, HOP_CONFIG_PATH: hopFile, HOP_TEST_MAIL_TOKEN: "env-secret-value" },
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode };
+}
+
+beforeAll(() => {
+  mkdirSync(join(ISOLATED_HOME, ".hop", "secrets"), { recursive: true });
+  writeFileSync(join(ISOLATED_HOME, ".hop", "secrets", "pat-1"), "file-secret-value\n");
+  writeFileSync(hopFile, JSON.stringify({
+    schema_version: "0.1.0",
+    machine: { id: "secret", name: "Secret" },
+    accounts: { github: [{ username: "bot", auth_method: "https-pat", pat_bws_id: "pat-1" }] },
+    services: {
+      mail: { token_env: "HOP_TEST_MAIL_TOKEN" },
+      db: { token_env: "HOP_TEST_UNSET_TOKEN" },
+    },
+    secrets: { providers: [{ type: "env" }, { type: "file" }] },
+  }, null, 2));
+});
+
+describe("hop secret check", () => {
+  it("reports each reference and the provider that resolves it, without the values", async () => {
+    const { stdout, exitCode } = await run(["secret", "check"]);
+    expect(exitCode).toBe(1);
+    expect(stdout).toMatch(/✓ GitHub PAT for bot +pat_bws_id pat-1  \(file\)/);
+    expect(stdout).toMatch(/✓ token for service mail +token_env HOP_TEST_MAIL_TOKEN  \(env\)/);
+    expect(stdout).toContain("✗ token for service db");
+    expect(stdout).toContain("env: $HOP_TEST_UNSET_TOKEN is not set");
+    expect(stdout).toContain("Summary: 2 resolvable, 1 missing");
+    expect(stdout).not.toContain("secret-value");
+  });
+
+  it("outputs JSON with the pointer of each reference", async () => {
+    const { stdout } = await run(["secret", "check", "--json"]);
+    expect(stdout).not.toContain("secret-value");
+    const parsed = JSON.parse(stdout);
+    expect(parsed).toMatchObject({ resolved: 2, missing: 1 });
+    expect(parsed.secrets[2]).toMatchObject({ resolved: false, ref: { pointer: "/services/db/token_env" } });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Integration tests for hop cd, hop shell-init and the completion names it
+ * reads: fuzzy resolution, and the emitted bash functions run in a real shell.
+ */
+
+import { describe, it, expect, beforeAll } from "bun:test";
+import { join } from "node:path";
+import { chmodSync, mkdirSync, mkdtempSync, realpathSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+
+const CLI = join(import.meta.dir, "..", "src", "cli.ts");
+// Temp HOME so ~/.hop/settings.json doesn't override HOP_CONFIG_PATH
+const ISOLATED_HOME = realpathSync(mkdtempSync(join(tmpdir(), "hop-shell-test-")));
+const DEV = join(ISOLATED_HOME, "dev");
+const BIN = join(ISOLATED_HOME, "bin");
+const hopFile = join(ISOLATED_HOME, "hop.json");
+const env = { ...process.env, HOME: ISOLATED_HOME, HOP_CONFIG_PATH: hopFile, PATH: `${BIN}:${process.env.PATH}` };
+
+async function run(cmd: string[]): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const proc = Bun.spawn(cmd, { env, stdout: "pipe", stderr: "pipe" });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode };
+}
+
+const hop = (args: string[]) => run(["bun", CLI, ...args]);
+const bash = (script: string) => run(["bash", "-c", `eval "$(hop shell-init bash)"\n${script}`]);
+
+beforeAll(() => {
+  for (const dir of ["hop-spec-core", "hop-spec-cli", "website", "infra/terraform"]) {
+    mkdirSync(join(DEV, dir), { recursive: true });
+  }
+  mkdirSync(BIN);
+  writeFileSync(join(BIN, "hop"), `#!/bin/sh\nexec bun ${JSON.stringify(CLI)} "$@"\n`);
+  chmodSync(join(BIN, "hop"), 0o755);
+  writeFileSync(hopFile, JSON.stringify({
+    schema_version: "0.1.0",
+    machine: { id: "sh", name: "Shell", agent_root: DEV },
+    projects: [
+      { name: "hop-spec-core", path: join(DEV, "hop-spec-core"), system: "hop" },
+      { name: "hop-spec-cli", path: join(DEV, "hop-spec-cli"), system: "hop" },
+      { name: "website", path: join(DEV, "website") },
+    ],
+    bundles: [{ id: "web", name: "Web", projects: ["website"] }],
+    infra_repos: { path: join(DEV, "infra"), repos: ["terraform"] },
+  }, null, 2));
+});
+
+describe("hop cd", () => {
+  it("resolves exact, prefix and in-order letters", async () => {
+    expect((await hop(["cd", "website"])).stdout).toBe(join(DEV, "website"));
+    expect((await hop(["cd", "Terra"])).stdout).toBe(join(DEV, "infra", "terraform"));
+    expect((await hop(["cd", "hsco"])).stdout).toBe(join(DEV, "hop-spec-core"));
+  });
+
+  it("prints machine.agent_root when no name is given", async () => {
+    const { stdout, exitCode } = await hop(["cd"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe(DEV);
+  });
+
+  it("treats a bundle and its project as one directory, and lists real ambiguity", async () => {
+    expect((await hop(["cd", "web"])).stdout).toBe(join(DEV, "website"));
+
+    const { stderr, exitCode } = await hop(["cd", "hop-spec"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("'hop-spec' matches more than one");
+    expect(stderr).toContain("hop-spec-core (project)");
+    expect(stderr).toContain("hop-spec-cli (project)");
+  });
+
+  it("reports names that match nothing", async () => {
+    const { stderr, exitCode } = await hop(["cd", "zzz"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("No project, bundle or infra repo matches 'zzz'");
+  });
+});
+
+describe("hop shell-init", () => {
+  it("changes the calling shell's directory", async () => {
+    const { stdout, exitCode } = await bash("hop cd hsci && pwd");
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe(join(DEV, "hop-spec-cli"));
+  });
+
+  it("goes to machine.agent_root with no name", async () => {
+    const { stdout, exitCode } = await bash("cd /; hop cd && pwd");
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe(DEV);
+  });
+
+  it("stays put when the name does not resolve", async () => {
+    const { stdout, exitCode } = await bash(`cd ${JSON.stringify(DEV)}; hop cd zzz; echo "$? $PWD"`);
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe(`1 ${DEV}`);
+  });
+
+  it("completes names from the loaded hop.json", async () => {
+    const complete = (words: string) =>
+      bash(`COMP_WORDS=(${words}); COMP_CWORD=$((\${#COMP_WORDS[@]} - 1)); _hop_complete; printf '%s\\n' "\${COMPREPLY[@]}"`);
+
+    expect((await complete("hop cd hop")).stdout.split("\n")).toEqual(["hop-spec-core", "hop-spec-cli"]);
+    expect((await complete("hop cd ''")).stdout.split("\n")).toEqual(["hop-spec-core", "hop-spec-cli", "website", "web", "terraform"]);
+    expect((await complete("hop system show ''")).stdout).toBe("hop");
+  });
+
+  it("emits zsh and fish scripts and rejects other shells", async () => {
+    expect((await hop(["shell-init", "zsh"])).stdout).toContain("compdef _hop hop");
+    expect((await hop(["shell-init", "fish"])).stdout).toContain("complete -c hop");
+
+    const { stderr, exitCode } = await hop(["shell-init", "tcsh"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Supported: bash, zsh, fish");
+  });
+});
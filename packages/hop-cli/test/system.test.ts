@@ -180,6 +180,34 @@ describe("hop infra with mixed string/object entries", () => {
   });
 });
 
+// --- Partial and fuzzy names ---
+
+describe("name resolution", () => {
+  it("resolves unique prefixes and path basenames", async () => {
+    expect((await run(["path", "dash"])).stdout).toBe("/home/test/projects/dashboard");
+    expect((await run(["path", "chart"])).stdout).toBe("/home/test/infra-clones/chart-lib");
+    expect(JSON.parse((await run(["system", "show", "PAY", "--json"])).stdout).system).toBe("payments");
+    expect(JSON.parse((await run(["bundle", "pa", "--json"])).stdout).id).toBe("pay");
+  });
+
+  it("lists the candidates for an ambiguous name", async () => {
+    const { stderr, exitCode } = await run(["path", "api"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("'api' matches more than one project: api-core, api-gateway");
+  });
+
+  it("suggests close names without resolving to them", async () => {
+    const path = await run(["path", "api-gatewya"]);
+    expect(path.exitCode).toBe(1);
+    expect(path.stderr).toContain("Did you mean: api-gateway?");
+
+    const system = await run(["system", "show", "paymnts"]);
+    expect(system.exitCode).toBe(1);
+    expect(system.stderr).toContain("System 'paymnts' not found.");
+    expect(system.stderr).toContain("Did you mean: payments?");
+  });
+});
+
 // --- Validation: system field pattern ---
 
 describe("system field validation", () => {
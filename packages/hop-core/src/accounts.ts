@@ -0,0 +1,119 @@
+/**
+ * Which GitHub account applies to a project.
+ *
+ * Precedence, first match wins:
+ *
+ *   1. The project's `account_override`.
+ *   2. The account marked `default`.
+ *   3. The only active account, when there is exactly one.
+ *
+ * Accounts with `active: false` are skipped in steps 2 and 3. An override is
+ * never skipped: if it names a missing or inactive account the result is no
+ * account at all, rather than quietly falling back to the default and
+ * pushing a client's repo with the personal identity.
+ *
+ * Every step taken is recorded in `explanation`, so callers can show why an
+ * account was (or was not) chosen.
+ */
+
+import type { GitHubAccount, HopConfig, Project } from "./types.js";
+
+/** Where the effective account came from. */
+export type AccountSource = "account_override" | "default" | "sole";
+
+export interface EffectiveAccount {
+  account: GitHubAccount;
+  source: AccountSource;
+  /** `auth_method`, defaulting to ssh as the spec does. */
+  auth_method: NonNullable<GitHubAccount["auth_method"]>;
+  /** SSH host alias for this account, from `git_alias`. */
+  git_alias?: string;
+  /** The project's remote with github.com replaced by `git_alias`, for SSH remotes. */
+  remote_url?: string;
+}
+
+export interface AccountResolution {
+  /** Undefined when nothing decides; the last line of `explanation` says why. */
+  effective?: EffectiveAccount;
+  explanation: string[];
+}
+
+const GITHUB_SSH = /^(git@)github\.com(:)|^(ssh:\/\/git@)github\.com(\/)/;
+
+/** Rewrite a github.com SSH remote to go through a host alias. */
+function aliasRemote(remote: string, alias: string): string | undefined {
+  const m = GITHUB_SSH.exec(remote);
+  if (!m) return undefined;
+  const [prefix, sep] = m[1] ? [m[1], m[2]] : [m[3], m[4]];
+  return `${prefix}${alias}${sep}${remote.slice(m[0].length)}`;
+}
+
+function effective(account: GitHubAccount, source: AccountSource, project: Project | undefined, explanation: string[]): AccountResolution {
+  const auth_method = account.auth_method ?? "ssh";
+  const result: EffectiveAccount = { account, source, auth_method };
+  if (account.git_alias) {
+    result.git_alias = account.git_alias;
+    const remote = project?.git?.remote_url;
+    const rewritten = remote && auth_method === "ssh" ? aliasRemote(remote, account.git_alias) : undefined;
+    if (rewritten) {
+      result.remote_url = rewritten;
+      explanation.push(`'${account.username}' pushes through SSH host alias '${account.git_alias}': ${rewritten}`);
+    }
+  }
+  return { effective: result, explanation };
+}
+
+/**
+ * Resolve the GitHub account for a project, or the machine-wide one when no
+ * project is given, with the reasoning behind it.
+ */
+export function resolveGitHubAccount(config: HopConfig, project?: Project): AccountResolution {
+  const accounts = config.accounts?.github ?? [];
+  const explanation: string[] = [];
+  const subject = project ? `Project '${project.name}'` : "This machine";
+
+  if (accounts.length === 0) {
+    explanation.push("No accounts.github entries in hop.json.");
+    return { explanation };
+  }
+
+  if (project?.account_override) {
+    const name = project.account_override;
+    const account = accounts.find((a) => a.username === name);
+    if (!account) {
+      explanation.push(`${subject} sets account_override '${name}', but accounts.github has no such account.`);
+      return { explanation };
+    }
+    if (account.active === false) {
+      explanation.push(`${subject} sets account_override '${name}', but that account is inactive (active: false).`);
+      return { explanation };
+    }
+    explanation.push(`${subject} sets account_override '${name}'.`);
+    return effective(account, "account_override", project, explanation);
+  }
+  if (project) explanation.push(`${subject} has no account_override.`);
+
+  const fallback = accounts.find((a) => a.default);
+  if (fallback && fallback.active !== false) {
+    explanation.push(`'${fallback.username}' is the default account.`);
+    return effective(fallback, "default", project, explanation);
+  }
+  explanation.push(fallback
+    ? `The default account '${fallback.username}' is inactive (active: false); skipped.`
+    : "No account is marked default.");
+
+  const active = accounts.filter((a) => a.active !== false);
+  if (active.length === 1) {
+    explanation.push(`'${active[0].username}' is the only active account.`);
+    return effective(active[0], "sole", project, explanation);
+  }
+  explanation.push(active.length === 0
+    ? "Every account is inactive."
+    : `Several active accounts and none decides: ${active.map((a) => a.username).join(", ")}. Set account_override or mark one default.`);
+  return { explanation };
+}
+
+/** The effective account alone; see `resolveGitHubAccount` for the reasoning. */
+export function effectiveGitHubAccount(config: HopConfig, project?: Project): EffectiveAccount | undefined {
+  return resolveGitHubAccount(config, project).effective;
+}
@@ -0,0 +1,112 @@
+/**
+ * Which registered project a directory belongs to.
+ *
+ * Agents start in some working directory and need to know which hop.json
+ * entry that is — to pick a bundle, a system, or the account to push with.
+ * Every project path, branch checkout (`branch_checkouts`) and infra repo
+ * clone is a candidate root; the deepest one containing the directory wins,
+ * so a checkout nested inside its project's tree, or a project inside
+ * `agent_root`, resolves to the inner one.
+ *
+ * Paths are compared as written after `path.resolve`. If that finds nothing
+ * and the directory exists, its realpath is tried too, so a shell sitting in a
+ * symlinked tree still resolves to the project registered under the real one.
+ */
+
+import { existsSync, realpathSync } from "node:fs";
+import { isAbsolute, relative, resolve } from "node:path";
+import type { Bundle, HopConfig, InfraRepoEntry, Project } from "./types.js";
+import { normalizeInfraRepo, resolveInfraRepoPath } from "./helpers.js";
+import { effectiveGitHubAccount, type EffectiveAccount } from "./accounts.js";
+
+export type PathMatchKind = "project" | "branch_checkout" | "infra_repo";
+
+export interface PathMatch {
+  kind: PathMatchKind;
+  /** Project name, or infra repo name. */
+  name: string;
+  /** The registered directory that contains the path. */
+  root: string;
+  /** The path relative to `root`; "" at the root itself. */
+  relative: string;
+  /** The project, for projects and their branch checkouts. */
+  project?: Project;
+  /** The branch, for a branch checkout. */
+  branch?: string;
+  infraRepo?: InfraRepoEntry;
+  system?: string;
+  /** Bundles that list the project. Empty for infra repos. */
+  bundles: Bundle[];
+  /** The project's GitHub account. Absent for infra repos, which are read-only clones. */
+  account?: EffectiveAccount;
+}
+
+interface Root {
+  dir: string;
+  kind: PathMatchKind;
+  name: string;
+  project?: Project;
+  branch?: string;
+  infraRepo?: InfraRepoEntry;
+}
+
+function roots(config: HopConfig): Root[] {
+  const out: Root[] = [];
+  for (const project of config.projects ?? []) {
+    if (project.path) out.push({ dir: resolve(project.path), kind: "project", name: project.name, project });
+    for (const [branch, dir] of Object.entries(project.branch_checkouts ?? {})) {
+      out.push({ dir: resolve(dir), kind: "branch_checkout", name: project.name, project, branch });
+    }
+  }
+  for (const entry of config.infra_repos?.repos ?? []) {
+    const infraRepo = normalizeInfraRepo(entry);
+    const dir = resolveInfraRepoPath(config, infraRepo.name);
+    if (dir) out.push({ dir: resolve(dir), kind: "infra_repo", name: infraRepo.name, infraRepo });
+  }
+  return out;
+}
+
+/** `dir` relative to `root`, or undefined when `dir` is outside it. */
+function within(root: string, dir: string): string | undefined {
+  const rel = relative(root, dir);
+  if (rel === "") return "";
+  if (rel.startsWith("..") || isAbsolute(rel)) return undefined;
+  return rel;
+}
+
+/**
+ * The deepest project, branch checkout or infra repo containing `dir`, with
+ * its bundles, system and effective account. Undefined when `dir` is outside
+ * all of them.
+ */
+export function projectForPath(config: HopConfig, dir: string): PathMatch | undefined {
+  const candidates = roots(config);
+  const deepest = (target: string) => {
+    let best: { root: Root; rel: string } | undefined;
+    for (const root of candidates) {
+      const rel = within(root.dir, target);
+      if (rel === undefined) continue;
+      if (!best || root.dir.length > best.root.dir.length) best = { root, rel };
+    }
+    return best;
+  };
+  const best = deepest(resolve(dir)) ?? (existsSync(dir) ? deepest(realpathSync(dir)) : undefined);
+  if (!best) return undefined;
+
+  const { root, rel } = best;
+  const { project, infraRepo } = root;
+  const system = project?.system ?? infraRepo?.system;
+  const account = project && effectiveGitHubAccount(config, project);
+  return {
+    kind: root.kind,
+    name: root.name,
+    root: root.dir,
+    relative: rel,
+    ...(project ? { project } : {}),
+    ...(root.branch ? { branch: root.branch } : {}),
+    ...(infraRepo ? { infraRepo } : {}),
+    ...(system ? { system } : {}),
+    bundles: project ? (config.bundles ?? []).filter((b) => b.projects.includes(project.name)) : [],
+    ...(account ? { account } : {}),
+  };
+}
@@ -13,6 +13,8 @@ import { readFileSync, existsSync, mkdirSync, writeFileSync } from "node:fs";
 import { resolve, dirname, join } from "node:path";
 import { homedir } from "node:os";
 import type { HopConfig } from "./types.js";
+import { resolveHopConfig, locate, formatLocation, type ResolvedHopConfig } from "./extends.js";
+import { editJsonFile } from "./edit.js";
 
 const HOP_FILENAME = "hop.json";
 
@@ -70,6 +72,23 @@ function readPointerConfig(): HopPointerConfig | null {
   }
 }
 
+/**
+ * Set one key in a small JSON settings file. An existing, readable file is
+ * edited in place so any other keys and the user's formatting survive; a
+ * missing or unreadable one is written fresh.
+ */
+function writeSettingKey(filePath: string, key: string, value: string): void {
+  if (existsSync(filePath)) {
+    try {
+      editJsonFile(filePath, [{ op: "set", pointer: `/${key}`, value }]);
+      return;
+    } catch {
+      // Not a JSON object we can edit — fall through and replace it.
+    }
+  }
+  writeFileSync(filePath, JSON.stringify({ [key]: value }, null, 2) + "\n", "utf-8");
+}
+
 /**
  * Write ~/.hop/settings.json to pin the hop.json location.
  * Also writes legacy config.json for backwards compatibility.
@@ -81,50 +100,66 @@ export function setConfigPath(hopJsonPath: string): string {
   }
   ensureHopDir();
   // Write authoritative settings.json
-  writeFileSync(
-    HOP_SETTINGS_PATH,
-    JSON.stringify({ hop_config: resolved }, null, 2) + "\n",
-    "utf-8"
-  );
+  writeSettingKey(HOP_SETTINGS_PATH, "hop_config", resolved);
   // Write legacy config.json for backwards compatibility
-  writeFileSync(
-    HOP_POINTER_CONFIG,
-    JSON.stringify({ hop_config_path: resolved }, null, 2) + "\n",
-    "utf-8"
-  );
+  writeSettingKey(HOP_POINTER_CONFIG, "hop_config_path", resolved);
   return resolved;
 }
 
-export function discoverHopPath(startDir?: string): string | null {
+/** Which step of the resolution order found a hop.json. */
+export type DiscoveryStep = "settings" | "env" | "default" | "pointer" | "walk-up" | "legacy";
+
+export interface DiscoveryCandidate {
+  step: DiscoveryStep;
+  path: string;
+  /** Human-readable account of how this step found the file. */
+  via: string;
+}
+
+/**
+ * Every hop.json the resolution order can see, highest priority first.
+ *
+ * The first entry is what discoverHopPath selects; the rest are shadowed by
+ * it. Listing them all is what lets `hop config explain` answer "why not that
+ * one?". A file reachable by more than one step is listed once, under the
+ * step that reaches it first.
+ */
+export function discoverHopCandidates(startDir?: string): DiscoveryCandidate[] {
+  const candidates: DiscoveryCandidate[] = [];
+  const add = (step: DiscoveryStep, path: string, via: string) => {
+    if (!candidates.some((c) => c.path === path)) candidates.push({ step, path, via });
+  };
+
   // 1. ~/.hop/settings.json (authoritative pointer — always checked first)
   const settings = readSettings();
   if (settings?.hop_config && existsSync(settings.hop_config)) {
-    return resolve(settings.hop_config);
+    add("settings", resolve(settings.hop_config), "pinned by ~/.hop/settings.json");
   }
 
   // 2. HOP_CONFIG_PATH environment variable (CI/tests/scripts override)
   const envPath = process.env.HOP_CONFIG_PATH;
   if (envPath && existsSync(envPath)) {
-    return resolve(envPath);
+    add("env", resolve(envPath), "$HOP_CONFIG_PATH");
   }
 
   // 3. ~/.hop/hop.json (the default home, created by `hop init`)
   if (existsSync(HOP_DEFAULT_PATH)) {
-    return HOP_DEFAULT_PATH;
+    add("default", HOP_DEFAULT_PATH, "default home ~/.hop/hop.json");
   }
 
   // 3b. Legacy ~/.hop/config.json pointer (backwards compat)
   const pointer = readPointerConfig();
   if (pointer?.hop_config_path && existsSync(pointer.hop_config_path)) {
-    return resolve(pointer.hop_config_path);
+    add("pointer", resolve(pointer.hop_config_path), "pinned by legacy ~/.hop/config.json");
   }
 
   // 4. Walk up from startDir or cwd (project-level override)
-  let dir = startDir ? resolve(startDir) : process.cwd();
+  const start = startDir ? resolve(startDir) : process.cwd();
+  let dir = start;
   while (true) {
     const candidate = join(dir, HOP_FILENAME);
     if (existsSync(candidate)) {
-      return candidate;
+      add("walk-up", candidate, `walking up from ${start}`);
     }
     const parent = dirname(dir);
     if (parent === dir) break;
@@ -138,29 +173,49 @@ export function discoverHopPath(startDir?: string): string | null {
   ];
   for (const p of legacyPaths) {
     if (existsSync(p)) {
-      return resolve(p);
+      add("legacy", resolve(p), "legacy location");
     }
   }
 
-  return null;
+  return candidates;
 }
 
-export function loadHopConfig(filePath: string): HopConfig {
-  const raw = readFileSync(filePath, "utf-8");
-  const config: HopConfig = JSON.parse(raw);
+export function discoverHopPath(startDir?: string): string | null {
+  return discoverHopCandidates(startDir)[0]?.path ?? null;
+}
+
+/**
+ * Load a hop.json with its `extends` chain resolved, keeping track of which
+ * file supplied each value. Required fields are checked on the merged result.
+ * Errors are prefixed with the `file:line:column` they concern.
+ */
+export function loadResolvedHopConfig(filePath: string): ResolvedHopConfig {
+  const resolved = resolveHopConfig(filePath);
+  const config = resolved.config;
+  const at = (pointer: string) => {
+    const location = locate(resolved, pointer);
+    return location ? `${formatLocation(location)}: ` : "";
+  };
 
   if (!config.schema_version) {
-    throw new Error("hop.json missing required field: schema_version");
+    throw new Error(`${at("/schema_version")}hop.json missing required field: schema_version`);
   }
   if (!config.machine?.id || !config.machine?.name) {
-    throw new Error("hop.json missing required fields: machine.id and machine.name");
+    throw new Error(`${at("/machine/id")}hop.json missing required fields: machine.id and machine.name`);
   }
 
-  return config;
+  return resolved;
+}
+
+export function loadHopConfig(filePath: string): HopConfig {
+  return loadResolvedHopConfig(filePath).config;
 }
 
-export function discoverAndLoad(startDir?: string): { config: HopConfig; path: string } | null {
+export function discoverAndLoad(
+  startDir?: string
+): { config: HopConfig; path: string; resolved: ResolvedHopConfig } | null {
   const hopPath = discoverHopPath(startDir);
   if (!hopPath) return null;
-  return { config: loadHopConfig(hopPath), path: hopPath };
+  const resolved = loadResolvedHopConfig(hopPath);
+  return { config: resolved.config, path: hopPath, resolved };
 }
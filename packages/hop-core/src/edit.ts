@@ -0,0 +1,267 @@
+/**
+ * Format-preserving JSON editing.
+ *
+ * Rewriting a hand-maintained hop.json through `JSON.stringify` loses key
+ * order, spacing, blank lines between sections, and inline entries someone
+ * grouped on purpose. These edits instead splice text at the exact spans the
+ * change touches — everything else survives byte-for-byte. New content copies
+ * the style of its surroundings: members of a multi-line object go on their
+ * own line at the sibling indentation; members of an inline object stay
+ * inline.
+ *
+ * Edits are applied in order, each against the result of the last, so
+ * pointers in later edits see earlier ones (remove `/projects/3` and the
+ * former `/projects/4` is now `/projects/3`).
+ */
+
+import { chmodSync, readFileSync, realpathSync, renameSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { parseJsonSource, type JsonNode, type JsonSource } from "./json-source.js";
+import { parsePointer, formatPointer } from "./pointer.js";
+
+export type JsonEdit =
+  /** Replace the value at `pointer`, or add it as a new object member or array append. */
+  | { op: "set"; pointer: string; value: unknown }
+  /** Insert before an array index (`-` appends), or add a member that must not exist yet. */
+  | { op: "insert"; pointer: string; value: unknown }
+  /** Remove an object member or array element, with one adjoining separator. */
+  | { op: "remove"; pointer: string }
+  /** Rename the object member at `pointer` in place, keeping its position. */
+  | { op: "rename"; pointer: string; key: string };
+
+/** An edit that cannot be applied to the document as it stands. */
+export class JsonEditError extends Error {
+  constructor(message: string, public readonly edit: JsonEdit) {
+    super(message);
+    this.name = "JsonEditError";
+  }
+}
+
+interface Splice {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Whitespace from the start of the line holding `offset` up to it, if that is all there is. */
+function indentBefore(text: string, offset: number): string | undefined {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  const lead = text.slice(lineStart, offset);
+  return /^[ \t]*$/.test(lead) ? lead : undefined;
+}
+
+/** Indentation of the line holding `offset`, whatever follows it. */
+function lineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))![0];
+}
+
+/** The file's indent unit, from its first indented line. Two spaces if none. */
+function indentUnit(text: string): string {
+  return /\n([ \t]+)\S/.exec(text)?.[1] ?? "  ";
+}
+
+/** Single-line JSON in the spaced style hand-written files use: `{ "a": [1, 2] }`. */
+function inlineJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(inlineJson).join(", ")}]`;
+  if (typeof value === "object" && value !== null) {
+    const members = Object.entries(value).map(([k, v]) => `${JSON.stringify(k)}: ${inlineJson(v)}`);
+    return members.length ? `{ ${members.join(", ")} }` : "{}";
+  }
+  const json = JSON.stringify(value);
+  if (json === undefined) throw new Error(`Cannot write ${String(value)} as JSON`);
+  return json;
+}
+
+/** Multi-line JSON whose continuation lines sit at `indent`. */
+function blockJson(value: unknown, indent: string, unit: string): string {
+  if (typeof value !== "object" || value === null) return inlineJson(value);
+  return JSON.stringify(value, null, unit).replace(/\n/g, `\n${indent}`);
+}
+
+function isMultiline(text: string, node: JsonNode): boolean {
+  return text.slice(node.start, node.end).includes("\n");
+}
+
+/** The offset an entry starts at: its key for object members, its value otherwise. */
+function entryStart(node: JsonNode): number {
+  return node.key?.start ?? node.start;
+}
+
+function renderEntry(key: string | undefined, rendered: string): string {
+  return key === undefined ? rendered : `${JSON.stringify(key)}: ${rendered}`;
+}
+
+/**
+ * Add an entry to a container: before child `index`, or at the end when
+ * `index` equals the child count.
+ */
+function addEntry(source: JsonSource, container: JsonNode, index: number, key: string | undefined, value: unknown): Splice {
+  const { text } = source;
+  const children = (container.children ?? []).map((p) => source.nodes.get(p)!);
+  const unit = indentUnit(text);
+
+  if (children.length === 0) {
+    const open = text[container.start];
+    const close = text[container.end - 1];
+    const expand = text.includes("\n") && typeof value === "object" && value !== null &&
+      Object.keys(value).length > 0;
+    if (expand) {
+      const outer = lineIndent(text, container.start);
+      const inner = outer + unit;
+      const entry = renderEntry(key, blockJson(value, inner, unit));
+      return { start: container.start, end: container.end, text: `${open}\n${inner}${entry}\n${outer}${close}` };
+    }
+    return {
+      start: container.start,
+      end: container.end,
+      text: container.type === "object" ? `{ ${renderEntry(key, inlineJson(value))} }` : `[${inlineJson(value)}]`,
+    };
+  }
+
+  // Multi-line containers get the new entry on its own line at the siblings'
+  // indentation; inline ones keep it inline.
+  const anchor = children[Math.min(index, children.length - 1)];
+  const indent = isMultiline(text, container) ? indentBefore(text, entryStart(anchor)) : undefined;
+  const rendered = indent !== undefined ? blockJson(value, indent, unit) : inlineJson(value);
+  const entry = renderEntry(key, rendered);
+
+  if (index >= children.length) {
+    const last = children[children.length - 1];
+    return { start: last.end, end: last.end, text: indent !== undefined ? `,\n${indent}${entry}` : `, ${entry}` };
+  }
+  const at = entryStart(children[index]);
+  return { start: at, end: at, text: indent !== undefined ? `${entry},\n${indent}` : `${entry}, ` };
+}
+
+/** Remove a child with one adjoining separator. */
+function removeEntry(source: JsonSource, container: JsonNode, pointer: string): Splice {
+  const { text } = source;
+  const siblings = container.children!.map((p) => source.nodes.get(p)!);
+  const i = container.children!.indexOf(pointer);
+  const node = siblings[i];
+
+  if (siblings.length === 1) {
+    // Keep the brackets where they are; drop everything between them.
+    return { start: container.start + 1, end: container.end - 1, text: "" };
+  }
+  if (i > 0) {
+    return { start: siblings[i - 1].end, end: node.end, text: "" };
+  }
+  return { start: entryStart(node), end: entryStart(siblings[1]), text: "" };
+}
+
+/** Render a replacement value in the style of the value it replaces. */
+function replaceValue(source: JsonSource, node: JsonNode, value: unknown): Splice {
+  const { text } = source;
+  const multiline = isMultiline(text, node) ||
+    (node.type !== "object" && node.type !== "array" && typeof value === "object" && value !== null &&
+      text.includes("\n") && indentBefore(text, entryStart(node)) !== undefined);
+  const rendered = multiline
+    ? blockJson(value, lineIndent(text, node.start), indentUnit(text))
+    : inlineJson(value);
+  return { start: node.start, end: node.end, text: rendered };
+}
+
+function isIndex(segment: string): boolean {
+  return /^(0|[1-9][0-9]*)$/.test(segment);
+}
+
+function spliceFor(source: JsonSource, edit: JsonEdit): Splice {
+  const segments = parsePointer(edit.pointer);
+  const node = source.nodes.get(edit.pointer);
+  const fail = (message: string): never => {
+    throw new JsonEditError(`Cannot ${edit.op} ${edit.pointer || '""'}: ${message}`, edit);
+  };
+
+  // Edits change members of the document, never the whole of it
+  if (segments.length === 0) fail("the document root cannot be edited");
+
+  const last = segments[segments.length - 1];
+  const parentPointer = formatPointer(segments.slice(0, -1));
+  const parent = source.nodes.get(parentPointer);
+  if (!parent) fail(`${parentPointer || "the root"} does not exist`);
+  if (parent!.type !== "object" && parent!.type !== "array") fail(`${parentPointer} is not an object or array`);
+  const childCount = parent!.children!.length;
+
+  switch (edit.op) {
+    case "set":
+      if (node) return replaceValue(source, node, edit.value);
+      if (parent!.type === "object") return addEntry(source, parent!, childCount, last, edit.value);
+      if (last === "-" || last === String(childCount)) return addEntry(source, parent!, childCount, undefined, edit.value);
+      return fail(`index ${last} is out of range`);
+
+    case "insert":
+      if (parent!.type === "object") {
+        if (node) fail("member already exists");
+        return addEntry(source, parent!, childCount, last, edit.value);
+      }
+      if (last === "-") return addEntry(source, parent!, childCount, undefined, edit.value);
+      if (!isIndex(last) || Number(last) > childCount) fail(`index ${last} is out of range`);
+      return addEntry(source, parent!, Number(last), undefined, edit.value);
+
+    case "remove":
+      if (!node) fail("nothing there to remove");
+      return removeEntry(source, parent!, node!.pointer);
+
+    case "rename": {
+      if (parent!.type !== "object" || !node) fail("not an object member");
+      const target = formatPointer([...segments.slice(0, -1), edit.key]);
+      if (target !== node!.pointer && source.nodes.has(target)) fail(`"${edit.key}" already exists`);
+      return { start: node!.key!.start, end: node!.key!.end, text: JSON.stringify(edit.key) };
+    }
+  }
+}
+
+/**
+ * Apply edits to JSON text, changing only the spans they touch. Throws
+ * JsonSyntaxError if `text` is not valid JSON and JsonEditError if an edit
+ * does not fit the document.
+ */
+export function applyJsonEdits(text: string, edits: JsonEdit[]): string {
+  let out = text;
+  for (const edit of edits) {
+    const source = parseJsonSource(out);
+    const s = spliceFor(source, edit);
+    out = out.slice(0, s.start) + s.text + out.slice(s.end);
+  }
+  return out;
+}
+
+/**
+ * Read a JSON file, apply edits, and write it back. Returns the text before
+ * and after so callers can diff or report. Nothing is written when the edits
+ * change nothing.
+ */
+export function editJsonFile(filePath: string, edits: JsonEdit[]): { before: string; after: string } {
+  const before = readFileSync(filePath, "utf-8");
+  const after = applyJsonEdits(before, edits);
+  if (after !== before) writeFileSync(filePath, after, "utf-8");
+  return { before, after };
+}
+
+/**
+ * Replace one file in a single step: write a temp file beside it, then rename
+ * it over the original, so a reader sees the old text or the new, never half
+ * of it. A symlinked file (a dotfiles checkout, say) is written through to
+ * its target and stays a link; the original's mode carries over. Each file is
+ * replaced on its own — writing several is not atomic as a whole.
+ */
+export function writeFileAtomically(file: string, text: string): void {
+  let target = file;
+  let mode: number | undefined;
+  try {
+    target = realpathSync(file);
+    mode = statSync(target).mode & 0o7777;
+  } catch {
+    // A new file: nothing to follow, and the default mode
+  }
+  const tmp = `${target}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tmp, text, "utf-8");
+    if (mode !== undefined) chmodSync(tmp, mode);
+    renameSync(tmp, target);
+  } catch (err) {
+    rmSync(tmp, { force: true });
+    throw err;
+  }
+}
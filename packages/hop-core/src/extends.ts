@@ -0,0 +1,330 @@
+/**
+ * `extends` resolution — tsconfig-style inheritance between hop.json files.
+ *
+ * Implements Option A of research/extends-proposal.md. A file may name one or
+ * more base files; bases are merged in order (later wins) and the extending
+ * file is merged last. Merge rules follow the proposal's table:
+ *
+ * - Arrays of named entries merge by their key — `projects` by name, `bundles`
+ *   by id, `accounts.<service>` by username, `harnesses` and `runtimes` by
+ *   name. A matched entry is deep-merged; an unmatched one is appended.
+ * - Plain objects deep-merge.
+ * - Scalars and every other array are replaced outright by the later file.
+ *
+ * Alongside the merged config, every leaf value is tagged with the file that
+ * supplied it and its pointer within that file, so tooling can answer "where
+ * did this come from" without re-running the merge.
+ */
+
+import { readFileSync, existsSync } from "node:fs";
+import { resolve, dirname, relative, isAbsolute } from "node:path";
+import type { HopConfig } from "./types.js";
+import { pointerSegment, parsePointer, formatPointer } from "./pointer.js";
+import { parseJsonSource, locatePointer, JsonSyntaxError, type JsonSource } from "./json-source.js";
+
+/** Deepest chain of `extends` followed before giving up. */
+const MAX_EXTENDS_DEPTH = 5;
+
+/** Where a merged value was written: a file, and its pointer in that file. */
+export interface SourceRef {
+  file: string;
+  /** Differs from the merged pointer when keyed arrays merged at other indices. */
+  pointer: string;
+}
+
+export interface ResolvedHopConfig {
+  /** The effective config, with `extends` itself removed. */
+  config: HopConfig;
+  /** Every file that contributed, in merge order — bases first, the loaded file last. */
+  files: string[];
+  /**
+   * Leaf JSON pointer → where its effective value was written. Leaves are
+   * scalars and empty containers; look up a container with `sourcesOf` or
+   * `originOf`.
+   */
+  sources: Map<string, SourceRef>;
+  /** Each contributing file as parsed, for mapping pointers to line and column. */
+  documents: Map<string, JsonSource>;
+}
+
+/** A position in a file, as editors and compilers print it. */
+export interface SourceLocation {
+  file: string;
+  /** 1-based. */
+  line: number;
+  /** 1-based. */
+  column: number;
+}
+
+type Sources = Map<string, SourceRef>;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** The identifying key for arrays that merge entry-by-entry, if `pointer` is one. */
+function mergeKeyFor(pointer: string): string | undefined {
+  switch (pointer) {
+    case "/projects":
+    case "/harnesses":
+    case "/runtimes":
+      return "name";
+    case "/bundles":
+      return "id";
+  }
+  return /^\/accounts\/[^/]+$/.test(pointer) ? "username" : undefined;
+}
+
+/** Record every leaf under `value` as coming from `file`. */
+function tagLeaves(value: unknown, pointer: string, file: string, out: Sources): void {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((v, i) => tagLeaves(v, `${pointer}/${i}`, file, out));
+  } else if (isObject(value) && Object.keys(value).length > 0) {
+    for (const [k, v] of Object.entries(value)) {
+      tagLeaves(v, `${pointer}/${pointerSegment(k)}`, file, out);
+    }
+  } else {
+    out.set(pointer, { file, pointer });
+  }
+}
+
+function isUnder(key: string, pointer: string): boolean {
+  return key === pointer || key.startsWith(`${pointer}/`);
+}
+
+/** Drop every source entry at or below `pointer`. */
+function clearSources(sources: Sources, pointer: string): void {
+  for (const key of [...sources.keys()]) {
+    if (isUnder(key, pointer)) sources.delete(key);
+  }
+}
+
+/** Copy source entries at or below `from` in one map to `to` in another. */
+function copySources(from: Sources, fromPointer: string, to: Sources, toPointer: string): void {
+  for (const [key, ref] of from) {
+    if (isUnder(key, fromPointer)) {
+      to.set(toPointer + key.slice(fromPointer.length), ref);
+    }
+  }
+}
+
+/**
+ * Merge `over` onto `base` at `pointer`, updating `sources` (which describes
+ * `base`) from `overSources` (which describes `over`). Returns the merged value;
+ * `base` is not mutated.
+ */
+function mergeValue(
+  base: unknown,
+  over: unknown,
+  pointer: string,
+  overPointer: string,
+  sources: Sources,
+  overSources: Sources
+): unknown {
+  const key = mergeKeyFor(pointer);
+  if (key && Array.isArray(base) && Array.isArray(over)) {
+    const merged = [...base];
+    if (over.length > 0) sources.delete(pointer);
+    over.forEach((entry, j) => {
+      const id = isObject(entry) ? entry[key] : undefined;
+      const i = id === undefined ? -1 : merged.findIndex((e) => isObject(e) && e[key] === id);
+      if (i >= 0) {
+        merged[i] = mergeValue(merged[i], entry, `${pointer}/${i}`, `${overPointer}/${j}`, sources, overSources);
+      } else {
+        copySources(overSources, `${overPointer}/${j}`, sources, `${pointer}/${merged.length}`);
+        merged.push(entry);
+      }
+    });
+    return merged;
+  }
+
+  if (isObject(base) && isObject(over)) {
+    // An empty base object was a leaf; it stops being one once keys arrive.
+    if (Object.keys(over).length > 0) sources.delete(pointer);
+    const merged: Record<string, unknown> = { ...base };
+    for (const [k, v] of Object.entries(over)) {
+      const seg = pointerSegment(k);
+      merged[k] = k in base
+        ? mergeValue(base[k], v, `${pointer}/${seg}`, `${overPointer}/${seg}`, sources, overSources)
+        : v;
+      if (!(k in base)) copySources(overSources, `${overPointer}/${seg}`, sources, `${pointer}/${seg}`);
+    }
+    return merged;
+  }
+
+  clearSources(sources, pointer);
+  copySources(overSources, overPointer, sources, pointer);
+  return over;
+}
+
+function readJsonFile(filePath: string, contents?: Map<string, string>): JsonSource {
+  let source: JsonSource;
+  try {
+    source = parseJsonSource(contents?.get(filePath) ?? readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    if (err instanceof JsonSyntaxError) {
+      throw new Error(`${filePath}:${err.line}:${err.column}: ${err.reason}`);
+    }
+    throw err;
+  }
+  if (!isObject(source.value)) {
+    throw new Error(`${filePath} must contain a JSON object`);
+  }
+  return source;
+}
+
+/** Normalize the `extends` field to absolute paths, relative to the extending file. */
+function extendsTargets(doc: Record<string, unknown>, filePath: string): string[] {
+  const raw = doc.extends;
+  if (raw === undefined) return [];
+  const list = Array.isArray(raw) ? raw : [raw];
+  return list.map((target) => {
+    if (typeof target !== "string") {
+      throw new Error(`${filePath}: "extends" must be a string or an array of strings`);
+    }
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(target)) {
+      throw new Error(`${filePath}: remote extends targets are not supported: "${target}"`);
+    }
+    const resolved = resolve(dirname(filePath), target);
+    if (!existsSync(resolved)) {
+      throw new Error(`${filePath}: extends target not found: "${target}" (resolved to ${resolved})`);
+    }
+    return resolved;
+  });
+}
+
+interface Layer {
+  doc: Record<string, unknown>;
+  files: string[];
+  sources: Sources;
+}
+
+function resolveLayer(
+  filePath: string,
+  chain: string[],
+  documents: Map<string, JsonSource>,
+  contents?: Map<string, string>
+): Layer {
+  if (chain.includes(filePath)) {
+    throw new Error(`Circular extends: ${[...chain, filePath].join(" → ")}`);
+  }
+  if (chain.length > MAX_EXTENDS_DEPTH) {
+    throw new Error(`extends chain deeper than ${MAX_EXTENDS_DEPTH}: ${[...chain, filePath].join(" → ")}`);
+  }
+
+  const source = readJsonFile(filePath, contents);
+  documents.set(filePath, source);
+  const own = source.value as Record<string, unknown>;
+  const { extends: _extends, ...body } = own;
+  const ownSources: Sources = new Map();
+  tagLeaves(body, "", filePath, ownSources);
+
+  let acc: Layer = { doc: {}, files: [], sources: new Map() };
+  for (const parent of extendsTargets(own, filePath)) {
+    const layer = resolveLayer(parent, [...chain, filePath], documents, contents);
+    acc = {
+      doc: mergeValue(acc.doc, layer.doc, "", "", acc.sources, layer.sources) as Record<string, unknown>,
+      files: [...acc.files, ...layer.files.filter((f) => !acc.files.includes(f))],
+      sources: acc.sources,
+    };
+  }
+
+  return {
+    doc: mergeValue(acc.doc, body, "", "", acc.sources, ownSources) as Record<string, unknown>,
+    files: [...acc.files, filePath],
+    sources: acc.sources,
+  };
+}
+
+/**
+ * Read a hop.json and everything it extends, returning the merged config and
+ * where each value came from. Throws on unreadable files, invalid JSON,
+ * circular or over-deep chains, and remote targets. Syntax errors are reported
+ * as `file:line:column: reason`.
+ *
+ * Required-field checks are deliberately left to the caller: a base file is
+ * allowed to omit `machine`, and only the merged result has to be complete.
+ *
+ * `contents` supplies text to use in place of what is on disk, keyed by
+ * absolute path — for checking an edit before it is written.
+ */
+export function resolveHopConfig(filePath: string, contents?: Map<string, string>): ResolvedHopConfig {
+  const documents = new Map<string, JsonSource>();
+  const layer = resolveLayer(resolve(filePath), [], documents, contents);
+  return {
+    config: layer.doc as HopConfig,
+    files: layer.files,
+    sources: layer.sources,
+    documents,
+  };
+}
+
+/**
+ * Files that supplied the value at `pointer`: one for a leaf, possibly several
+ * for an object or array assembled from more than one file. Empty when the
+ * pointer does not exist in the merged config.
+ */
+export function sourcesOf(resolved: ResolvedHopConfig, pointer: string): string[] {
+  const files: string[] = [];
+  for (const [key, { file }] of resolved.sources) {
+    if (isUnder(key, pointer)) {
+      if (!files.includes(file)) files.push(file);
+    }
+  }
+  // Report in merge order rather than discovery order.
+  return resolved.files.filter((f) => files.includes(f));
+}
+
+/**
+ * Where the value at a merged `pointer` was written, for pointing a user at
+ * the line to edit. A container assembled from several files is attributed
+ * to the latest file in merge order — the one closest to the user. Undefined
+ * when the pointer does not exist in the merged config.
+ */
+export function originOf(resolved: ResolvedHopConfig, pointer: string): SourceRef | undefined {
+  const depth = parsePointer(pointer).length;
+  let best: SourceRef | undefined;
+  let bestRank = -1;
+  for (const [key, ref] of resolved.sources) {
+    if (!isUnder(key, pointer)) continue;
+    const rank = resolved.files.indexOf(ref.file);
+    if (rank <= bestRank) continue;
+    // Trim the leaf's own pointer back up to the container's depth.
+    const below = parsePointer(key).length - depth;
+    const segments = parsePointer(ref.pointer);
+    best = { file: ref.file, pointer: formatPointer(segments.slice(0, segments.length - below)) };
+    bestRank = rank;
+  }
+  return best;
+}
+
+/**
+ * Line and column of the value at a merged `pointer`, in the file that wrote
+ * it. A pointer that does not exist — a missing required property, say — is
+ * located at its nearest existing ancestor. Undefined only for an empty chain.
+ */
+export function locate(resolved: ResolvedHopConfig, pointer: string): SourceLocation | undefined {
+  const segments = parsePointer(pointer);
+  for (let n = segments.length; n >= 0; n--) {
+    const origin = originOf(resolved, formatPointer(segments.slice(0, n)));
+    const source = origin && resolved.documents.get(origin.file);
+    if (origin && source) {
+      const { line, column } = locatePointer(source, origin.pointer);
+      return { file: origin.file, line, column };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * `file:line:column`. With `cwd`, a file beneath it is shown relative to it,
+ * which is shorter and still clickable in most terminals.
+ */
+export function formatLocation(location: SourceLocation, cwd?: string): string {
+  let file = location.file;
+  if (cwd) {
+    const rel = relative(cwd, file);
+    if (rel && !rel.startsWith("..") && !isAbsolute(rel)) file = rel;
+  }
+  return `${file}:${location.line}:${location.column}`;
+}
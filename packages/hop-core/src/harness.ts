@@ -17,7 +17,7 @@
 
 import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
 import { basename, join } from "node:path";
-import type { Harness } from "@hop-org/hop-spec-core";
+import type { Harness } from "./types.js";
 
 export interface McpEntry {
   name: string;
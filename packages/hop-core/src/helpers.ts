@@ -2,8 +2,17 @@
  * Helper utilities for working with HOP config data.
  */
 
+import { homedir } from "node:os";
+import { join } from "node:path";
 import type { InfraRepoEntry, HopConfig, Project } from "./types.js";
 
+/**
+ * Expand a leading `~` or `~/` to the home directory, as a shell would.
+ */
+export function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
+}
+
 /**
  * Normalize an infra repo entry (string or object) to a full InfraRepoEntry.
  */
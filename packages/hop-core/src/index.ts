@@ -1,6 +1,8 @@
 export {
   discoverHopPath,
+  discoverHopCandidates,
   loadHopConfig,
+  loadResolvedHopConfig,
   discoverAndLoad,
   setConfigPath,
   ensureHopDir,
@@ -8,11 +10,52 @@ export {
   HOP_DEFAULT_PATH,
 } from "./discover.js";
 export {
+  expandHome,
   normalizeInfraRepo,
   infraRepoName,
   resolveInfraRepoPath,
   collectSystems,
 } from "./helpers.js";
+export { resolveHopConfig, sourcesOf, originOf, locate, formatLocation } from "./extends.js";
+export type { ResolvedHopConfig, SourceRef, SourceLocation } from "./extends.js";
+export { validateSemantics, validateEnvironment } from "./rules.js";
+export { pointerSegment, parsePointer, formatPointer, getAtPointer } from "./pointer.js";
+export { parseJsonSource, locatePointer, offsetPosition, JsonSyntaxError } from "./json-source.js";
+export { applyJsonEdits, editJsonFile, writeFileAtomically, JsonEditError } from "./edit.js";
+export type { JsonEdit } from "./edit.js";
+export { planProjectRename, renameProject } from "./rename.js";
+export {
+  resolveName,
+  resolveProject,
+  resolveBundle,
+  resolveSystem,
+  resolveInfraRepo,
+  resolveHarness,
+  resolveRuntime,
+  resolveService,
+  editDistance,
+} from "./resolve.js";
+export type { NameCandidate, NameResolution, NameMatchRule } from "./resolve.js";
+export { projectForPath } from "./current.js";
+export type { PathMatch, PathMatchKind } from "./current.js";
+export { observeHarness } from "./harness.js";
+export type { HarnessObservation, McpEntry, SkillDir } from "./harness.js";
+export { effectiveGitHubAccount, resolveGitHubAccount } from "./accounts.js";
+export type { AccountResolution, AccountSource, EffectiveAccount } from "./accounts.js";
+export {
+  collectSecretRefs,
+  createSecretProvider,
+  secretProviders,
+  resolveSecret,
+  checkSecrets,
+  DEFAULT_SECRET_PROVIDERS,
+  SecretProviderError,
+} from "./secrets.js";
+export type { SecretRef, SecretProvider, SecretLookup, SecretAttempt, SecretStatus } from "./secrets.js";
+export type { ProjectRename, ReferenceChange, ReferenceKind } from "./rename.js";
+export type { JsonSource, JsonNode, JsonNodeType, JsonPosition } from "./json-source.js";
+export type { Diagnostic, DiagnosticSeverity } from "./rules.js";
+export type { DiscoveryStep, DiscoveryCandidate } from "./discover.js";
 export type {
   HopConfig,
   Machine,
@@ -29,6 +72,9 @@ export type {
   ExtensionEntry,
   Services,
   Service,
+  Secrets,
+  SecretProviderConfig,
+  SecretRefKind,
   Harness,
   Runtime,
 } from "./types.js";
@@ -0,0 +1,267 @@
+/**
+ * Position-preserving JSON parsing.
+ *
+ * `JSON.parse` throws away where things were. Diagnostics want to say
+ * "hop.json:42:7" rather than "/projects/3", so this parser keeps an offset
+ * range for every node, addressed by JSON pointer. It accepts exactly what
+ * `JSON.parse` accepts and produces the same value.
+ */
+
+import { pointerSegment, parsePointer, formatPointer } from "./pointer.js";
+
+export type JsonNodeType = "object" | "array" | "string" | "number" | "boolean" | "null";
+
+export interface JsonNode {
+  pointer: string;
+  type: JsonNodeType;
+  /** Offset of the first character of the value. */
+  start: number;
+  /** Offset just past the last character of the value. */
+  end: number;
+  /** Offset range of the property name (quotes included), for object members. */
+  key?: { start: number; end: number };
+  /** Child pointers in document order, for objects and arrays. */
+  children?: string[];
+}
+
+export interface JsonSource {
+  text: string;
+  value: unknown;
+  nodes: Map<string, JsonNode>;
+  /** Offset at which each line begins; line N (1-based) starts at index N-1. */
+  lineStarts: number[];
+}
+
+export interface JsonPosition {
+  /** 1-based line. */
+  line: number;
+  /** 1-based column, in UTF-16 code units. */
+  column: number;
+}
+
+/** A JSON syntax error, with the position `JSON.parse` does not give. */
+export class JsonSyntaxError extends Error {
+  constructor(
+    /** What went wrong, without the position. */
+    public readonly reason: string,
+    public readonly offset: number,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${reason} at line ${line} column ${column}`);
+    this.name = "JsonSyntaxError";
+  }
+}
+
+function computeLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    if (c === 10) {
+      starts.push(i + 1);
+    } else if (c === 13) {
+      if (text.charCodeAt(i + 1) === 10) i++;
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function positionIn(lineStarts: number[], offset: number): JsonPosition {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t",
+};
+
+/**
+ * Parse JSON text, recording the position of every value. Throws
+ * JsonSyntaxError on malformed input.
+ */
+export function parseJsonSource(text: string): JsonSource {
+  const lineStarts = computeLineStarts(text);
+  const nodes = new Map<string, JsonNode>();
+  let pos = 0;
+
+  const fail = (message: string, at = pos): never => {
+    const { line, column } = positionIn(lineStarts, at);
+    throw new JsonSyntaxError(message, at, line, column);
+  };
+
+  const describe = (at: number) =>
+    at >= text.length ? "end of input" : `token ${JSON.stringify(text[at])}`;
+
+  const skipWhitespace = () => {
+    while (pos < text.length) {
+      const c = text[pos];
+      if (c === " " || c === "\t" || c === "\n" || c === "\r") pos++;
+      else break;
+    }
+  };
+
+  const parseString = (): string => {
+    const start = pos;
+    pos++; // opening quote
+    let out = "";
+    let chunk = pos;
+    while (true) {
+      if (pos >= text.length) fail("Unterminated string", start);
+      const c = text.charCodeAt(pos);
+      if (c === 34) break; // "
+      if (c < 0x20) fail("Control character in string");
+      if (c === 92) { // backslash
+        out += text.slice(chunk, pos);
+        const e = text[pos + 1];
+        if (e === "u") {
+          const hex = text.slice(pos + 2, pos + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail("Invalid unicode escape");
+          out += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+        } else if (e !== undefined && e in ESCAPES) {
+          out += ESCAPES[e];
+          pos += 2;
+        } else {
+          fail("Invalid escape sequence");
+        }
+        chunk = pos;
+        continue;
+      }
+      pos++;
+    }
+    out += text.slice(chunk, pos);
+    pos++; // closing quote
+    return out;
+  };
+
+  const NUMBER = /-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?/y;
+
+  const parseValue = (pointer: string): unknown => {
+    skipWhitespace();
+    const start = pos;
+    const c = text[pos];
+    let value: unknown;
+    let type: JsonNodeType;
+    let children: string[] | undefined;
+
+    if (c === "{") {
+      type = "object";
+      children = [];
+      const obj: Record<string, unknown> = {};
+      pos++;
+      skipWhitespace();
+      if (text[pos] === "}") {
+        pos++;
+      } else {
+        while (true) {
+          skipWhitespace();
+          if (text[pos] !== '"') fail(`Expected property name, found ${describe(pos)}`);
+          const keyStart = pos;
+          const key = parseString();
+          const keyEnd = pos;
+          skipWhitespace();
+          if (text[pos] !== ":") fail(`Expected ':' after property name, found ${describe(pos)}`);
+          pos++;
+          const child = `${pointer}/${pointerSegment(key)}`;
+          // A repeated key overrides the earlier one, as with JSON.parse.
+          const prior = children.indexOf(child);
+          if (prior >= 0) children.splice(prior, 1);
+          children.push(child);
+          const v = parseValue(child);
+          nodes.get(child)!.key = { start: keyStart, end: keyEnd };
+          if (key === "__proto__") {
+            Object.defineProperty(obj, key, { value: v, enumerable: true, writable: true, configurable: true });
+          } else {
+            obj[key] = v;
+          }
+          skipWhitespace();
+          if (text[pos] === ",") { pos++; continue; }
+          if (text[pos] === "}") { pos++; break; }
+          fail(`Expected ',' or '}' after property value, found ${describe(pos)}`);
+        }
+      }
+      value = obj;
+    } else if (c === "[") {
+      type = "array";
+      children = [];
+      const arr: unknown[] = [];
+      pos++;
+      skipWhitespace();
+      if (text[pos] === "]") {
+        pos++;
+      } else {
+        while (true) {
+          const child = `${pointer}/${arr.length}`;
+          children.push(child);
+          arr.push(parseValue(child));
+          skipWhitespace();
+          if (text[pos] === ",") { pos++; continue; }
+          if (text[pos] === "]") { pos++; break; }
+          fail(`Expected ',' or ']' after array element, found ${describe(pos)}`);
+        }
+      }
+      value = arr;
+    } else if (c === '"') {
+      type = "string";
+      value = parseString();
+    } else if (text.startsWith("true", pos)) {
+      type = "boolean";
+      value = true;
+      pos += 4;
+    } else if (text.startsWith("false", pos)) {
+      type = "boolean";
+      value = false;
+      pos += 5;
+    } else if (text.startsWith("null", pos)) {
+      type = "null";
+      value = null;
+      pos += 4;
+    } else {
+      NUMBER.lastIndex = pos;
+      const m = NUMBER.exec(text);
+      if (!m) fail(`Unexpected ${describe(pos)}`);
+      type = "number";
+      value = Number(m![0]);
+      pos += m![0].length;
+    }
+
+    nodes.set(pointer, { pointer, type, start, end: pos, ...(children ? { children } : {}) });
+    return value;
+  };
+
+  const value = parseValue("");
+  skipWhitespace();
+  if (pos < text.length) fail(`Unexpected ${describe(pos)} after JSON value`);
+
+  return { text, value, nodes, lineStarts };
+}
+
+/** Line and column of an offset in the parsed text. */
+export function offsetPosition(source: JsonSource, offset: number): JsonPosition {
+  return positionIn(source.lineStarts, offset);
+}
+
+/**
+ * Locate the node at `pointer`, falling back to its nearest existing
+ * ancestor — a "missing required property" error is best reported at the
+ * object that lacks it. For object members the position is the property name,
+ * which is where an editor should put the cursor.
+ */
+export function locatePointer(source: JsonSource, pointer: string): JsonPosition & { pointer: string } {
+  const segments = parsePointer(pointer);
+  for (let n = segments.length; n >= 0; n--) {
+    const p = formatPointer(segments.slice(0, n));
+    const node = source.nodes.get(p);
+    if (node) {
+      return { pointer: p, ...offsetPosition(source, node.key?.start ?? node.start) };
+    }
+  }
+  return { pointer: "", line: 1, column: 1 };
+}
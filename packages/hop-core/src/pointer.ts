@@ -0,0 +1,47 @@
+/**
+ * JSON pointer helpers (RFC 6901).
+ *
+ * Diagnostics, provenance, and `hop config explain` all address values by
+ * pointer, so the escaping rules live in one place.
+ */
+
+/** Escape a key for use as a JSON pointer segment. */
+export function pointerSegment(key: string | number): string {
+  return String(key).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Split a pointer into unescaped segments. `""` is the document root; `"/"`
+ * is the member whose key is `""`, as RFC 6901 has it.
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON pointer: "${pointer}" (must start with "/")`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((s) => s.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/** Join unescaped segments back into a pointer. */
+export function formatPointer(segments: (string | number)[]): string {
+  return segments.map((s) => `/${pointerSegment(s)}`).join("");
+}
+
+/** Look up the value at `pointer`, or `undefined` when any segment is missing. */
+export function getAtPointer(doc: unknown, pointer: string): unknown {
+  let node = doc;
+  for (const seg of parsePointer(pointer)) {
+    if (Array.isArray(node)) {
+      if (!/^(0|[1-9][0-9]*)$/.test(seg)) return undefined;
+      node = node[Number(seg)];
+    } else if (typeof node === "object" && node !== null && Object.hasOwn(node, seg)) {
+      node = (node as Record<string, unknown>)[seg];
+    } else {
+      return undefined;
+    }
+  }
+  return node;
+}
@@ -0,0 +1,141 @@
+/**
+ * Project rename with every reference updated in the same write.
+ *
+ * A project's name is its identity: bundles list it, a bundle may name it as
+ * primary, `cross_project.home_project` may point at it, and per-project
+ * extensions often repeat it (`basic-memory.project_name`). Renaming only the
+ * `name` field leaves all of those dangling without a word.
+ *
+ * Extension contents belong to their tools, so only the fields known to name
+ * the project (EXTENSION_NAME_FIELDS) are rewritten. Any other extension
+ * string equal to the old name — a `beads.prefix`, say — may only look like
+ * it; it is listed in `mentions` for a person to decide, and left as is.
+ *
+ * References are found in each file of the `extends` chain as written, not in
+ * the merged config: a base that lists the project in a bundle another file
+ * overrides is still renamed, so no file in the chain is left naming a
+ * project that no longer exists. Other strings that happen to match — a
+ * `system` with the same slug, say — are a different namespace and are left
+ * alone.
+ */
+
+import type { HopConfig } from "./types.js";
+import type { ResolvedHopConfig } from "./extends.js";
+import { applyJsonEdits, writeFileAtomically, type JsonEdit } from "./edit.js";
+import { formatPointer } from "./pointer.js";
+
+/** Same slug pattern the schema applies to project names. */
+const PROJECT_NAME = /^[a-z0-9][a-z0-9_-]*[a-z0-9]$|^[a-z0-9]$/;
+
+export type ReferenceKind = "name" | "bundle" | "primary" | "home" | "extension";
+
+/** One value rewritten by a rename. */
+export interface ReferenceChange {
+  kind: ReferenceKind;
+  file: string;
+  /** Pointer within `file`. */
+  pointer: string;
+}
+
+export interface ProjectRename {
+  from: string;
+  to: string;
+  changes: ReferenceChange[];
+  /** Other extension values equal to the old name, reported but not rewritten. */
+  mentions: ReferenceChange[];
+  /** Edits per file, ready for `applyJsonEdits`. */
+  edits: Map<string, JsonEdit[]>;
+}
+
+/** Extension fields that hold the project's name, by extension key. */
+const EXTENSION_NAME_FIELDS: Record<string, string[]> = {
+  "basic-memory": ["project_name"],
+  "agent-mail": ["project_key"],
+};
+
+/** Every string under `value` equal to `name`, as paths below `base`. */
+function matchingStrings(value: unknown, name: string, base: (string | number)[]): (string | number)[][] {
+  if (value === name) return [base];
+  if (Array.isArray(value)) return value.flatMap((v, i) => matchingStrings(v, name, [...base, i]));
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value).flatMap(([k, v]) => matchingStrings(v, name, [...base, k]));
+  }
+  return [];
+}
+
+/**
+ * References to `name` in one file's own content, and the extension values
+ * that equal it without being a known reference.
+ */
+function referencesIn(doc: HopConfig, name: string, file: string): { refs: ReferenceChange[]; mentions: ReferenceChange[] } {
+  const out: ReferenceChange[] = [];
+  const mentions: ReferenceChange[] = [];
+  const ref = (kind: ReferenceKind, pointer: string) => out.push({ kind, file, pointer });
+
+  (doc.projects ?? []).forEach((p, i) => {
+    if (p?.name !== name) return;
+    ref("name", `/projects/${i}/name`);
+    for (const path of matchingStrings(p.extensions, name, ["projects", i, "extensions"])) {
+      const [tool, field, ...deeper] = path.slice(3) as string[];
+      const pointer = formatPointer(path);
+      if (deeper.length === 0 && EXTENSION_NAME_FIELDS[tool]?.includes(field)) ref("extension", pointer);
+      else mentions.push({ kind: "extension", file, pointer });
+    }
+  });
+  (doc.bundles ?? []).forEach((b, i) => {
+    (b?.projects ?? []).forEach((p, j) => {
+      if (p === name) ref("bundle", `/bundles/${i}/projects/${j}`);
+    });
+    if (b?.primary_project === name) ref("primary", `/bundles/${i}/primary_project`);
+  });
+  if (doc.cross_project?.home_project === name) ref("home", "/cross_project/home_project");
+  return { refs: out, mentions };
+}
+
+/**
+ * Work out a rename without touching disk. Throws when `from` is not a
+ * project, `to` is already taken, or `to` is not a valid project name.
+ */
+export function planProjectRename(resolved: ResolvedHopConfig, from: string, to: string): ProjectRename {
+  const projects = resolved.config.projects ?? [];
+  if (!projects.some((p) => p.name === from)) {
+    throw new Error(`Project "${from}" not found`);
+  }
+  if (from === to) {
+    throw new Error(`Project is already named "${to}"`);
+  }
+  if (projects.some((p) => p.name === to)) {
+    throw new Error(`A project named "${to}" already exists`);
+  }
+  if (!PROJECT_NAME.test(to)) {
+    throw new Error(`Invalid project name "${to}": must be a lowercase slug (a-z, 0-9, hyphens, underscores)`);
+  }
+
+  const changes: ReferenceChange[] = [];
+  const mentions: ReferenceChange[] = [];
+  const edits = new Map<string, JsonEdit[]>();
+  for (const file of resolved.files) {
+    const { refs, mentions: found } = referencesIn(resolved.documents.get(file)!.value as HopConfig, from, file);
+    mentions.push(...found);
+    if (refs.length === 0) continue;
+    changes.push(...refs);
+    edits.set(file, refs.map((c) => ({ op: "set", pointer: c.pointer, value: to })));
+  }
+  return { from, to, changes, mentions, edits };
+}
+
+/**
+ * Rename a project and every reference to it, across the whole `extends`
+ * chain. Every file's new text is worked out before any is written, and each
+ * is replaced in one step, so a failure part-way never leaves a file half
+ * edited. Returns the plan that was applied.
+ */
+export function renameProject(resolved: ResolvedHopConfig, from: string, to: string): ProjectRename {
+  const plan = planProjectRename(resolved, from, to);
+  const texts = new Map<string, string>();
+  for (const [file, edits] of plan.edits) {
+    texts.set(file, applyJsonEdits(resolved.documents.get(file)!.text, edits));
+  }
+  for (const [file, text] of texts) writeFileAtomically(file, text);
+  return plan;
+}
@@ -0,0 +1,119 @@
+/**
+ * Name resolution for lookups by project, bundle, system, infra repo, harness,
+ * runtime or service name.
+ *
+ * Humans abbreviate and agents guess, so an exact-match-or-fail lookup turns
+ * most near misses into a dead end. `resolveName` tries progressively looser
+ * rules — exact, case-insensitive, prefix, path basename — and stops at the
+ * first that matches anything. One match resolves; several are returned as
+ * ambiguity candidates rather than silently picking one.
+ *
+ * Edit distance is only used for suggestions: a typo that happens to sit one
+ * letter away from a real name is reported as "did you mean", never resolved,
+ * since `hop path` output feeds scripts that should not act on a guess.
+ */
+
+import { basename } from "node:path";
+import type { HopConfig, Bundle, Harness, InfraRepoEntry, Project, Runtime, Service } from "./types.js";
+import { collectSystems, normalizeInfraRepo, resolveInfraRepoPath } from "./helpers.js";
+
+export type NameMatchRule = "exact" | "case-insensitive" | "prefix" | "basename";
+
+export interface NameCandidate<T> {
+  name: string;
+  /** Filesystem path, for matching by directory name. */
+  path?: string;
+  value: T;
+}
+
+export type NameResolution<T> =
+  | { status: "found"; match: NameCandidate<T>; rule: NameMatchRule }
+  | { status: "ambiguous"; rule: NameMatchRule; candidates: NameCandidate<T>[] }
+  | { status: "not_found"; suggestions: NameCandidate<T>[] };
+
+/** Levenshtein distance between two strings. */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const RULES: [NameMatchRule, (query: string, c: NameCandidate<unknown>) => boolean][] = [
+  ["exact", (q, c) => c.name === q],
+  ["case-insensitive", (q, c) => c.name.toLowerCase() === q.toLowerCase()],
+  ["prefix", (q, c) => c.name.toLowerCase().startsWith(q.toLowerCase())],
+  ["basename", (q, c) => !!c.path && basename(c.path).toLowerCase() === q.toLowerCase()],
+];
+
+/** Names at most this far from the query are suggested. */
+function suggestionDistance(query: string): number {
+  return Math.max(2, Math.floor(query.length / 3));
+}
+
+/**
+ * Resolve `query` against candidates. An exact name shared by several
+ * candidates (a project and an infra repo, say) resolves to the first, so
+ * callers list candidates in priority order.
+ */
+export function resolveName<T>(query: string, candidates: NameCandidate<T>[]): NameResolution<T> {
+  if (query !== "") {
+    for (const [rule, matches] of RULES) {
+      const matched = candidates.filter((c) => matches(query, c));
+      if (matched.length === 0) continue;
+      if (matched.length === 1 || rule === "exact") return { status: "found", match: matched[0], rule };
+      return { status: "ambiguous", rule, candidates: matched };
+    }
+  }
+
+  const q = query.toLowerCase();
+  const limit = suggestionDistance(q);
+  const suggestions = candidates
+    .map((c) => ({ c, d: editDistance(q, c.name.toLowerCase()) }))
+    .filter(({ d }) => d <= limit)
+    .sort((a, b) => a.d - b.d)
+    .slice(0, 3)
+    .map(({ c }) => c);
+  return { status: "not_found", suggestions };
+}
+
+/** Projects, matched by name or by the basename of their path. */
+export function resolveProject(config: HopConfig, query: string): NameResolution<Project> {
+  return resolveName(query, (config.projects ?? []).map((p) => ({ name: p.name, path: p.path, value: p })));
+}
+
+export function resolveBundle(config: HopConfig, query: string): NameResolution<Bundle> {
+  return resolveName(query, (config.bundles ?? []).map((b) => ({ name: b.id, value: b })));
+}
+
+export function resolveSystem(
+  config: HopConfig,
+  query: string
+): NameResolution<{ projects: Project[]; infraRepos: InfraRepoEntry[] }> {
+  return resolveName(query, Array.from(collectSystems(config), ([name, value]) => ({ name, value })));
+}
+
+export function resolveInfraRepo(config: HopConfig, query: string): NameResolution<InfraRepoEntry> {
+  return resolveName(query, (config.infra_repos?.repos ?? []).map((entry) => {
+    const repo = normalizeInfraRepo(entry);
+    return { name: repo.name, path: resolveInfraRepoPath(config, repo.name), value: repo };
+  }));
+}
+
+export function resolveHarness(config: HopConfig, query: string): NameResolution<Harness> {
+  return resolveName(query, (config.harnesses ?? []).map((h) => ({ name: h.name, value: h })));
+}
+
+export function resolveRuntime(config: HopConfig, query: string): NameResolution<Runtime> {
+  return resolveName(query, (config.runtimes ?? []).map((r) => ({ name: r.name, value: r })));
+}
+
+export function resolveService(config: HopConfig, query: string): NameResolution<Service> {
+  return resolveName(query, Object.entries(config.services ?? {}).map(([name, value]) => ({ name, value })));
+}
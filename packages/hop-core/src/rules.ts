@@ -0,0 +1,310 @@
+/**
+ * Semantic and environment validation rules for hop.json.
+ *
+ * JSON Schema checks shape; it cannot check that a bundle names a project that
+ * exists, or that only one account is marked default. These are the rules from
+ * spec/validation-rules.md §2 that need the whole document in view. Rule IDs,
+ * severities and message text follow the spec's quick-reference tables exactly,
+ * so a diagnostic can be looked up there by ID.
+ *
+ * Environment rules (§3) are kept separate because they consult the disk: the
+ * same file is correct on one machine and wrong on another, so callers opt in.
+ *
+ * Rules assume the document already passed schema validation — they guard
+ * against missing optional blocks but not against wrong types.
+ */
+
+import { existsSync, statSync } from "node:fs";
+import { join } from "node:path";
+import type { HopConfig } from "./types.js";
+import { pointerSegment } from "./pointer.js";
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export interface Diagnostic {
+  /** Stable rule ID from the spec, e.g. "bundle.projects.valid". */
+  rule: string;
+  severity: DiagnosticSeverity;
+  /** JSON pointer to the offending node. */
+  path: string;
+  message: string;
+  suggestion?: string;
+}
+
+/** Same slug pattern the schema applies to extension keys. */
+const EXTENSION_KEY = /^[a-z0-9][a-z0-9_-]*[a-z0-9]$|^[a-z0-9]$/;
+
+const MACHINE_TYPES = ["cloud-vps", "cloud-vm", "local-desktop", "local-laptop", "container", "wsl"];
+
+/** Group indices by a key, keeping only keys that occur more than once. */
+function duplicates<T>(items: T[], keyOf: (item: T) => string | undefined): Map<string, number[]> {
+  const seen = new Map<string, number[]>();
+  items.forEach((item, i) => {
+    const key = keyOf(item);
+    if (key === undefined) return;
+    const list = seen.get(key) ?? [];
+    list.push(i);
+    seen.set(key, list);
+  });
+  for (const [key, list] of seen) {
+    if (list.length < 2) seen.delete(key);
+  }
+  return seen;
+}
+
+function checkMachine(config: HopConfig, out: Diagnostic[]): void {
+  const type = config.machine?.type;
+  if (type !== undefined && !MACHINE_TYPES.includes(type)) {
+    out.push({
+      rule: "machine.type.known",
+      severity: "warning",
+      path: "/machine/type",
+      message: `Unknown machine.type: "${type}". Consider using standard types for better tooling support: ${MACHINE_TYPES.join(", ")}`,
+    });
+  }
+}
+
+function checkProjects(config: HopConfig, out: Diagnostic[]): void {
+  const projects = config.projects ?? [];
+  const usernames = new Set((config.accounts?.github ?? []).map((a) => a.username));
+
+  for (const [name, indices] of duplicates(projects, (p) => p.name)) {
+    // Report every repeat after the first, which is the one lookups resolve to.
+    for (const i of indices.slice(1)) {
+      out.push({
+        rule: "project.name.unique",
+        severity: "error",
+        path: `/projects/${i}/name`,
+        message: `Duplicate project name: "${name}" appears multiple times in projects array`,
+        suggestion: "Each project must have a unique name within this HarnessOps file",
+      });
+    }
+  }
+
+  for (const [path, indices] of duplicates(projects, (p) => p.path)) {
+    const names = indices.map((i) => projects[i].name);
+    for (const i of indices.slice(1)) {
+      out.push({
+        rule: "project.path.unique",
+        severity: "warning",
+        path: `/projects/${i}/path`,
+        message: `Duplicate project path: "${path}" is referenced by multiple projects: [${names.join(", ")}]`,
+        suggestion: "If intentional (e.g., branch checkouts), consider using `branch_checkouts` instead",
+      });
+    }
+  }
+
+  projects.forEach((p, i) => {
+    if (p.account_override !== undefined && !usernames.has(p.account_override)) {
+      out.push({
+        rule: "account_override.exists",
+        severity: "error",
+        path: `/projects/${i}/account_override`,
+        message: `Invalid account_override: "${p.account_override}" not found in accounts.github`,
+        suggestion: "Add this account to accounts.github or remove the account_override",
+      });
+    }
+  });
+}
+
+function checkAccounts(config: HopConfig, out: Diagnostic[]): void {
+  for (const [service, accounts] of Object.entries(config.accounts ?? {})) {
+    if (!Array.isArray(accounts)) continue;
+    const defaults = accounts
+      .map((a, i) => ({ a: a as { username?: string; default?: boolean }, i }))
+      .filter(({ a }) => a?.default === true);
+    if (defaults.length > 1) {
+      const usernames = defaults.map(({ a }) => a.username ?? "(unnamed)");
+      for (const { i } of defaults.slice(1)) {
+        out.push({
+          rule: "default_account.single",
+          severity: "error",
+          path: `/accounts/${pointerSegment(service)}/${i}/default`,
+          message: `Multiple default accounts for ${service}: [${usernames.join(", ")}]. Only one default allowed.`,
+          suggestion: "Set `default: true` on only one account per service",
+        });
+      }
+    }
+  }
+
+  (config.accounts?.github ?? []).forEach((a, i) => {
+    if (a.pat_bws_id !== undefined && a.auth_method !== "https-pat") {
+      out.push({
+        rule: "pat_bws_id.auth_method",
+        severity: "warning",
+        path: `/accounts/github/${i}`,
+        message: `Account "${a.username}" has pat_bws_id but auth_method is "${a.auth_method ?? "ssh"}" (not https-pat)`,
+        suggestion: 'Set auth_method to "https-pat" if using PAT authentication',
+      });
+    }
+  });
+}
+
+function checkBundles(config: HopConfig, out: Diagnostic[]): void {
+  const bundles = config.bundles ?? [];
+  const projectNames = new Set((config.projects ?? []).map((p) => p.name));
+
+  for (const [id, indices] of duplicates(bundles, (b) => b.id)) {
+    for (const i of indices.slice(1)) {
+      out.push({
+        rule: "bundle.id.unique",
+        severity: "error",
+        path: `/bundles/${i}/id`,
+        message: `Duplicate bundle id: "${id}" appears multiple times`,
+        suggestion: "Each bundle must have a unique identifier",
+      });
+    }
+  }
+
+  bundles.forEach((b, i) => {
+    (b.projects ?? []).forEach((name, j) => {
+      if (!projectNames.has(name)) {
+        out.push({
+          rule: "bundle.projects.valid",
+          severity: "error",
+          path: `/bundles/${i}/projects/${j}`,
+          message: `Bundle "${b.id}" references unknown project: "${name}"`,
+          suggestion: "Ensure all projects in bundle exist in the projects array, or add the missing project",
+        });
+      }
+    });
+
+    if (b.primary_project !== undefined && !(b.projects ?? []).includes(b.primary_project)) {
+      out.push({
+        rule: "bundle.primary.in_projects",
+        severity: "error",
+        path: `/bundles/${i}/primary_project`,
+        message: `Bundle "${b.id}" primary_project "${b.primary_project}" is not in its projects list`,
+        suggestion: `Either add "${b.primary_project}" to the bundle's projects array, or choose a different primary_project`,
+      });
+    }
+  });
+}
+
+function checkCrossProject(config: HopConfig, out: Diagnostic[]): void {
+  const home = config.cross_project?.home_project;
+  if (home === undefined) return;
+  if (!(config.projects ?? []).some((p) => p.name === home)) {
+    out.push({
+      rule: "cross_project.home.exists",
+      severity: "warning",
+      path: "/cross_project/home_project",
+      message: `cross_project.home_project "${home}" not found in projects array`,
+      suggestion: "Add the home project to the projects array, or update the reference",
+    });
+  }
+}
+
+function checkExtensions(config: HopConfig, out: Diagnostic[]): void {
+  const checkKeys = (extensions: object | undefined, base: string) => {
+    for (const key of Object.keys(extensions ?? {})) {
+      if (!EXTENSION_KEY.test(key)) {
+        out.push({
+          rule: "extension.key.format",
+          severity: "error",
+          path: `${base}/${pointerSegment(key)}`,
+          message: `Invalid extension key: "${key}". Must be a lowercase slug (a-z, 0-9, hyphens, underscores)`,
+          suggestion: 'Use lowercase slugs like "beads", "basic-memory", "cli-activity-logs"',
+        });
+      }
+    }
+  };
+
+  checkKeys(config.extensions, "/extensions");
+  const projects = config.projects ?? [];
+  projects.forEach((p, i) => checkKeys(p.extensions, `/projects/${i}/extensions`));
+
+  // BEADS prefixes are a convention rather than a core field, but colliding
+  // prefixes silently merge two projects' issue IDs, so the spec calls it out.
+  const prefixOf = (i: number): string | undefined => {
+    const prefix = projects[i].extensions?.beads?.prefix;
+    return typeof prefix === "string" ? prefix : undefined;
+  };
+  for (const [prefix, indices] of duplicates(projects.map((_, i) => i), prefixOf)) {
+    const names = indices.map((i) => projects[i].name);
+    for (const i of indices.slice(1)) {
+      out.push({
+        rule: "beads.prefix.unique",
+        severity: "warning",
+        path: `/projects/${i}/extensions/beads/prefix`,
+        message: `Duplicate BEADS prefix: "${prefix}" is used by multiple projects: [${names.join(", ")}]. This may cause ID collisions.`,
+        suggestion: "Use unique prefixes for each project's BEADS issues",
+      });
+    }
+  }
+}
+
+/**
+ * Run every semantic rule and collect all diagnostics, in document order by
+ * section. Never throws and never stops at the first problem, per §5 of the
+ * validation spec.
+ *
+ * machine.id uniqueness across a sync network is not checked: there is no
+ * sync network to check against.
+ */
+export function validateSemantics(config: HopConfig): Diagnostic[] {
+  const out: Diagnostic[] = [];
+  checkMachine(config, out);
+  checkProjects(config, out);
+  checkAccounts(config, out);
+  checkBundles(config, out);
+  checkCrossProject(config, out);
+  checkExtensions(config, out);
+  return out;
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Run the environment rules (§3) against the local filesystem.
+ *
+ * A project path that is missing is only a warning — the spec allows a file to
+ * describe repos not yet cloned here — but a missing agent_root is an error,
+ * since every managed-directory check resolves against it.
+ */
+export function validateEnvironment(config: HopConfig): Diagnostic[] {
+  const out: Diagnostic[] = [];
+
+  const root = config.machine?.agent_root;
+  if (root !== undefined && !isDirectory(root)) {
+    out.push({
+      rule: "agent_root.exists",
+      severity: "error",
+      path: "/machine/agent_root",
+      message: `machine.agent_root path does not exist: "${root}"`,
+      suggestion: "Create the directory or update agent_root to an existing path",
+    });
+  }
+
+  (config.projects ?? []).forEach((p, i) => {
+    if (p.path === undefined) return;
+    if (!isDirectory(p.path)) {
+      out.push({
+        rule: "project.path.exists",
+        severity: "warning",
+        path: `/projects/${i}/path`,
+        message: `Project "${p.name}" path does not exist: "${p.path}"`,
+        suggestion: "Create the directory or update the project path",
+      });
+      // A missing directory trivially has no .git; one finding is enough.
+      return;
+    }
+    if (p.git !== undefined && !existsSync(join(p.path, ".git"))) {
+      out.push({
+        rule: "git.repo.exists",
+        severity: "warning",
+        path: `/projects/${i}/git`,
+        message: `Project "${p.name}" has git config but no .git directory at "${p.path}"`,
+        suggestion: "Initialize git repository or remove git config from project",
+      });
+    }
+  });
+
+  return out;
+}
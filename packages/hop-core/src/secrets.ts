@@ -0,0 +1,221 @@
+/**
+ * Secret resolution for the fields that name a secret instead of holding it:
+ * `accounts.github[].pat_bws_id` and `services.*.token_env`.
+ *
+ * hop.json only ever says where a secret lives. A `SecretProvider` knows how
+ * to fetch one kind of reference on this machine — an environment variable, a
+ * file, a `pass`-style command, or the Bitwarden Secrets Manager CLI — and the
+ * providers from `secrets.providers` (or the defaults) are tried in order.
+ *
+ * Values are returned only by `resolveSecret`. `checkSecrets` resolves every
+ * reference and throws the values away, so a report built from it cannot leak
+ * one; provider failures are described by exit status, never by output.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { spawnSync } from "node:child_process";
+import { isAbsolute, relative, resolve } from "node:path";
+import { expandHome } from "./helpers.js";
+import { pointerSegment } from "./pointer.js";
+import type { HopConfig, SecretProviderConfig, SecretRefKind } from "./types.js";
+
+/** A place in hop.json that names a secret. */
+export interface SecretRef {
+  kind: SecretRefKind;
+  /** The env var name or secret ID written in hop.json. */
+  id: string;
+  /** JSON pointer of the field, e.g. /services/agent_mail/token_env. */
+  pointer: string;
+  /** What the secret is for, for people. */
+  label: string;
+}
+
+/** A provider's answer: the secret, or why it does not have it. */
+export type SecretLookup = { found: true; value: string } | { found: false; reason: string };
+
+export interface SecretProvider {
+  readonly name: string;
+  /** Whether this provider is tried for a reference at all. */
+  accepts(ref: SecretRef): boolean;
+  /**
+   * Look the secret up. Throws SecretProviderError when the provider cannot
+   * be asked at all (a command that is not installed, say).
+   */
+  resolve(ref: SecretRef): SecretLookup;
+}
+
+export class SecretProviderError extends Error {
+  constructor(message: string, public readonly provider: string) {
+    super(message);
+    this.name = "SecretProviderError";
+  }
+}
+
+export interface SecretAttempt {
+  provider: string;
+  /** Why this provider did not supply the secret. */
+  reason: string;
+}
+
+export interface SecretStatus {
+  ref: SecretRef;
+  resolved: boolean;
+  /** The provider that supplied the secret. */
+  provider?: string;
+  /** Providers tried before it, or all of them when unresolved. */
+  attempts: SecretAttempt[];
+}
+
+/** Every secret reference in the config, in file order. */
+export function collectSecretRefs(config: HopConfig): SecretRef[] {
+  const refs: SecretRef[] = [];
+  (config.accounts?.github ?? []).forEach((account, i) => {
+    if (account.pat_bws_id) {
+      refs.push({
+        kind: "pat_bws_id",
+        id: account.pat_bws_id,
+        pointer: `/accounts/github/${i}/pat_bws_id`,
+        label: `GitHub PAT for ${account.username}`,
+      });
+    }
+  });
+  for (const [name, service] of Object.entries(config.services ?? {})) {
+    if (service.token_env) {
+      refs.push({
+        kind: "token_env",
+        id: service.token_env,
+        pointer: `/services/${pointerSegment(name)}/token_env`,
+        label: `token for service ${name}`,
+      });
+    }
+  }
+  return refs;
+}
+
+const DEFAULT_REFS: Record<SecretProviderConfig["type"], SecretRefKind[]> = {
+  env: ["token_env"],
+  file: ["token_env", "pat_bws_id"],
+  command: ["token_env", "pat_bws_id"],
+  bws: ["pat_bws_id"],
+};
+
+/** Used when hop.json has no `secrets.providers`. */
+export const DEFAULT_SECRET_PROVIDERS: SecretProviderConfig[] = [{ type: "env" }, { type: "file" }, { type: "bws" }];
+
+const found = (value: string): SecretLookup => ({ found: true, value });
+const missing = (reason: string): SecretLookup => ({ found: false, reason });
+
+/**
+ * Run `argv` with `{id}` filled in, without a shell, and return its stdout.
+ * A non-zero exit is a missing secret; stderr is discarded unread, since some
+ * tools echo what they were given.
+ */
+function runCommand(name: string, argv: string[], ref: SecretRef): { stdout: string } | SecretLookup {
+  const [program, ...args] = argv.map((a) => a.replaceAll("{id}", ref.id));
+  if (!program) throw new SecretProviderError(`${name}: empty command`, name);
+  const result = spawnSync(program, args, { encoding: "utf-8", timeout: 15_000, stdio: ["ignore", "pipe", "ignore"] });
+  if (result.error) {
+    const code = (result.error as NodeJS.ErrnoException).code;
+    throw new SecretProviderError(code === "ENOENT" ? `${program} is not installed` : `${program} failed: ${code ?? "error"}`, name);
+  }
+  if (result.status !== 0) return missing(`${program} exited with status ${result.status}`);
+  return { stdout: result.stdout };
+}
+
+/** Build a provider from its hop.json description. */
+export function createSecretProvider(spec: SecretProviderConfig): SecretProvider {
+  const refs = spec.refs ?? DEFAULT_REFS[spec.type];
+  const accepts = (ref: SecretRef) => refs.includes(ref.kind);
+
+  switch (spec.type) {
+    case "env":
+      return {
+        name: "env",
+        accepts,
+        resolve: (ref) => (process.env[ref.id] ? found(process.env[ref.id]!) : missing(`$${ref.id} is not set`)),
+      };
+    case "file": {
+      const dir = expandHome(spec.dir ?? "~/.hop/secrets");
+      return {
+        name: "file",
+        accepts,
+        resolve: (ref) => {
+          // The id names a file in `dir`, never a path out of it
+          const path = resolve(dir, ref.id);
+          const rel = relative(resolve(dir), path);
+          if (isAbsolute(ref.id) || /[\\/]|\.\./.test(ref.id) || !rel || rel.startsWith("..") || isAbsolute(rel)) {
+            return missing(`"${ref.id}" is not a file name in ${dir}`);
+          }
+          if (!existsSync(path)) return missing(`no file ${path}`);
+          const value = readFileSync(path, "utf-8").replace(/\r?\n$/, "");
+          return value ? found(value) : missing(`${path} is empty`);
+        },
+      };
+    }
+    case "command": {
+      const argv = spec.command ?? [];
+      const name = argv[0] ? `command ${argv[0]}` : "command";
+      return {
+        name,
+        accepts,
+        resolve: (ref) => {
+          const result = runCommand(name, argv, ref);
+          if (!("stdout" in result)) return result;
+          const value = result.stdout.split("\n")[0];
+          return value ? found(value) : missing(`${argv[0]} printed nothing`);
+        },
+      };
+    }
+    case "bws": {
+      const argv = spec.command ?? ["bws", "secret", "get", "{id}"];
+      return {
+        name: "bws",
+        accepts,
+        resolve: (ref) => {
+          const result = runCommand("bws", argv, ref);
+          if (!("stdout" in result)) return result;
+          let value: unknown;
+          try {
+            value = (JSON.parse(result.stdout) as { value?: unknown }).value;
+          } catch {
+            return missing(`${argv[0]} output is not JSON`);
+          }
+          return typeof value === "string" && value !== "" ? found(value) : missing(`no value in ${argv[0]} output`);
+        },
+      };
+    }
+  }
+  const type = String((spec as { type: unknown }).type);
+  throw new SecretProviderError(`Unknown secret provider type '${type}'`, type);
+}
+
+/** The providers configured in `secrets.providers`, else the defaults. */
+export function secretProviders(config: HopConfig): SecretProvider[] {
+  return (config.secrets?.providers ?? DEFAULT_SECRET_PROVIDERS).map(createSecretProvider);
+}
+
+/** Try each accepting provider in turn; the value is undefined when none has it. */
+export function resolveSecret(
+  ref: SecretRef,
+  providers: SecretProvider[]
+): { value?: string; status: SecretStatus } {
+  const attempts: SecretAttempt[] = [];
+  for (const provider of providers) {
+    if (!provider.accepts(ref)) continue;
+    try {
+      const lookup = provider.resolve(ref);
+      if (lookup.found) return { value: lookup.value, status: { ref, resolved: true, provider: provider.name, attempts } };
+      attempts.push({ provider: provider.name, reason: lookup.reason });
+    } catch (err) {
+      if (!(err instanceof SecretProviderError)) throw err;
+      attempts.push({ provider: provider.name, reason: err.message });
+    }
+  }
+  if (attempts.length === 0) attempts.push({ provider: "-", reason: `no provider is configured for ${ref.kind}` });
+  return { status: { ref, resolved: false, attempts } };
+}
+
+/** Whether each referenced secret resolves on this machine. Never returns the values. */
+export function checkSecrets(config: HopConfig, providers = secretProviders(config)): SecretStatus[] {
+  return collectSecretRefs(config).map((ref) => resolveSecret(ref, providers).status);
+}
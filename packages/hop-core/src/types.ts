@@ -5,6 +5,8 @@
 
 export interface HopConfig {
   $schema?: string;
+  /** Base file(s) to inherit from, relative to this file. Removed once resolved. */
+  extends?: string | string[];
   schema_version: string;
   description?: string;
   machine: Machine;
@@ -19,6 +21,7 @@ export interface HopConfig {
   services?: Services;
   harnesses?: Harness[];
   runtimes?: Runtime[];
+  secrets?: Secrets;
   [key: string]: unknown;
 }
 
@@ -99,6 +102,8 @@ export interface GitHubAccount {
   pat_bws_id?: string;
   active?: boolean;
   note?: string;
+  email?: string;
+  ssh_key?: string;
   [key: string]: unknown;
 }
 
@@ -191,6 +196,26 @@ export interface Services {
   [key: string]: Service;
 }
 
+/** Where referenced secrets can be fetched on this machine. */
+export interface Secrets {
+  providers?: SecretProviderConfig[];
+  [key: string]: unknown;
+}
+
+/** A field in hop.json that names a secret rather than holding it. */
+export type SecretRefKind = "token_env" | "pat_bws_id";
+
+export interface SecretProviderConfig {
+  type: "env" | "file" | "command" | "bws";
+  /** Reference kinds this provider is tried for. */
+  refs?: SecretRefKind[];
+  /** Directory of secret files, for `file`. Default ~/.hop/secrets. */
+  dir?: string;
+  /** argv with `{id}` replaced by the reference, for `command` and `bws`. */
+  command?: string[];
+  [key: string]: unknown;
+}
+
 export interface Service {
   /** HTTP(S) endpoint for the service */
   url?: string;
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for resolveGitHubAccount.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { resolveGitHubAccount } from "../src/accounts.js";
+import type { GitHubAccount, HopConfig, Project } from "../src/types.js";
+
+function configWith(github: GitHubAccount[]): HopConfig {
+  return { schema_version: "0.1.0", machine: { id: "m", name: "M" }, accounts: { github } };
+}
+
+const client: Project = {
+  name: "client",
+  account_override: "work",
+  git: { remote_url: "git@github.com:acme/client.git" },
+};
+
+describe("resolveGitHubAccount", () => {
+  it("uses the override with its auth method, alias and aliased remote", () => {
+    const config = configWith([
+      { username: "me", default: true },
+      { username: "work", git_alias: "github-work" },
+    ]);
+    const { effective, explanation } = resolveGitHubAccount(config, client);
+    expect(effective).toEqual({
+      account: { username: "work", git_alias: "github-work" },
+      source: "account_override",
+      auth_method: "ssh",
+      git_alias: "github-work",
+      remote_url: "git@github-work:acme/client.git",
+    });
+    expect(explanation[0]).toBe("Project 'client' sets account_override 'work'.");
+  });
+
+  it("rewrites ssh:// remotes but leaves https remotes and non-ssh accounts alone", () => {
+    const config = configWith([{ username: "work", default: true, git_alias: "gw" }]);
+    const project = (remote_url: string): Project => ({ name: "p", git: { remote_url } });
+    expect(resolveGitHubAccount(config, project("ssh://git@github.com/acme/p.git")).effective?.remote_url)
+      .toBe("ssh://git@gw/acme/p.git");
+    expect(resolveGitHubAccount(config, project("https://github.com/acme/p.git")).effective?.remote_url).toBeUndefined();
+
+    const pat = configWith([{ username: "work", default: true, git_alias: "gw", auth_method: "https-pat" }]);
+    expect(resolveGitHubAccount(pat, project("git@github.com:acme/p.git")).effective).toMatchObject({
+      auth_method: "https-pat",
+      git_alias: "gw",
+    });
+    expect(resolveGitHubAccount(pat, project("git@github.com:acme/p.git")).effective?.remote_url).toBeUndefined();
+  });
+
+  it("refuses to fall back when the override is missing or inactive", () => {
+    const missing = resolveGitHubAccount(configWith([{ username: "me", default: true }]), client);
+    expect(missing.effective).toBeUndefined();
+    expect(missing.explanation.at(-1)).toContain("has no such account");
+
+    const inactive = resolveGitHubAccount(configWith([
+      { username: "me", default: true },
+      { username: "work", active: false },
+    ]), client);
+    expect(inactive.effective).toBeUndefined();
+    expect(inactive.explanation.at(-1)).toContain("inactive");
+  });
+
+  it("skips an inactive default for the only active account", () => {
+    const { effective, explanation } = resolveGitHubAccount(configWith([
+      { username: "old", default: true, active: false },
+      { username: "me" },
+    ]), { name: "app" });
+    expect(effective).toMatchObject({ account: { username: "me" }, source: "sole" });
+    expect(explanation).toEqual([
+      "Project 'app' has no account_override.",
+      "The default account 'old' is inactive (active: false); skipped.",
+      "'me' is the only active account.",
+    ]);
+  });
+
+  it("explains why nothing applies", () => {
+    expect(resolveGitHubAccount(configWith([])).explanation).toEqual(["No accounts.github entries in hop.json."]);
+    const several = resolveGitHubAccount(configWith([{ username: "a" }, { username: "b" }]));
+    expect(several.effective).toBeUndefined();
+    expect(several.explanation.at(-1)).toContain("a, b");
+  });
+});
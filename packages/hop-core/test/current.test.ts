@@ -0,0 +1,64 @@
+/**
+ * Unit tests for projectForPath and effectiveGitHubAccount.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { projectForPath } from "../src/current.js";
+import { effectiveGitHubAccount } from "../src/accounts.js";
+import type { HopConfig } from "../src/types.js";
+
+const config: HopConfig = {
+  schema_version: "0.1.0",
+  machine: { id: "m", name: "M", agent_root: "/dev" },
+  accounts: {
+    github: [
+      { username: "me", default: true },
+      { username: "work", git_alias: "github-work" },
+    ],
+  },
+  projects: [
+    { name: "app", path: "/dev/app", system: "shop", branch_checkouts: { next: "/dev/app/.worktrees/next" } },
+    { name: "client", path: "/dev/client", account_override: "work" },
+  ],
+  bundles: [
+    { id: "web", name: "Web", projects: ["app", "client"] },
+    { id: "solo", name: "Solo", projects: ["client"] },
+  ],
+  infra_repos: { path: "/dev/infra", repos: [{ name: "terraform", system: "ops" }] },
+};
+
+describe("projectForPath", () => {
+  it("finds the project containing a nested directory", () => {
+    const match = projectForPath(config, "/dev/app/src/lib")!;
+    expect(match).toMatchObject({ kind: "project", name: "app", root: "/dev/app", relative: "src/lib", system: "shop" });
+    expect(match.bundles.map((b) => b.id)).toEqual(["web"]);
+    expect(match.account).toEqual({ account: { username: "me", default: true }, source: "default", auth_method: "ssh" });
+  });
+
+  it("prefers the deepest root, such as a branch checkout inside the project", () => {
+    expect(projectForPath(config, "/dev/app/.worktrees/next/src")).toMatchObject({
+      kind: "branch_checkout", name: "app", branch: "next", relative: "src",
+    });
+  });
+
+  it("resolves infra repos without an account, and nothing outside every root", () => {
+    const infra = projectForPath(config, "/dev/infra/terraform")!;
+    expect(infra).toMatchObject({ kind: "infra_repo", name: "terraform", relative: "", system: "ops", bundles: [] });
+    expect(infra.account).toBeUndefined();
+
+    expect(projectForPath(config, "/dev/application")).toBeUndefined();
+    expect(projectForPath(config, "/dev")).toBeUndefined();
+  });
+});
+
+describe("effectiveGitHubAccount", () => {
+  it("uses the override, then the default, then the only account", () => {
+    expect(effectiveGitHubAccount(config, config.projects![1])).toMatchObject({ account: { username: "work" }, source: "account_override" });
+    expect(effectiveGitHubAccount(config)).toMatchObject({ account: { username: "me" }, source: "default" });
+
+    const single: HopConfig = { ...config, accounts: { github: [{ username: "solo" }] } };
+    expect(effectiveGitHubAccount(single)).toMatchObject({ source: "sole" });
+    const none: HopConfig = { ...config, accounts: { github: [{ username: "a" }, { username: "b" }] } };
+    expect(effectiveGitHubAccount(none)).toBeUndefined();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for format-preserving JSON edits.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { chmodSync, lstatSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, statSync, symlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { applyJsonEdits, editJsonFile, writeFileAtomically, JsonEditError } from "../src/edit.js";
+
+const DOC = `{
+  "schema_version": "0.1.0",
+  "machine": { "id": "box", "name": "Box" },
+
+  "projects": [
+    {
+      "name": "app",
+      "path": "/dev/app"
+    },
+    { "name": "lib", "path": "/dev/lib" }
+  ],
+  "bundles": []
+}
+`;
+
+describe("applyJsonEdits", () => {
+  it("replaces a scalar and nothing else", () => {
+    const out = applyJsonEdits(DOC, [{ op: "set", pointer: "/projects/0/path", value: "/src/app" }]);
+    expect(out).toBe(DOC.replace('"/dev/app"', '"/src/app"'));
+  });
+
+  it("adds members in the style of their siblings", () => {
+    const multi = applyJsonEdits(DOC, [{ op: "set", pointer: "/projects/0/git", value: { default_branch: "main" } }]);
+    expect(multi).toBe(DOC.replace(
+      '"path": "/dev/app"\n',
+      '"path": "/dev/app",\n      "git": {\n        "default_branch": "main"\n      }\n'
+    ));
+
+    const inline = applyJsonEdits(DOC, [{ op: "set", pointer: "/machine/agent_root", value: "/dev" }]);
+    expect(inline).toBe(DOC.replace('"name": "Box" }', '"name": "Box", "agent_root": "/dev" }'));
+  });
+
+  it("inserts array elements by index and appends with -", () => {
+    const out = applyJsonEdits(DOC, [
+      { op: "insert", pointer: "/projects/1", value: { name: "mid" } },
+      { op: "insert", pointer: "/projects/-", value: { name: "end" } },
+    ]);
+    expect(JSON.parse(out).projects.map((p: any) => p.name)).toEqual(["app", "mid", "lib", "end"]);
+    expect(out).toContain('    },\n    {\n      "name": "mid"\n    },\n    { "name": "lib", "path": "/dev/lib" },\n    {\n      "name": "end"\n    }\n  ],');
+  });
+
+  it("expands an empty array in a multi-line file for object values", () => {
+    const out = applyJsonEdits(DOC, [{ op: "insert", pointer: "/bundles/-", value: { id: "b", projects: ["app"] } }]);
+    expect(out).toContain('  "bundles": [\n    {\n      "id": "b",\n      "projects": [\n        "app"\n      ]\n    }\n  ]\n}');
+    const scalar = applyJsonEdits('{ "tags": [] }', [{ op: "set", pointer: "/tags/0", value: "x" }]);
+    expect(scalar).toBe('{ "tags": ["x"] }');
+  });
+
+  it("removes first, middle, last and only entries cleanly", () => {
+    expect(applyJsonEdits("[1, 2, 3]", [{ op: "remove", pointer: "/0" }])).toBe("[2, 3]");
+    expect(applyJsonEdits("[1, 2, 3]", [{ op: "remove", pointer: "/1" }])).toBe("[1, 3]");
+    expect(applyJsonEdits("[1, 2, 3]", [{ op: "remove", pointer: "/2" }])).toBe("[1, 2]");
+    expect(applyJsonEdits('{\n  "a": 1\n}', [{ op: "remove", pointer: "/a" }])).toBe("{}");
+
+    const out = applyJsonEdits(DOC, [{ op: "remove", pointer: "/projects/0" }]);
+    expect(out).toBe(DOC.replace('{\n      "name": "app",\n      "path": "/dev/app"\n    },\n    ', ""));
+    const member = applyJsonEdits(DOC, [{ op: "remove", pointer: "/schema_version" }]);
+    expect(member).toBe(DOC.replace('"schema_version": "0.1.0",\n  ', ""));
+  });
+
+  it("applies edits in sequence", () => {
+    const out = applyJsonEdits("[1, 2, 3]", [
+      { op: "remove", pointer: "/0" },
+      { op: "remove", pointer: "/0" },
+    ]);
+    expect(out).toBe("[3]");
+  });
+
+  it("renames a member in place", () => {
+    const out = applyJsonEdits(DOC, [{ op: "rename", pointer: "/machine/id", key: "slug" }]);
+    expect(out).toBe(DOC.replace('{ "id": "box"', '{ "slug": "box"'));
+  });
+
+  it("rejects edits that do not fit the document", () => {
+    expect(() => applyJsonEdits(DOC, [{ op: "set", pointer: "/nope/x", value: 1 }])).toThrow(JsonEditError);
+    expect(() => applyJsonEdits(DOC, [{ op: "insert", pointer: "/machine/id", value: "x" }])).toThrow("already exists");
+    expect(() => applyJsonEdits(DOC, [{ op: "insert", pointer: "/projects/9", value: {} }])).toThrow("out of range");
+    expect(() => applyJsonEdits(DOC, [{ op: "remove", pointer: "/projects/5" }])).toThrow("nothing there");
+    expect(() => applyJsonEdits(DOC, [{ op: "rename", pointer: "/machine/id", key: "name" }])).toThrow('"name" already exists');
+  });
+
+  it("reads / as the member named \"\" and refuses to edit the root", () => {
+    expect(applyJsonEdits('{ "": 1, "a": 2 }', [{ op: "set", pointer: "/", value: 3 }])).toBe('{ "": 3, "a": 2 }');
+    expect(applyJsonEdits('{ "a": 2 }', [{ op: "set", pointer: "/", value: 3 }])).toBe('{ "a": 2, "": 3 }');
+    expect(() => applyJsonEdits(DOC, [{ op: "remove", pointer: "/" }])).toThrow("nothing there");
+    expect(() => applyJsonEdits(DOC, [{ op: "set", pointer: "", value: {} }])).toThrow("the document root cannot be edited");
+    expect(() => applyJsonEdits(DOC, [{ op: "remove", pointer: "" }])).toThrow("the document root cannot be edited");
+  });
+});
+
+describe("editJsonFile", () => {
+  it("writes the edited text and returns both versions", () => {
+    const file = join(mkdtempSync(join(tmpdir(), "hop-edit-test-")), "hop.json");
+    writeFileSync(file, DOC);
+    const { before, after } = editJsonFile(file, [{ op: "set", pointer: "/schema_version", value: "0.2.0" }]);
+    expect(before).toBe(DOC);
+    expect(readFileSync(file, "utf-8")).toBe(after);
+    expect(after).toBe(DOC.replace('"0.1.0"', '"0.2.0"'));
+  });
+});
+
+describe("writeFileAtomically", () => {
+  it("writes through a symlink and keeps the file's mode", () => {
+    const dir = mkdtempSync(join(tmpdir(), "hop-atomic-test-"));
+    const real = join(dir, "dotfiles-hop.json");
+    const link = join(dir, "hop.json");
+    writeFileSync(real, DOC);
+    chmodSync(real, 0o600);
+    symlinkSync(real, link);
+
+    writeFileAtomically(link, "{}\n");
+    expect(lstatSync(link).isSymbolicLink()).toBe(true);
+    expect(readFileSync(real, "utf-8")).toBe("{}\n");
+    expect(statSync(real).mode & 0o777).toBe(0o600);
+    expect(readdirSync(dir).sort()).toEqual(["dotfiles-hop.json", "hop.json"]);
+  });
+
+  it("leaves no temp file behind when the rename fails", () => {
+    const dir = mkdtempSync(join(tmpdir(), "hop-atomic-test-"));
+    const blocked = join(dir, "hop.json");
+    mkdirSync(join(blocked, "inside"), { recursive: true });
+    expect(() => writeFileAtomically(blocked, "{}")).toThrow();
+    expect(readdirSync(dir)).toEqual(["hop.json"]);
+  });
+});
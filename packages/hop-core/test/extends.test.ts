@@ -0,0 +1,162 @@
+/**
+ * Unit tests for `extends` resolution: merge semantics, provenance, and the
+ * resolution rules from research/extends-proposal.md.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { mkdtempSync, mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { resolveHopConfig, sourcesOf, originOf, locate, formatLocation } from "../src/extends.js";
+import { loadHopConfig } from "../src/discover.js";
+
+const dir = mkdtempSync(join(tmpdir(), "hop-extends-test-"));
+
+function write(name: string, doc: unknown): string {
+  const path = join(dir, name);
+  mkdirSync(join(path, ".."), { recursive: true });
+  writeFileSync(path, JSON.stringify(doc, null, 2));
+  return path;
+}
+
+const BASE = write("base.json", {
+  schema_version: "0.1.0",
+  accounts: { github: [{ username: "me", default: true, auth_method: "ssh" }] },
+  preferences: { timezone: "America/Chicago", branch_patterns: { feature: "feature/${description}" } },
+  projects: [
+    { name: "app", type: "tool", git: { remote_url: "git@github.com:me/app.git", default_branch: "main" } },
+    { name: "lib", type: "library" },
+  ],
+  bundles: [{ id: "default", name: "Default", projects: ["app", "lib"] }],
+  scripts: { deploy: "/base/deploy", lint: "/base/lint" },
+});
+
+const LAPTOP = write("laptop/hop.json", {
+  extends: "../base.json",
+  schema_version: "0.1.0",
+  machine: { id: "laptop", name: "Laptop", agent_root: "/Users/me/dev" },
+  preferences: { timezone: "Europe/Berlin" },
+  projects: [
+    { name: "app", path: "/Users/me/dev/app" },
+    { name: "notes", path: "/Users/me/notes" },
+  ],
+  bundles: [{ id: "default", name: "Default", projects: ["app"] }],
+  scripts: { deploy: "/laptop/deploy" },
+});
+
+describe("resolveHopConfig", () => {
+  const resolved = resolveHopConfig(LAPTOP);
+  const config = resolved.config;
+
+  it("merges projects by name and appends new ones", () => {
+    expect(config.projects!.map((p) => p.name)).toEqual(["app", "lib", "notes"]);
+    expect(config.projects![0]).toEqual({
+      name: "app",
+      type: "tool",
+      path: "/Users/me/dev/app",
+      git: { remote_url: "git@github.com:me/app.git", default_branch: "main" },
+    });
+  });
+
+  it("deep-merges objects and replaces plain arrays", () => {
+    expect(config.preferences).toEqual({
+      timezone: "Europe/Berlin",
+      branch_patterns: { feature: "feature/${description}" },
+    });
+    expect(config.bundles).toEqual([{ id: "default", name: "Default", projects: ["app"] }]);
+    expect(config.scripts).toEqual({ deploy: "/laptop/deploy", lint: "/base/lint" });
+  });
+
+  it("drops extends from the effective config", () => {
+    expect(config.extends).toBeUndefined();
+  });
+
+  it("lists contributing files base-first", () => {
+    expect(resolved.files).toEqual([BASE, LAPTOP]);
+  });
+
+  it("records which file supplied each value", () => {
+    expect(resolved.sources.get("/projects/0/path")?.file).toBe(LAPTOP);
+    expect(resolved.sources.get("/projects/0/type")?.file).toBe(BASE);
+    expect(resolved.sources.get("/projects/2/name")?.file).toBe(LAPTOP);
+    expect(resolved.sources.get("/preferences/timezone")?.file).toBe(LAPTOP);
+    expect(resolved.sources.get("/bundles/0/projects/0")?.file).toBe(LAPTOP);
+    expect(resolved.sources.has("/bundles/0/projects/1")).toBe(false);
+    expect(sourcesOf(resolved, "/projects/0")).toEqual([BASE, LAPTOP]);
+    expect(sourcesOf(resolved, "/accounts")).toEqual([BASE]);
+    expect(sourcesOf(resolved, "/nope")).toEqual([]);
+  });
+
+  it("maps merged pointers back to pointers in the source file", () => {
+    // notes is the laptop's second project but the merged config's third.
+    expect(resolved.sources.get("/projects/2/name")).toEqual({ file: LAPTOP, pointer: "/projects/1/name" });
+    expect(originOf(resolved, "/projects/2")).toEqual({ file: LAPTOP, pointer: "/projects/1" });
+    expect(originOf(resolved, "/projects/1")).toEqual({ file: BASE, pointer: "/projects/1" });
+    expect(originOf(resolved, "/accounts/github/0/username")).toEqual({ file: BASE, pointer: "/accounts/github/0/username" });
+    expect(originOf(resolved, "")).toEqual({ file: LAPTOP, pointer: "" });
+    expect(originOf(resolved, "/nope")).toBeUndefined();
+  });
+
+  it("locates merged values in the file that wrote them", () => {
+    // JSON.stringify(_, null, 2) puts each leaf on its own line.
+    expect(locate(resolved, "/projects/2/name")).toEqual({ file: LAPTOP, line: 18, column: 7 });
+    expect(locate(resolved, "/projects/1/type")).toEqual({ file: BASE, line: 29, column: 7 });
+    // Missing pointers fall back to the nearest ancestor that exists.
+    expect(locate(resolved, "/projects/1/path")).toEqual({ file: BASE, line: 27, column: 5 });
+    expect(formatLocation({ file: join(dir, "a", "hop.json"), line: 3, column: 5 }, dir)).toBe(join("a", "hop.json") + ":3:5");
+    expect(formatLocation({ file: "/elsewhere/hop.json", line: 1, column: 1 }, dir)).toBe("/elsewhere/hop.json:1:1");
+  });
+
+  it("merges an array of bases in order, later winning", () => {
+    const a = write("multi/a.json", { description: "a", machine: { id: "a", name: "A" } });
+    const b = write("multi/b.json", { description: "b" });
+    const child = write("multi/child.json", { extends: ["./a.json", "./b.json"], schema_version: "0.1.0" });
+    const r = resolveHopConfig(child);
+    expect(r.config.description).toBe("b");
+    expect(r.config.machine.id).toBe("a");
+    expect(r.files).toEqual([a, b, child]);
+  });
+
+  it("resolves unwritten contents in place of a file on disk", () => {
+    const edited = JSON.stringify({ extends: "../base.json", machine: { id: "draft", name: "Draft" } });
+    const r = resolveHopConfig(LAPTOP, new Map([[LAPTOP, edited]]));
+    expect(r.config.machine.id).toBe("draft");
+    expect(r.config.projects!.map((p) => p.name)).toEqual(["app", "lib"]);
+    expect(resolveHopConfig(LAPTOP).config.machine.id).toBe("laptop");
+  });
+
+  it("rejects circular chains", () => {
+    write("cycle/a.json", { extends: "./b.json" });
+    const b = write("cycle/b.json", { extends: "./a.json" });
+    expect(() => resolveHopConfig(b)).toThrow("Circular extends");
+  });
+
+  it("rejects chains deeper than five", () => {
+    for (let i = 0; i < 7; i++) {
+      write(`deep/${i}.json`, i < 6 ? { extends: `./${i + 1}.json` } : {});
+    }
+    expect(() => resolveHopConfig(join(dir, "deep", "0.json"))).toThrow("deeper than 5");
+  });
+
+  it("rejects missing and remote targets", () => {
+    const missing = write("bad/missing.json", { extends: "./nope.json" });
+    expect(() => resolveHopConfig(missing)).toThrow("extends target not found");
+    const remote = write("bad/remote.json", { extends: "https://example.com/hop.json" });
+    expect(() => resolveHopConfig(remote)).toThrow("remote extends targets are not supported");
+  });
+});
+
+describe("loadHopConfig with extends", () => {
+  it("checks required fields on the merged result only", () => {
+    // The base lacks machine entirely; only the merged config must have it.
+    expect(loadHopConfig(LAPTOP).machine.id).toBe("laptop");
+    expect(() => loadHopConfig(BASE)).toThrow("machine.id and machine.name");
+  });
+
+  it("prefixes load errors with a file position", () => {
+    expect(() => loadHopConfig(BASE)).toThrow(`${BASE}:1:1: hop.json missing required fields`);
+    const broken = join(dir, "broken.json");
+    writeFileSync(broken, '{\n  "machine": {\n    "id": "x",,\n  }\n}\n');
+    expect(() => loadHopConfig(broken)).toThrow(`${broken}:3:15: Expected property name`);
+  });
+});
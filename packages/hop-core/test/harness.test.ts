@@ -0,0 +1,72 @@
+/**
+ * Unit tests for harness observation: what each reader finds on disk and
+ * what it discloses it cannot see.
+ */
+
+import { describe, it, expect, beforeAll } from "bun:test";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { observeHarness } from "../src/harness.js";
+
+const DIR = mkdtempSync(join(tmpdir(), "hop-harness-test-"));
+const claudeConfig = join(DIR, ".claude.json");
+const claudeSettings = join(DIR, ".claude", "settings.json");
+const plugins = join(DIR, ".claude", "plugins");
+const skills = join(DIR, ".claude", "skills");
+const codexConfig = join(DIR, ".codex", "config.toml");
+
+beforeAll(() => {
+  mkdirSync(join(plugins, "cache", "formatter"), { recursive: true });
+  mkdirSync(join(skills, "release-notes"), { recursive: true });
+  mkdirSync(join(skills, ".hidden"), { recursive: true });
+  mkdirSync(join(DIR, ".codex"), { recursive: true });
+  writeFileSync(claudeConfig, JSON.stringify({
+    mcpServers: { hop: {} },
+    projects: { "/home/me/api": { mcpServers: { db: {} } } },
+  }));
+  writeFileSync(claudeSettings, JSON.stringify({
+    extraKnownMarketplaces: { team: {} },
+    enabledPlugins: { "linter@team": true, "old@team": false },
+  }));
+  writeFileSync(join(plugins, "known_marketplaces.json"), JSON.stringify({ official: {} }));
+  writeFileSync(codexConfig, '[mcp_servers.hop]\ncommand = "hop-mcp"\n\n[mcp_servers.search]\nurl = "http://x"\n');
+});
+
+describe("observeHarness", () => {
+  it("reads claude-code MCP servers at both scopes, plugins and skills", () => {
+    const obs = observeHarness({
+      name: "claude",
+      type: "claude-code",
+      config: claudeConfig,
+      settings: claudeSettings,
+      plugins,
+      skills: [skills, join(DIR, "missing")],
+    });
+    expect(obs).toMatchObject({ installed: true, parsed: true });
+    expect(obs.mcpServers).toEqual([
+      { name: "hop", scope: "machine", source: claudeConfig },
+      { name: "db", scope: "project: api", source: claudeConfig },
+    ]);
+    expect(obs.marketplaces).toEqual(["team", "official"]);
+    expect(obs.plugins).toEqual(["linter@team", "formatter"]);
+    expect(obs.skills).toEqual([
+      { path: skills, exists: true, count: 1 },
+      { path: join(DIR, "missing"), exists: false, count: 0 },
+    ]);
+    expect(obs.disclosures.some((d) => d.includes("held server-side"))).toBe(true);
+  });
+
+  it("scans codex TOML for server tables and discloses the shallow parse", () => {
+    const obs = observeHarness({ name: "codex", type: "codex", config: codexConfig });
+    expect(obs.mcpServers.map((m) => m.name)).toEqual(["hop", "search"]);
+    expect(obs.disclosures[0]).toContain("shallow scan");
+  });
+
+  it("lists locations it cannot parse and leads with a missing config", () => {
+    const obs = observeHarness({ name: "other", type: "aider", config: join(DIR, "nope.yml") });
+    expect(obs).toMatchObject({ installed: false, parsed: false, paths: [{ label: "config", exists: false }] });
+    expect(obs.disclosures[0]).toContain("appears not to be installed");
+    expect(obs.disclosures[1]).toContain('No reader for harness type "aider"');
+  });
+});
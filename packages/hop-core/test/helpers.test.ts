@@ -1,12 +1,23 @@
 /**
  * Unit tests for hop-core helper utilities.
- * Tests normalizeInfraRepo, infraRepoName, collectSystems, and system field validation patterns.
+ * Tests expandHome, normalizeInfraRepo, infraRepoName, collectSystems, and system field validation patterns.
  */
 
 import { describe, it, expect } from "bun:test";
-import { normalizeInfraRepo, infraRepoName, collectSystems } from "../src/helpers.js";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { expandHome, normalizeInfraRepo, infraRepoName, collectSystems } from "../src/helpers.js";
 import type { HopConfig } from "../src/types.js";
 
+describe("expandHome", () => {
+  it("expands ~ and ~/ only", () => {
+    expect(expandHome("~")).toBe(homedir());
+    expect(expandHome("~/.hop/secrets")).toBe(join(homedir(), ".hop", "secrets"));
+    expect(expandHome("~other/x")).toBe("~other/x");
+    expect(expandHome("/abs/~/x")).toBe("/abs/~/x");
+  });
+});
+
 describe("normalizeInfraRepo", () => {
   it("normalizes a string to an InfraRepoEntry", () => {
     const result = normalizeInfraRepo("my-repo");
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for the position-preserving JSON parser.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { readFileSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { parseJsonSource, locatePointer, JsonSyntaxError } from "../src/json-source.js";
+
+const EXAMPLES = join(import.meta.dir, "..", "..", "..", "spec", "examples");
+
+const TEXT = `{
+  "machine": { "id": "box", "name": "Box" },
+  "projects": [
+    { "name": "a/b", "tags": [] },
+    {
+      "name": "c~d"
+    }
+  ]
+}
+`;
+
+describe("parseJsonSource", () => {
+  it("produces the same value as JSON.parse", () => {
+    for (const file of readdirSync(EXAMPLES).filter((f) => f.endsWith(".json"))) {
+      const text = readFileSync(join(EXAMPLES, file), "utf-8");
+      expect(parseJsonSource(text).value).toEqual(JSON.parse(text));
+    }
+    const tricky = '{"s":"\\u00e9\\n\\"x\\"","n":[-0.5e3,0,1E2],"t":true,"f":false,"z":null,"d":1,"d":2}';
+    expect(parseJsonSource(tricky).value).toEqual(JSON.parse(tricky));
+  });
+
+  it("records offsets, keys and children by pointer", () => {
+    const source = parseJsonSource(TEXT);
+    const id = source.nodes.get("/machine/id")!;
+    expect(TEXT.slice(id.start, id.end)).toBe('"box"');
+    expect(TEXT.slice(id.key!.start, id.key!.end)).toBe('"id"');
+    expect(source.nodes.get("/projects")!.children).toEqual(["/projects/0", "/projects/1"]);
+    expect(source.nodes.get("/projects/0/name~1")).toBeUndefined();
+    expect(source.nodes.get("/projects/0/tags")!.type).toBe("array");
+    expect(source.nodes.get("")!.end).toBe(TEXT.length - 1);
+  });
+
+  it("rejects what JSON.parse rejects, with a position", () => {
+    for (const bad of ["", "{", '{"a":1,}', "[1 2]", "01", "'x'", '{"a":1} x', '"\t"', "nul"]) {
+      expect(() => JSON.parse(bad)).toThrow();
+      expect(() => parseJsonSource(bad)).toThrow(JsonSyntaxError);
+    }
+    try {
+      parseJsonSource('{\n  "a": 1,\n  "b" 2\n}');
+      throw new Error("expected a syntax error");
+    } catch (err) {
+      expect(err).toBeInstanceOf(JsonSyntaxError);
+      expect((err as JsonSyntaxError).line).toBe(3);
+      expect((err as JsonSyntaxError).column).toBe(7);
+    }
+  });
+});
+
+describe("locatePointer", () => {
+  const source = parseJsonSource(TEXT);
+
+  it("points object members at their key", () => {
+    expect(locatePointer(source, "/machine/name")).toEqual({ pointer: "/machine/name", line: 2, column: 29 });
+    expect(locatePointer(source, "/projects/1/name")).toEqual({ pointer: "/projects/1/name", line: 6, column: 7 });
+  });
+
+  it("points array elements at their value", () => {
+    expect(locatePointer(source, "/projects/1")).toEqual({ pointer: "/projects/1", line: 5, column: 5 });
+  });
+
+  it("falls back to the nearest existing ancestor", () => {
+    expect(locatePointer(source, "/projects/0/git/default_branch")).toEqual({ pointer: "/projects/0", line: 4, column: 5 });
+    expect(locatePointer(source, "/nope")).toEqual({ pointer: "", line: 1, column: 1 });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for project rename: every reference kind, across an extends
+ * chain, and the checks that refuse a rename.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { mkdtempSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { resolveHopConfig } from "../src/extends.js";
+import { planProjectRename, renameProject } from "../src/rename.js";
+
+function chain() {
+  const dir = mkdtempSync(join(tmpdir(), "hop-rename-test-"));
+  mkdirSync(join(dir, "laptop"));
+  const base = join(dir, "base.json");
+  writeFileSync(base, JSON.stringify({
+    projects: [{ name: "app", type: "tool" }],
+    bundles: [{ id: "web", name: "Web", projects: ["app", "lib"], primary_project: "app" }],
+  }, null, 2));
+  const laptop = join(dir, "laptop", "hop.json");
+  writeFileSync(laptop, `{
+  "extends": "../base.json",
+  "schema_version": "0.1.0",
+  "machine": { "id": "laptop", "name": "Laptop" },
+  "cross_project": { "home_project": "app" },
+  "projects": [
+    { "name": "app", "path": "/dev/app", "system": "app", "extensions": { "basic-memory": { "project_name": "app" }, "beads": { "prefix": "app" } } },
+    { "name": "lib", "path": "/dev/lib" }
+  ],
+  "bundles": [{ "id": "web", "name": "Web", "projects": ["lib", "app"] }]
+}
+`);
+  return { base, laptop };
+}
+
+describe("planProjectRename", () => {
+  it("finds every reference in every file of the chain", () => {
+    const { base, laptop } = chain();
+    const plan = planProjectRename(resolveHopConfig(laptop), "app", "site");
+    expect(plan.changes).toEqual([
+      { kind: "name", file: base, pointer: "/projects/0/name" },
+      { kind: "bundle", file: base, pointer: "/bundles/0/projects/0" },
+      { kind: "primary", file: base, pointer: "/bundles/0/primary_project" },
+      { kind: "name", file: laptop, pointer: "/projects/0/name" },
+      { kind: "extension", file: laptop, pointer: "/projects/0/extensions/basic-memory/project_name" },
+      { kind: "bundle", file: laptop, pointer: "/bundles/0/projects/1" },
+      { kind: "home", file: laptop, pointer: "/cross_project/home_project" },
+    ]);
+  });
+
+  it("reports other extension values equal to the name without rewriting them", () => {
+    const { laptop } = chain();
+    const plan = planProjectRename(resolveHopConfig(laptop), "app", "site");
+    expect(plan.mentions).toEqual([
+      { kind: "extension", file: laptop, pointer: "/projects/0/extensions/beads/prefix" },
+    ]);
+    expect(plan.edits.get(laptop)!.map((e) => e.pointer)).not.toContain("/projects/0/extensions/beads/prefix");
+  });
+
+  it("refuses unknown, taken and malformed names", () => {
+    const resolved = resolveHopConfig(chain().laptop);
+    expect(() => planProjectRename(resolved, "nope", "x")).toThrow('Project "nope" not found');
+    expect(() => planProjectRename(resolved, "app", "lib")).toThrow("already exists");
+    expect(() => planProjectRename(resolved, "app", "Not Slug")).toThrow("Invalid project name");
+  });
+});
+
+describe("renameProject", () => {
+  it("rewrites only the referencing values", () => {
+    const { laptop } = chain();
+    const before = readFileSync(laptop, "utf-8");
+    renameProject(resolveHopConfig(laptop), "app", "site");
+
+    expect(readFileSync(laptop, "utf-8")).toBe(before
+      .replace('"home_project": "app"', '"home_project": "site"')
+      .replace('{ "name": "app"', '{ "name": "site"')
+      .replace('"project_name": "app"', '"project_name": "site"')
+      .replace('["lib", "app"]', '["lib", "site"]'));
+
+    const merged = resolveHopConfig(laptop).config;
+    expect(merged.projects!.map((p) => p.name)).toEqual(["site", "lib"]);
+    expect(merged.projects![0].system).toBe("app");
+    expect(merged.projects![0].extensions).toMatchObject({ beads: { prefix: "app" } });
+    expect(merged.bundles![0]).toMatchObject({ projects: ["lib", "site"], primary_project: "site" });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for name resolution: each matching rule, ambiguity, and
+ * edit-distance suggestions.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { editDistance, resolveName, resolveProject, resolveSystem, resolveInfraRepo, resolveHarness, resolveRuntime, resolveService } from "../src/resolve.js";
+import type { HopConfig } from "../src/types.js";
+
+const config: HopConfig = {
+  schema_version: "0.1.0",
+  machine: { id: "m", name: "M" },
+  projects: [
+    { name: "api-prod", path: "/srv/api", system: "payments" },
+    { name: "api-staging", path: "/srv/api-staging", system: "payments" },
+    { name: "Website", path: "/home/me/site" },
+  ],
+  infra_repos: { path: "/infra", repos: ["terraform", { name: "helm", path: "/opt/charts" }] },
+  harnesses: [{ name: "claude-code", type: "claude-code" }, { name: "codex", type: "codex" }],
+  runtimes: [{ name: "node", entrypoint: "/usr/bin/node" }, { name: "bun" }],
+  services: { agent_mail: { url: "http://localhost:8765" }, beads: { binary: "bd" } },
+};
+
+function names(result: ReturnType<typeof resolveProject>): string[] {
+  if (result.status === "found") return [result.match.name];
+  return result.status === "ambiguous" ? result.candidates.map((c) => c.name) : result.suggestions.map((c) => c.name);
+}
+
+describe("resolveProject", () => {
+  it("matches exactly, then case-insensitively", () => {
+    expect(resolveProject(config, "api-prod")).toMatchObject({ status: "found", rule: "exact" });
+    expect(resolveProject(config, "website")).toMatchObject({ status: "found", rule: "case-insensitive" });
+  });
+
+  it("matches a unique prefix and reports an ambiguous one", () => {
+    expect(resolveProject(config, "web")).toMatchObject({ status: "found", rule: "prefix" });
+    const ambiguous = resolveProject(config, "api");
+    expect(ambiguous).toMatchObject({ status: "ambiguous", rule: "prefix" });
+    expect(names(ambiguous)).toEqual(["api-prod", "api-staging"]);
+  });
+
+  it("matches the basename of the project path", () => {
+    const result = resolveProject(config, "site");
+    expect(result).toMatchObject({ status: "found", rule: "basename" });
+    expect(names(result)).toEqual(["Website"]);
+  });
+
+  it("suggests close names but never resolves to them", () => {
+    const typo = resolveProject(config, "api-prd");
+    expect(typo.status).toBe("not_found");
+    expect(names(typo)).toEqual(["api-prod"]);
+    expect(names(resolveProject(config, "zzzzzz"))).toEqual([]);
+  });
+});
+
+describe("resolveSystem / resolveInfraRepo", () => {
+  it("resolves systems and infra repos with the same rules", () => {
+    expect(resolveSystem(config, "pay")).toMatchObject({ status: "found", match: { name: "payments" } });
+    expect(resolveInfraRepo(config, "charts")).toMatchObject({ status: "found", rule: "basename", match: { name: "helm" } });
+    expect(resolveInfraRepo(config, "TERRAFORM")).toMatchObject({ status: "found", match: { path: "/infra/terraform" } });
+  });
+});
+
+describe("resolveHarness / resolveRuntime / resolveService", () => {
+  it("resolves harnesses, runtimes and services by name", () => {
+    expect(resolveService(config, "agent")).toMatchObject({ status: "found", match: { name: "agent_mail", value: { url: "http://localhost:8765" } } });
+    expect(resolveHarness(config, "claude")).toMatchObject({ status: "found", rule: "prefix", match: { name: "claude-code" } });
+    expect(resolveRuntime(config, "NODE")).toMatchObject({ status: "found", match: { value: { entrypoint: "/usr/bin/node" } } });
+    expect(resolveRuntime(config, "bunn")).toMatchObject({ status: "not_found", suggestions: [{ name: "bun" }] });
+  });
+});
+
+describe("resolveName", () => {
+  it("prefers the first candidate for a shared exact name", () => {
+    const result = resolveName("x", [{ name: "x", value: 1 }, { name: "x", value: 2 }]);
+    expect(result).toMatchObject({ status: "found", match: { value: 1 } });
+  });
+
+  it("computes edit distance", () => {
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("same", "same")).toBe(0);
+  });
+});
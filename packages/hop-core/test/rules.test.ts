@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the semantic and environment validation rules
+ * (spec/validation-rules.md §2 and §3).
+ */
+
+import { describe, it, expect } from "bun:test";
+import { readFileSync, readdirSync, mkdirSync, mkdtempSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { validateSemantics, validateEnvironment } from "../src/rules.js";
+import type { HopConfig } from "../src/types.js";
+
+const EXAMPLES = join(import.meta.dir, "..", "..", "..", "spec", "examples");
+
+const makeConfig = (overrides: Partial<HopConfig> = {}): HopConfig => ({
+  schema_version: "0.1.0",
+  machine: { id: "test", name: "Test" },
+  ...overrides,
+});
+
+const rulesOf = (config: HopConfig) => validateSemantics(config).map((d) => d.rule);
+
+describe("validateSemantics", () => {
+  it("passes every spec example without errors", () => {
+    for (const file of readdirSync(EXAMPLES).filter((f) => f.endsWith(".json"))) {
+      const config = JSON.parse(readFileSync(join(EXAMPLES, file), "utf-8"));
+      const errors = validateSemantics(config).filter((d) => d.severity === "error");
+      expect({ file, errors }).toEqual({ file, errors: [] });
+    }
+  });
+
+  it("flags duplicate project names at the repeat", () => {
+    const diagnostics = validateSemantics(makeConfig({
+      projects: [{ name: "a" }, { name: "b" }, { name: "a" }],
+    }));
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      rule: "project.name.unique",
+      severity: "error",
+      path: "/projects/2/name",
+      message: 'Duplicate project name: "a" appears multiple times in projects array',
+    });
+  });
+
+  it("warns on duplicate project paths and names every project involved", () => {
+    const [d] = validateSemantics(makeConfig({
+      projects: [{ name: "a", path: "/x" }, { name: "b", path: "/x" }],
+    }));
+    expect(d.rule).toBe("project.path.unique");
+    expect(d.severity).toBe("warning");
+    expect(d.message).toContain("[a, b]");
+  });
+
+  it("requires account_override to name a github account", () => {
+    const config = makeConfig({
+      accounts: { github: [{ username: "me" }] },
+      projects: [{ name: "a", account_override: "me" }, { name: "b", account_override: "ghost" }],
+    });
+    const diagnostics = validateSemantics(config);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].path).toBe("/projects/1/account_override");
+    expect(diagnostics[0].message).toBe('Invalid account_override: "ghost" not found in accounts.github');
+  });
+
+  it("allows at most one default account per service", () => {
+    const [d] = validateSemantics(makeConfig({
+      accounts: { github: [{ username: "a", default: true }, { username: "b", default: true }] },
+    }));
+    expect(d.rule).toBe("default_account.single");
+    expect(d.message).toBe("Multiple default accounts for github: [a, b]. Only one default allowed.");
+  });
+
+  it("warns when pat_bws_id is set without https-pat", () => {
+    const [d] = validateSemantics(makeConfig({
+      accounts: { github: [{ username: "a", auth_method: "ssh", pat_bws_id: "x" }] },
+    }));
+    expect(d.rule).toBe("pat_bws_id.auth_method");
+    expect(d.severity).toBe("warning");
+    expect(d.message).toContain('auth_method is "ssh"');
+  });
+
+  it("checks bundle references against projects", () => {
+    const diagnostics = validateSemantics(makeConfig({
+      projects: [{ name: "a" }],
+      bundles: [
+        { id: "x", name: "X", projects: ["a", "missing"], primary_project: "b" },
+        { id: "x", name: "X again", projects: [] },
+      ],
+    }));
+    expect(diagnostics.map((d) => [d.rule, d.path])).toEqual([
+      ["bundle.id.unique", "/bundles/1/id"],
+      ["bundle.projects.valid", "/bundles/0/projects/1"],
+      ["bundle.primary.in_projects", "/bundles/0/primary_project"],
+    ]);
+  });
+
+  it("warns when cross_project.home_project is not a project", () => {
+    expect(rulesOf(makeConfig({ cross_project: { home_project: "hub" } }))).toEqual([
+      "cross_project.home.exists",
+    ]);
+  });
+
+  it("checks extension key format at machine and project scope", () => {
+    const diagnostics = validateSemantics(makeConfig({
+      extensions: { Bad: {} },
+      projects: [{ name: "a", extensions: { "ok-key": {}, "also/bad": {} } }],
+    }));
+    expect(diagnostics.map((d) => d.path)).toEqual(["/extensions/Bad", "/projects/0/extensions/also~1bad"]);
+  });
+
+  it("warns on duplicate beads prefixes", () => {
+    const [d] = validateSemantics(makeConfig({
+      projects: [
+        { name: "a", extensions: { beads: { prefix: "x" } } },
+        { name: "b", extensions: { beads: { prefix: "x" } } },
+      ],
+    }));
+    expect(d.rule).toBe("beads.prefix.unique");
+    expect(d.path).toBe("/projects/1/extensions/beads/prefix");
+  });
+});
+
+describe("validateEnvironment", () => {
+  const root = mkdtempSync(join(tmpdir(), "hop-rules-test-"));
+  mkdirSync(join(root, "repo", ".git"), { recursive: true });
+  mkdirSync(join(root, "plain"));
+
+  it("passes when every path exists", () => {
+    expect(validateEnvironment(makeConfig({
+      machine: { id: "test", name: "Test", agent_root: root },
+      projects: [{ name: "repo", path: join(root, "repo"), git: { default_branch: "main" } }],
+    }))).toEqual([]);
+  });
+
+  it("errors on a missing agent_root", () => {
+    const [d] = validateEnvironment(makeConfig({
+      machine: { id: "test", name: "Test", agent_root: join(root, "nope") },
+    }));
+    expect(d).toMatchObject({ rule: "agent_root.exists", severity: "error", path: "/machine/agent_root" });
+  });
+
+  it("warns on missing project paths and on git config without .git", () => {
+    const diagnostics = validateEnvironment(makeConfig({
+      projects: [
+        { name: "gone", path: join(root, "gone"), git: {} },
+        { name: "plain", path: join(root, "plain"), git: { default_branch: "main" } },
+        { name: "pathless" },
+      ],
+    }));
+    expect(diagnostics.map((d) => [d.rule, d.severity, d.path])).toEqual([
+      ["project.path.exists", "warning", "/projects/0/path"],
+      ["git.repo.exists", "warning", "/projects/1/git"],
+    ]);
+  });
+});
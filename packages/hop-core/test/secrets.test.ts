@@ -0,0 +1,102 @@
+/**
+ * Unit tests for secret references and providers.
+ */
+
+import { describe, it, expect, beforeAll } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  checkSecrets,
+  collectSecretRefs,
+  createSecretProvider,
+  resolveSecret,
+  secretProviders,
+  type SecretRef,
+} from "../src/secrets.js";
+import type { HopConfig } from "../src/types.js";
+
+const DIR = mkdtempSync(join(tmpdir(), "hop-secrets-test-"));
+
+const config: HopConfig = {
+  schema_version: "0.1.0",
+  machine: { id: "m", name: "M" },
+  accounts: { github: [{ username: "me" }, { username: "bot", auth_method: "https-pat", pat_bws_id: "pat-1" }] },
+  services: {
+    "agent/mail": { url: "http://localhost:8765", token_env: "HOP_TEST_MAIL_TOKEN" },
+    db: { token_env: "HOP_TEST_DB_TOKEN" },
+    plain: { url: "http://localhost:1" },
+  },
+};
+
+const ref = (kind: SecretRef["kind"], id: string): SecretRef => ({ kind, id, pointer: "/x", label: "x" });
+
+beforeAll(() => {
+  writeFileSync(join(DIR, "HOP_TEST_DB_TOKEN"), "from-file\n");
+  process.env.HOP_TEST_MAIL_TOKEN = "from-env";
+});
+
+describe("collectSecretRefs", () => {
+  it("lists pat_bws_id and token_env fields with their pointers", () => {
+    expect(collectSecretRefs(config)).toEqual([
+      { kind: "pat_bws_id", id: "pat-1", pointer: "/accounts/github/1/pat_bws_id", label: "GitHub PAT for bot" },
+      { kind: "token_env", id: "HOP_TEST_MAIL_TOKEN", pointer: "/services/agent~1mail/token_env", label: "token for service agent/mail" },
+      { kind: "token_env", id: "HOP_TEST_DB_TOKEN", pointer: "/services/db/token_env", label: "token for service db" },
+    ]);
+  });
+});
+
+describe("providers", () => {
+  it("reads env vars and files, trimming one trailing newline", () => {
+    const providers = [createSecretProvider({ type: "env" }), createSecretProvider({ type: "file", dir: DIR })];
+    expect(resolveSecret(ref("token_env", "HOP_TEST_MAIL_TOKEN"), providers)).toMatchObject({ value: "from-env" });
+    const db = resolveSecret(ref("token_env", "HOP_TEST_DB_TOKEN"), providers);
+    expect(db.value).toBe("from-file");
+    expect(db.status).toMatchObject({ resolved: true, provider: "file", attempts: [{ provider: "env", reason: "$HOP_TEST_DB_TOKEN is not set" }] });
+  });
+
+  it("refuses file ids that would read outside the secrets directory", () => {
+    const outside = join(DIR, "..", `hop-secrets-outside-${process.pid}`);
+    writeFileSync(outside, "not-a-secret\n");
+    const file = createSecretProvider({ type: "file", dir: DIR });
+    for (const id of [`../${outside.split("/").pop()}`, outside, "sub/../../x", "..\\x", ".."]) {
+      const lookup = file.resolve(ref("token_env", id));
+      expect(lookup.found).toBe(false);
+      expect(lookup).toMatchObject({ reason: expect.stringContaining("is not a file name in") });
+    }
+  });
+
+  it("takes the first line of a pass-style command and the value field of bws output", () => {
+    const pass = createSecretProvider({ type: "command", command: ["sh", "-c", "printf 'pw-%s\\nmeta\\n' \"$0\"", "{id}"] });
+    expect(pass.resolve(ref("pat_bws_id", "abc"))).toEqual({ found: true, value: "pw-abc" });
+
+    const bws = createSecretProvider({ type: "bws", command: ["sh", "-c", `echo '{"id":"'"$0"'","value":"tok"}'`, "{id}"] });
+    expect(bws.resolve(ref("pat_bws_id", "pat-1"))).toEqual({ found: true, value: "tok" });
+    expect(bws.accepts(ref("token_env", "X"))).toBe(false);
+  });
+
+  it("reports failed and missing commands by exit status only", () => {
+    const failing = createSecretProvider({ type: "command", command: ["sh", "-c", "echo leaked >&2; exit 3"] });
+    expect(failing.resolve(ref("token_env", "X"))).toEqual({ found: false, reason: "sh exited with status 3" });
+
+    const absent = resolveSecret(ref("pat_bws_id", "pat-1"), [createSecretProvider({ type: "bws", command: ["hop-no-such-bws", "{id}"] })]);
+    expect(absent.status).toMatchObject({ resolved: false, attempts: [{ provider: "bws", reason: "hop-no-such-bws is not installed" }] });
+  });
+
+  it("says when no provider handles a kind of reference", () => {
+    const { status } = resolveSecret(ref("pat_bws_id", "p"), [createSecretProvider({ type: "env" })]);
+    expect(status.attempts).toEqual([{ provider: "-", reason: "no provider is configured for pat_bws_id" }]);
+  });
+});
+
+describe("checkSecrets", () => {
+  it("uses configured providers and never returns values", () => {
+    const configured: HopConfig = { ...config, secrets: { providers: [{ type: "env" }, { type: "file", dir: DIR }] } };
+    expect(secretProviders(configured).map((p) => p.name)).toEqual(["env", "file"]);
+    const statuses = checkSecrets(configured);
+    expect(statuses.map((s) => s.resolved)).toEqual([false, true, true]);
+    const serialized = JSON.stringify(statuses);
+    expect(serialized).not.toContain("from-env");
+    expect(serialized).not.toContain("from-file");
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Streamable HTTP transport, for one long-lived server shared by several
+ * agent sessions or a remote IDE.
+ *
+ * Every client that sends `initialize` gets its own session: a fresh server
+ * from createServer() and a transport keyed by the `Mcp-Session-Id` header
+ * it answers with. Later requests (POST for messages, GET for the SSE
+ * notification stream, DELETE to end the session) are routed by that header.
+ * A client that goes away without DELETE is not told apart from a quiet one
+ * by the protocol, so a session with no open SSE stream and no request for
+ * `idleTimeoutMs` is closed.
+ *
+ * When a token is given, every request must carry `Authorization: Bearer
+ * <token>`. Without one, anyone who can reach the port can read hop.json, so
+ * binding beyond loopback without a token only starts with a warning.
+ *
+ * On loopback, requests must also name the server itself in `Host` (and in
+ * `Origin`, when a browser sends one): otherwise a web page could rebind its
+ * own domain to 127.0.0.1 and read hop.json through the visitor's browser.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer, type HopSession } from "./server.js";
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3939;
+export const MCP_PATH = "/mcp";
+
+export const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Largest request body accepted, in bytes. */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  /** Bearer token every request must present; no auth when undefined. */
+  token?: string;
+  /** Close a session after this long with no request and no open stream. */
+  idleTimeoutMs?: number;
+}
+
+interface LiveSession {
+  session: HopSession;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  /** Open GET (SSE) streams; a client holding one is still there. */
+  streams: number;
+}
+
+const LOOPBACK = new Set(["127.0.0.1", "::1", "localhost"]);
+
+/** The Host values a loopback server on `port` answers to. */
+function loopbackHosts(port: number): string[] {
+  return [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+function authorized(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** The request body parsed as JSON; undefined when it is not JSON or too large. */
+async function readJson(req: IncomingMessage): Promise<{ body: unknown } | undefined> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) return undefined;
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return { body: JSON.parse(Buffer.concat(chunks).toString("utf-8")) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Listen for MCP clients on http://host:port/mcp. Each session's server is
+ * added to `sessions` once initialized and removed when it closes, so the
+ * caller can notify them all.
+ */
+export async function startHttpServer(options: HttpOptions, sessions: Set<HopSession>): Promise<Server> {
+  if (!options.token && !LOOPBACK.has(options.host)) {
+    console.error(`Warning: serving hop.json on ${options.host} without a token. Set HOP_MCP_TOKEN to require one.`);
+  }
+  const live = new Map<string, LiveSession>();
+  // Known once listening, since port 0 picks the port
+  let allowedHosts: string[] | undefined;
+
+  async function startSession(req: IncomingMessage, res: ServerResponse, body: unknown) {
+    const session = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      ...(allowedHosts && {
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+        allowedOrigins: allowedHosts.map((host) => `http://${host}`),
+      }),
+      onsessioninitialized: (id) => {
+        live.set(id, { session, transport, lastSeen: Date.now(), streams: 0 });
+        sessions.add(session);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) live.delete(transport.sessionId);
+      sessions.delete(session);
+    };
+    await session.server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (path !== MCP_PATH) {
+      sendError(res, 404, -32000, `Not found: MCP is served at ${MCP_PATH}`);
+      return;
+    }
+    if (options.token && !authorized(req, options.token)) {
+      sendError(res, 401, -32001, "Unauthorized: send Authorization: Bearer <HOP_MCP_TOKEN>", { "WWW-Authenticate": "Bearer" });
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const entry = live.get(sessionId);
+      if (!entry) {
+        sendError(res, 404, -32001, `Session '${sessionId}' not found; send initialize to start a new one`);
+        return;
+      }
+      entry.lastSeen = Date.now();
+      if (req.method === "GET") {
+        entry.streams++;
+        res.once("close", () => {
+          entry.streams--;
+          entry.lastSeen = Date.now();
+        });
+      }
+      await entry.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendError(res, 400, -32000, "Bad Request: no Mcp-Session-Id header");
+      return;
+    }
+    const parsed = await readJson(req);
+    if (!parsed) {
+      sendError(res, 400, -32700, "Parse error: the body is not JSON or is too large");
+      return;
+    }
+    if (!isInitializeRequest(parsed.body)) {
+      sendError(res, 400, -32000, "Bad Request: no Mcp-Session-Id header, and the request is not initialize");
+      return;
+    }
+    await startSession(req, res, parsed.body);
+  }
+
+  const server = createHttpServer((req, res) => {
+    handle(req, res).catch((err) => {
+      console.error("hop-mcp: request failed:", err);
+      if (!res.headersSent) sendError(res, 500, -32603, "Internal error");
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const entry of live.values()) {
+      if (entry.streams === 0 && now - entry.lastSeen >= idleTimeoutMs) void entry.session.server.close();
+    }
+  }, Math.min(idleTimeoutMs, 60_000));
+  sweep.unref();
+  server.once("close", () => clearInterval(sweep));
+
+  const address = server.address();
+  if (LOOPBACK.has(options.host) && typeof address === "object" && address) {
+    allowedHosts = loopbackHosts(address.port);
+  }
+  return server;
+}
@@ -3,484 +3,112 @@
 /**
  * HarnessOps MCP Server
  *
- * Exposes hop.json data to AI agents via Model Context Protocol.
+ * Exposes hop.json data to AI agents via Model Context Protocol. See
+ * server.ts for the tools and resources.
  *
- * Tools:
- *   - hop_machine       — Get machine identity and configuration
- *   - hop_list_projects — List all projects (names, paths, types)
- *   - hop_get_project   — Get full project details by name
- *   - hop_get_account   — Get account info by service and optional username
- *   - hop_list_bundles  — List all bundles (project groupings)
- *   - hop_get_bundle    — Get bundle details with resolved project objects
- *   - hop_list_infra_repos — List infrastructure repo clones
- *   - hop_list_systems    — List all unique systems with their projects and infra repos
- *   - hop_get_system      — Get projects + infra repos for a specific system
+ * Transports:
+ *   hop-mcp                                   — stdio, one client (default)
+ *   hop-mcp --http [--host H] [--port P]      — streamable HTTP on http://H:P/mcp,
+ *                                               one server per session; set
+ *                                               HOP_MCP_TOKEN to require a bearer token
+ *
+ * While running, the server watches hop.json, its `extends` parents and
+ * ~/.hop/settings.json, and tells every connected client what changed.
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { parseArgs } from "node:util";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { z } from "zod";
-import { discoverAndLoad, collectSystems, normalizeInfraRepo, infraRepoName, type HopConfig, type Project, type InfraRepoEntry } from "@hop-org/hop-spec-core";
-
-function loadConfig(): { config: HopConfig; path: string } {
-  const result = discoverAndLoad();
-  if (!result) {
-    throw new Error(
-      "hop.json not found. Set HOP_CONFIG_PATH or place hop.json in a parent directory."
-    );
-  }
-  return result;
-}
-
-// ---------- MCP Server ----------
-
-const server = new McpServer(
-  {
-    name: "hop-mcp",
-    version: "0.1.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-// ---------- Selective Tool Loading ----------
-// Set HOP_MCP_TOOLS="hop_machine,hop_list_projects" to load only those tools.
-// Omit the variable to load all 9 tools (default).
-
-const HOP_MCP_TOOLS_ENV = process.env.HOP_MCP_TOOLS;
-const enabledTools: Set<string> | null = HOP_MCP_TOOLS_ENV
-  ? new Set(HOP_MCP_TOOLS_ENV.split(",").map(t => t.trim()).filter(Boolean))
-  : null;
-
-function shouldRegister(name: string): boolean {
-  return enabledTools === null || enabledTools.has(name);
-}
+import { createServer, resourceSnapshot, type HopSession, type ResourceSnapshot } from "./server.js";
+import { startHttpServer, DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT } from "./http.js";
+import { watchHopConfig } from "./watch.js";
 
-// --- hop_machine ---
-if (shouldRegister("hop_machine")) server.tool(
-  "hop_machine",
-  "Get machine identity and configuration from hop.json. Returns machine id, name, type, OS, architecture, and agent_root.",
-  {},
-  async () => {
-    const { config, path } = loadConfig();
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              config_path: path,
-              schema_version: config.schema_version,
-              machine: config.machine,
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
-  }
-);
-
-// --- hop_list_projects ---
-if (shouldRegister("hop_list_projects")) server.tool(
-  "hop_list_projects",
-  "List all projects registered in hop.json. Returns name, path, and type for each project.",
-  {
-    type: z
-      .string()
-      .optional()
-      .describe("Filter projects by type (e.g., 'tool', 'website', 'dev-env')"),
-  },
-  async ({ type }) => {
-    const { config } = loadConfig();
-    let projects = config.projects ?? [];
-
-    if (type) {
-      projects = projects.filter((p) => p.type === type);
-    }
-
-    const summary = projects.map((p) => ({
-      name: p.name,
-      path: p.path ?? null,
-      type: p.type ?? null,
-      system: p.system ?? null,
-    }));
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({ count: summary.length, projects: summary }, null, 2),
-        },
-      ],
-    };
-  }
-);
-
-// --- hop_get_project ---
-if (shouldRegister("hop_get_project")) server.tool(
-  "hop_get_project",
-  "Get full details for a specific project by name. Returns all fields including git config, extensions, and integrations.",
-  {
-    name: z.string().describe("Project name (slug) to look up"),
-  },
-  async ({ name }) => {
-    const { config } = loadConfig();
-    const project = (config.projects ?? []).find((p) => p.name === name);
-
-    if (!project) {
-      const available = (config.projects ?? []).map((p) => p.name);
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              {
-                error: `Project '${name}' not found`,
-                available_projects: available,
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(project, null, 2),
-        },
-      ],
-    };
-  }
-);
+const USAGE = `Usage: hop-mcp [--http] [--host <address>] [--port <port>]
 
-// --- hop_get_account ---
-if (shouldRegister("hop_get_account")) server.tool(
-  "hop_get_account",
-  "Get account information by service (e.g., 'github'). Optionally filter by username. Returns all matching accounts.",
-  {
-    service: z
-      .string()
-      .describe("Service name (e.g., 'github')"),
-    username: z
-      .string()
-      .optional()
-      .describe("Optional username to filter by"),
-  },
-  async ({ service, username }) => {
-    const { config } = loadConfig();
-    const accounts = config.accounts;
+  --http            Serve streamable HTTP at /mcp instead of stdio
+  --host <address>  Address to bind (default: ${DEFAULT_HTTP_HOST})
+  --port <port>     Port to listen on (default: ${DEFAULT_HTTP_PORT})
 
-    if (!accounts) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({ error: "No accounts configured in hop.json" }, null, 2),
-          },
-        ],
-        isError: true,
-      };
-    }
+Set HOP_MCP_TOKEN to require "Authorization: Bearer <token>" on HTTP requests.`;
 
-    const serviceAccounts = accounts[service];
-    if (!serviceAccounts || !Array.isArray(serviceAccounts)) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              {
-                error: `No accounts found for service '${service}'`,
-                available_services: Object.keys(accounts),
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
-      };
-    }
+// ---------- Change notifications ----------
 
-    let results = serviceAccounts;
-    if (username) {
-      results = serviceAccounts.filter(
-        (a: any) => a.username === username
-      );
-    }
+const sessions = new Set<HopSession>();
+let lastSnapshot: ResourceSnapshot = new Map();
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            { service, count: results.length, accounts: results },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+/** Compare against the last snapshot and tell every session what changed. */
+function notifyChanges() {
+  let next: ResourceSnapshot;
+  try {
+    next = resourceSnapshot();
+  } catch {
+    // Saved mid-edit or invalid: wait for the next save that loads
+    return;
   }
-);
+  const previous = lastSnapshot;
+  lastSnapshot = next;
+  for (const session of sessions) session.notify(previous, next);
+}
 
-// --- hop_list_bundles ---
-if (shouldRegister("hop_list_bundles")) server.tool(
-  "hop_list_bundles",
-  "List all bundles defined in hop.json. Bundles are logical groupings of projects for workflow organization. Optionally filter to only bundles containing a specific project.",
-  {
-    project: z
-      .string()
-      .optional()
-      .describe("Filter to bundles containing this project name"),
-  },
-  async ({ project }) => {
-    const { config } = loadConfig();
-    let bundles = config.bundles ?? [];
+// ---------- Start ----------
 
-    if (project) {
-      bundles = bundles.filter((b) => b.projects.includes(project));
-    }
+function usageError(message: string): never {
+  console.error(`Error: ${message}`);
+  console.error(USAGE);
+  process.exit(1);
+}
 
-    const summary = bundles.map((b) => ({
-      id: b.id,
-      name: b.name,
-      description: b.description ?? null,
-      projects: b.projects,
-      primary_project: b.primary_project ?? b.projects[0] ?? null,
+async function main() {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      options: {
+        http: { type: "boolean", default: false },
+        host: { type: "string", default: DEFAULT_HTTP_HOST },
+        port: { type: "string", default: String(DEFAULT_HTTP_PORT) },
+        help: { type: "boolean", short: "h", default: false },
+      },
     }));
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({ count: summary.length, bundles: summary }, null, 2),
-        },
-      ],
-    };
+  } catch (err) {
+    usageError(err instanceof Error ? err.message : String(err));
   }
-);
-
-// --- hop_get_bundle ---
-if (shouldRegister("hop_get_bundle")) server.tool(
-  "hop_get_bundle",
-  "Get full details for a specific bundle by ID, including resolved project details for each member project.",
-  {
-    id: z.string().describe("Bundle ID (slug) to look up"),
-  },
-  async ({ id }) => {
-    const { config } = loadConfig();
-    const bundles = config.bundles ?? [];
-    const bundle = bundles.find((b) => b.id === id);
-
-    if (!bundle) {
-      const available = bundles.map((b) => b.id);
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              {
-                error: `Bundle '${id}' not found`,
-                available_bundles: available,
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    const projects = config.projects ?? [];
-    const resolved = bundle.projects.map((name) => {
-      const p = projects.find((proj) => proj.name === name);
-      return p
-        ? { name: p.name, path: p.path ?? null, type: p.type ?? null }
-        : { name, path: null, type: null, _missing: true };
-    });
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              ...bundle,
-              primary_project: bundle.primary_project ?? bundle.projects[0] ?? null,
-              resolved_projects: resolved,
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+  if (values.help) {
+    console.error(USAGE);
+    return;
   }
-);
-
-// --- hop_list_infra_repos ---
-if (shouldRegister("hop_list_infra_repos")) server.tool(
-  "hop_list_infra_repos",
-  "List infrastructure repository clones defined in hop.json. Infra repos are read-only reference clones of external repositories used for source inspection, API reference, or building from source.",
-  {},
-  async () => {
-    const { config } = loadConfig();
-    const infra = config.infra_repos;
-
-    if (!infra) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              { path: null, readonly: true, repos: [], count: 0 },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    }
-
-    const repos = (infra.repos ?? []).map((entry) => normalizeInfraRepo(entry));
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              path: infra.path ?? null,
-              readonly: infra.readonly !== false,
-              sync: infra.sync ?? null,
-              contribute: infra.contribute ?? null,
-              repos: repos,
-              count: repos.length,
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    usageError(`--port must be a port number, got '${values.port}'`);
   }
-);
 
-// --- hop_list_systems ---
-if (shouldRegister("hop_list_systems")) server.tool(
-  "hop_list_systems",
-  "List all unique systems defined across projects and infra repos. A system groups multiple repos that cooperate to deliver one capability (inspired by Backstage's System Model).",
-  {},
-  async () => {
-    const { config } = loadConfig();
-    const systems = collectSystems(config);
-
-    const result: Array<{
-      system: string;
-      project_count: number;
-      infra_repo_count: number;
-      projects: Array<{ name: string; path: string | null; type: string | null }>;
-      infra_repos: Array<{ name: string; description: string | null; upstream: string | null }>;
-    }> = [];
-    for (const [sysName, data] of systems as Map<string, { projects: Project[]; infraRepos: InfraRepoEntry[] }>) {
-      result.push({
-        system: sysName,
-        project_count: data.projects.length,
-        infra_repo_count: data.infraRepos.length,
-        projects: data.projects.map((p) => ({
-          name: p.name,
-          path: p.path ?? null,
-          type: p.type ?? null,
-        })),
-        infra_repos: data.infraRepos.map((r) => ({
-          name: r.name,
-          description: r.description ?? null,
-          upstream: r.upstream ?? null,
-        })),
-      });
-    }
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({ count: result.length, systems: result }, null, 2),
-        },
-      ],
-    };
+  try {
+    lastSnapshot = resourceSnapshot();
+  } catch {
+    // Tools report the load error; notifications start once hop.json loads
   }
-);
-
-// --- hop_get_system ---
-if (shouldRegister("hop_get_system")) server.tool(
-  "hop_get_system",
-  "Get all projects and infra repos belonging to a specific system. Returns full project details and infra repo metadata for the named system.",
-  {
-    name: z.string().describe("System identifier (lowercase slug) to look up"),
-  },
-  async ({ name }) => {
-    const { config } = loadConfig();
-    const systems = collectSystems(config);
-    const system = systems.get(name);
-
-    if (!system) {
-      const available = Array.from(systems.keys());
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              {
-                error: `System '${name}' not found`,
-                available_systems: available,
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              system: name,
-              project_count: system.projects.length,
-              infra_repo_count: system.infraRepos.length,
-              projects: system.projects,
-              infra_repos: system.infraRepos,
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+  const watcher = watchHopConfig(notifyChanges);
+
+  if (!values.http) {
+    const session = createServer();
+    sessions.add(session);
+    session.server.server.onclose = () => watcher.close();
+    await session.server.connect(new StdioServerTransport());
+    return;
   }
-);
 
-// ---------- Start ----------
-
-async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  const token = process.env.HOP_MCP_TOKEN || undefined;
+  const http = await startHttpServer({ host: values.host, port, token }, sessions);
+  const address = http.address();
+  const url = `http://${values.host}:${typeof address === "object" && address ? address.port : port}/mcp`;
+  console.error(`hop-mcp listening on ${url}${token ? " (bearer token required)" : ""}`);
+
+  const shutdown = () => {
+    watcher.close();
+    http.close();
+    for (const session of sessions) void session.server.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
 }
 
 main().catch((err) => {
@@ -0,0 +1,133 @@
+/**
+ * Service health probes for hop_check_service.
+ *
+ * A probe answers "is it there?" and nothing more: an HTTP endpoint that
+ * answers with any status is reachable, a binary found on PATH is present.
+ * Probes never send the service's token and never run the binary, so asking
+ * about a service cannot change it.
+ */
+
+import { accessSync, constants, statSync } from "node:fs";
+import { connect } from "node:net";
+import { delimiter, isAbsolute, join, resolve } from "node:path";
+import type { Service } from "@hop-org/hop-spec-core";
+
+export const DEFAULT_PROBE_TIMEOUT_MS = 3000;
+
+export type UrlProbe =
+  | { url: string; reachable: true; status?: number; latency_ms: number }
+  | { url: string; reachable: false; error: string };
+
+export type BinaryProbe = { binary: string; found: true; path: string } | { binary: string; found: false; searched: number };
+
+export interface ServiceProbe {
+  url?: UrlProbe;
+  binary?: BinaryProbe;
+  /** True when every declared endpoint answered and every binary was found. */
+  healthy: boolean;
+}
+
+function describeError(err: unknown, timeoutMs: number): string {
+  if (err instanceof Error && (err.name === "TimeoutError" || err.name === "AbortError")) {
+    return `no answer within ${timeoutMs}ms`;
+  }
+  // Node puts the socket error code on `cause`; Bun puts it on the error itself
+  const code = (err as { code?: unknown })?.code ?? ((err as { cause?: { code?: unknown } })?.cause?.code);
+  if (typeof code === "string") return code;
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Open and close a TCP connection, for endpoints fetch cannot speak to. */
+function probeTcp(host: string, port: number, timeoutMs: number): Promise<void> {
+  return new Promise((resolvePromise, reject) => {
+    const socket = connect({ host, port });
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(Object.assign(new Error("timed out"), { name: "TimeoutError" }));
+    }, timeoutMs);
+    socket.once("connect", () => {
+      clearTimeout(timer);
+      socket.end();
+      resolvePromise();
+    });
+    socket.once("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+  });
+}
+
+/**
+ * Request the URL without credentials. http(s) gets a GET whose response is
+ * discarded; other schemes with a port (redis://host:6379, say) get a TCP
+ * connect.
+ */
+export async function probeUrl(url: string, timeoutMs = DEFAULT_PROBE_TIMEOUT_MS): Promise<UrlProbe> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { url, reachable: false, error: "not a valid URL" };
+  }
+
+  const started = Date.now();
+  try {
+    if (parsed.protocol === "http:" || parsed.protocol === "https:") {
+      const res = await fetch(parsed, { redirect: "manual", signal: AbortSignal.timeout(timeoutMs) });
+      await res.body?.cancel();
+      return { url, reachable: true, status: res.status, latency_ms: Date.now() - started };
+    }
+    if (!parsed.hostname || !parsed.port) {
+      return { url, reachable: false, error: `cannot probe ${parsed.protocol}// without a host and port` };
+    }
+    await probeTcp(parsed.hostname, Number(parsed.port), timeoutMs);
+    return { url, reachable: true, latency_ms: Date.now() - started };
+  } catch (err) {
+    return { url, reachable: false, error: describeError(err, timeoutMs) };
+  }
+}
+
+function isExecutable(path: string): boolean {
+  try {
+    if (!statSync(path).isFile()) return false;
+    accessSync(path, constants.X_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the binary the way a shell would: a name with a slash is a path, a
+ * bare name is looked up in each PATH directory (with PATHEXT on Windows).
+ */
+export function findBinary(binary: string, env: NodeJS.ProcessEnv = process.env): BinaryProbe {
+  if (isAbsolute(binary) || binary.includes("/") || binary.includes("\\")) {
+    const path = resolve(binary);
+    return isExecutable(path) ? { binary, found: true, path } : { binary, found: false, searched: 1 };
+  }
+
+  const dirs = (env.PATH ?? "").split(delimiter).filter(Boolean);
+  const extensions = process.platform === "win32" ? ["", ...(env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";")] : [""];
+  for (const dir of dirs) {
+    for (const ext of extensions) {
+      const path = join(dir, binary + ext);
+      if (isExecutable(path)) return { binary, found: true, path };
+    }
+  }
+  return { binary, found: false, searched: dirs.length };
+}
+
+/** Probe whatever the service declares: its url, its binary, or both. */
+export async function probeService(service: Service, timeoutMs = DEFAULT_PROBE_TIMEOUT_MS): Promise<ServiceProbe> {
+  const probe: ServiceProbe = { healthy: true };
+  if (service.url) {
+    probe.url = await probeUrl(service.url, timeoutMs);
+    if (!probe.url.reachable) probe.healthy = false;
+  }
+  if (service.binary) {
+    probe.binary = findBinary(service.binary);
+    if (!probe.binary.found) probe.healthy = false;
+  }
+  return probe;
+}
@@ -0,0 +1,951 @@
+/**
+ * The HarnessOps MCP server: tools and resources over hop.json.
+ *
+ * createServer() builds one server per client connection — the single stdio
+ * client, or each HTTP session — so subscriptions are never shared.
+ *
+ * Tools:
+ *   - hop_machine       — Get machine identity and configuration
+ *   - hop_list_projects — List all projects (names, paths, types)
+ *   - hop_get_project   — Get full project details by name
+ *   - hop_current_project — Get the project containing a directory (default: the server's cwd)
+ *   - hop_get_account   — Get account info by service and optional username
+ *   - hop_project_account — Get the GitHub account a project pushes with, and why
+ *   - hop_list_bundles  — List all bundles (project groupings)
+ *   - hop_get_bundle    — Get bundle details with resolved project objects
+ *   - hop_list_infra_repos — List infrastructure repo clones
+ *   - hop_list_systems    — List all unique systems with their projects and infra repos
+ *   - hop_get_system      — Get projects + infra repos for a specific system
+ *   - hop_list_harnesses  — List declared agent harnesses and whether each is installed
+ *   - hop_observe_harness — Read back a harness's active MCP servers, plugins and skills, with disclosures
+ *   - hop_list_runtimes   — List installed runtimes with their managers
+ *   - hop_get_runtime     — Get one runtime, with which of its paths exist
+ *   - hop_list_services   — List services with url/binary and whether their token env var is set
+ *   - hop_get_service     — Get one service by name
+ *   - hop_check_service   — Probe a service's URL or find its binary on PATH, with a timeout
+ *
+ * Resources:
+ *   - hop://machine          — Machine identity, config path and schema version
+ *   - hop://config           — The whole merged hop.json
+ *   - hop://projects/{name}  — One project (listed and completable)
+ *   - hop://bundles/{id}     — One bundle with resolved projects
+ *   - hop://systems/{name}   — One system's projects and infra repos
+ *
+ * When hop.json changes, notify() sends `resources/list_changed` if resources
+ * came or went and `resources/updated` for subscribed ones whose content changed.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync } from "node:fs";
+import { z } from "zod";
+import { probeService, DEFAULT_PROBE_TIMEOUT_MS } from "./probe.js";
+import { discoverAndLoad, collectSystems, normalizeInfraRepo, infraRepoName, resolveProject, resolveBundle, resolveSystem, resolveHarness, resolveRuntime, resolveService, observeHarness, projectForPath, resolveGitHubAccount, type HopConfig, type Bundle, type Project, type InfraRepoEntry, type NameResolution, type Service } from "@hop-org/hop-spec-core";
+
+function loadConfig(): { config: HopConfig; path: string } {
+  const result = discoverAndLoad();
+  if (!result) {
+    throw new Error(
+      "hop.json not found. Set HOP_CONFIG_PATH or place hop.json in a parent directory."
+    );
+  }
+  return result;
+}
+
+/**
+ * Error result for a lookup that did not resolve to one name. Ambiguous
+ * partial names list their `candidates`; unknown ones get `did_you_mean`
+ * suggestions, so the agent can retry with a real name instead of guessing.
+ */
+function unresolved<T>(
+  what: string,
+  query: string,
+  result: Exclude<NameResolution<T>, { status: "found" }>,
+  available: Record<string, string[]>
+) {
+  const body =
+    result.status === "ambiguous"
+      ? { error: `'${query}' matches more than one ${what.toLowerCase()}`, candidates: result.candidates.map((c) => c.name) }
+      : { error: `${what} '${query}' not found`, did_you_mean: result.suggestions.map((c) => c.name) };
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify({ ...body, ...available }, null, 2) }],
+    isError: true,
+  };
+}
+
+/** Machine identity with where it came from, as hop_machine and hop://machine return it. */
+function machineDetail(config: HopConfig, path: string) {
+  return { config_path: path, schema_version: config.schema_version, machine: config.machine };
+}
+
+/** A bundle with its primary project and member project summaries, as hop_get_bundle and hop://bundles/{id} return it. */
+function bundleDetail(config: HopConfig, bundle: Bundle) {
+  const projects = config.projects ?? [];
+  const resolved = bundle.projects.map((name) => {
+    const p = projects.find((proj) => proj.name === name);
+    return p
+      ? { name: p.name, path: p.path ?? null, type: p.type ?? null }
+      : { name, path: null, type: null, _missing: true };
+  });
+  return {
+    ...bundle,
+    primary_project: bundle.primary_project ?? bundle.projects[0] ?? null,
+    resolved_projects: resolved,
+  };
+}
+
+/** A system's members, as hop_get_system and hop://systems/{name} return them. */
+function systemDetail(name: string, system: { projects: Project[]; infraRepos: InfraRepoEntry[] }) {
+  return {
+    system: name,
+    project_count: system.projects.length,
+    infra_repo_count: system.infraRepos.length,
+    projects: system.projects,
+    infra_repos: system.infraRepos,
+  };
+}
+
+/**
+ * A service as hop_list_services and hop_get_service return it. Only whether
+ * `token_env` is set is reported — the token itself never leaves the server.
+ */
+function serviceDetail(name: string, service: Service) {
+  return {
+    name,
+    url: service.url ?? null,
+    binary: service.binary ?? null,
+    description: service.description ?? null,
+    token_env: service.token_env ?? null,
+    token_env_set: service.token_env ? Boolean(process.env[service.token_env]) : null,
+  };
+}
+
+// ---------- Selective Tool Loading ----------
+// Set HOP_MCP_TOOLS="hop_machine,hop_list_projects" to load only those tools.
+// Omit the variable to load all 18 tools (default).
+
+const HOP_MCP_TOOLS_ENV = process.env.HOP_MCP_TOOLS;
+const enabledTools: Set<string> | null = HOP_MCP_TOOLS_ENV
+  ? new Set(HOP_MCP_TOOLS_ENV.split(",").map(t => t.trim()).filter(Boolean))
+  : null;
+
+function shouldRegister(name: string): boolean {
+  return enabledTools === null || enabledTools.has(name);
+}
+
+// ---------- Resource helpers ----------
+
+const JSON_MIME = "application/json";
+
+function jsonResource(uri: URL, value: unknown) {
+  return { contents: [{ uri: uri.href, mimeType: JSON_MIME, text: JSON.stringify(value, null, 2) }] };
+}
+
+/** A template variable's value; the SDK passes repeated ones as an array. */
+function variable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/** Complete a template variable from names starting with what was typed. */
+function completeFrom(names: (config: HopConfig) => string[]) {
+  return (value: string) => names(loadConfig().config).filter((n) => n.startsWith(value));
+}
+
+function notFound(uri: URL, what: string, query: string, available: string[]): never {
+  throw new McpError(ErrorCode.InvalidParams, `Resource ${uri.href} not found: no ${what} '${query}'. Available: ${available.join(", ") || "none"}`);
+}
+
+const projectNames = (config: HopConfig) => (config.projects ?? []).map((p) => p.name);
+const bundleIds = (config: HopConfig) => (config.bundles ?? []).map((b) => b.id);
+const systemNames = (config: HopConfig) => Array.from(collectSystems(config).keys());
+
+/** The text of each listed resource, by URI. */
+export type ResourceSnapshot = Map<string, string>;
+
+/** Read every listed resource now. Empty when there is no hop.json; throws when it does not load. */
+export function resourceSnapshot(): ResourceSnapshot {
+  const snapshot: ResourceSnapshot = new Map();
+  const loaded = discoverAndLoad();
+  if (!loaded) return snapshot;
+  const { config, path } = loaded;
+  const add = (uri: string, value: unknown) => snapshot.set(uri, JSON.stringify(value, null, 2));
+  add("hop://machine", machineDetail(config, path));
+  add("hop://config", config);
+  for (const p of config.projects ?? []) add(`hop://projects/${encodeURIComponent(p.name)}`, p);
+  for (const b of config.bundles ?? []) add(`hop://bundles/${encodeURIComponent(b.id)}`, bundleDetail(config, b));
+  for (const [name, system] of collectSystems(config)) add(`hop://systems/${encodeURIComponent(name)}`, systemDetail(name, system));
+  return snapshot;
+}
+
+// ---------- Server ----------
+
+export interface HopSession {
+  server: McpServer;
+  /** Tell this session's client what differs between two resource snapshots. */
+  notify(previous: ResourceSnapshot, next: ResourceSnapshot): void;
+}
+
+export function createServer(): HopSession {
+  const server = new McpServer(
+    {
+      name: "hop-mcp",
+      version: "0.1.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+      },
+    }
+  );
+
+  // --- hop_machine ---
+  if (shouldRegister("hop_machine")) server.tool(
+    "hop_machine",
+    "Get machine identity and configuration from hop.json. Returns machine id, name, type, OS, architecture, and agent_root.",
+    {},
+    async () => {
+      const { config, path } = loadConfig();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(machineDetail(config, path), null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_list_projects ---
+  if (shouldRegister("hop_list_projects")) server.tool(
+    "hop_list_projects",
+    "List all projects registered in hop.json. Returns name, path, and type for each project.",
+    {
+      type: z
+        .string()
+        .optional()
+        .describe("Filter projects by type (e.g., 'tool', 'website', 'dev-env')"),
+    },
+    async ({ type }) => {
+      const { config } = loadConfig();
+      let projects = config.projects ?? [];
+
+      if (type) {
+        projects = projects.filter((p) => p.type === type);
+      }
+
+      const summary = projects.map((p) => ({
+        name: p.name,
+        path: p.path ?? null,
+        type: p.type ?? null,
+        system: p.system ?? null,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ count: summary.length, projects: summary }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_get_project ---
+  if (shouldRegister("hop_get_project")) server.tool(
+    "hop_get_project",
+    "Get full details for a specific project by name. Returns all fields including git config, extensions, and integrations.",
+    {
+      name: z.string().describe("Project name (slug) to look up; a unique prefix, case variant or directory name also matches"),
+    },
+    async ({ name }) => {
+      const { config } = loadConfig();
+      const result = resolveProject(config, name);
+      if (result.status !== "found") {
+        return unresolved("Project", name, result, { available_projects: (config.projects ?? []).map((p) => p.name) });
+      }
+      const project = result.match.value;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(project, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_current_project ---
+  if (shouldRegister("hop_current_project")) server.tool(
+    "hop_current_project",
+    "Find the project you are working in: the deepest registered project, branch checkout (branch_checkouts) or infra repo containing a directory. Returns its bundles, system and the GitHub account to use.",
+    {
+      path: z
+        .string()
+        .optional()
+        .describe("Directory to look up (default: the server's working directory)"),
+    },
+    async ({ path }) => {
+      const { config } = loadConfig();
+      const dir = path ?? process.cwd();
+      const match = projectForPath(config, dir);
+
+      if (!match) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  error: `${dir} is not inside any project, branch checkout or infra repo in hop.json`,
+                  agent_root: config.machine.agent_root ?? null,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(match, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_get_account ---
+  if (shouldRegister("hop_get_account")) server.tool(
+    "hop_get_account",
+    "Get account information by service (e.g., 'github'). Optionally filter by username. Returns all matching accounts.",
+    {
+      service: z
+        .string()
+        .describe("Service name (e.g., 'github')"),
+      username: z
+        .string()
+        .optional()
+        .describe("Optional username to filter by"),
+    },
+    async ({ service, username }) => {
+      const { config } = loadConfig();
+      const accounts = config.accounts;
+
+      if (!accounts) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ error: "No accounts configured in hop.json" }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const serviceAccounts = accounts[service];
+      if (!serviceAccounts || !Array.isArray(serviceAccounts)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  error: `No accounts found for service '${service}'`,
+                  available_services: Object.keys(accounts),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      let results = serviceAccounts;
+      if (username) {
+        results = serviceAccounts.filter(
+          (a: any) => a.username === username
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              { service, count: results.length, accounts: results },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_project_account ---
+  if (shouldRegister("hop_project_account")) server.tool(
+    "hop_project_account",
+    "Get the GitHub account a project pushes with: its auth method, git_alias SSH host and the remote rewritten to use it, plus the precedence steps that chose it (account_override, else the default account, else the only active account). Check this before pushing.",
+    {
+      project: z
+        .string()
+        .optional()
+        .describe("Project name; a unique prefix, case variant or directory name also matches. Default: the project containing `path`"),
+      path: z
+        .string()
+        .optional()
+        .describe("Directory to find the project by when `project` is omitted (default: the server's working directory)"),
+    },
+    async ({ project: query, path }) => {
+      const { config } = loadConfig();
+      let project: Project | undefined;
+      if (query) {
+        const result = resolveProject(config, query);
+        if (result.status !== "found") {
+          return unresolved("Project", query, result, { available_projects: (config.projects ?? []).map((p) => p.name) });
+        }
+        project = result.match.value;
+      } else {
+        const dir = path ?? process.cwd();
+        project = projectForPath(config, dir)?.project;
+        if (!project) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ error: `${dir} is not inside any project in hop.json` }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      const { effective, explanation } = resolveGitHubAccount(config, project);
+      const body = effective
+        ? { project: project.name, ...effective, explanation }
+        : { error: `No GitHub account applies to '${project.name}'`, project: project.name, explanation };
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(body, null, 2),
+          },
+        ],
+        ...(effective ? {} : { isError: true }),
+      };
+    }
+  );
+
+  // --- hop_list_bundles ---
+  if (shouldRegister("hop_list_bundles")) server.tool(
+    "hop_list_bundles",
+    "List all bundles defined in hop.json. Bundles are logical groupings of projects for workflow organization. Optionally filter to only bundles containing a specific project.",
+    {
+      project: z
+        .string()
+        .optional()
+        .describe("Filter to bundles containing this project name"),
+    },
+    async ({ project }) => {
+      const { config } = loadConfig();
+      let bundles = config.bundles ?? [];
+
+      if (project) {
+        bundles = bundles.filter((b) => b.projects.includes(project));
+      }
+
+      const summary = bundles.map((b) => ({
+        id: b.id,
+        name: b.name,
+        description: b.description ?? null,
+        projects: b.projects,
+        primary_project: b.primary_project ?? b.projects[0] ?? null,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ count: summary.length, bundles: summary }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_get_bundle ---
+  if (shouldRegister("hop_get_bundle")) server.tool(
+    "hop_get_bundle",
+    "Get full details for a specific bundle by ID, including resolved project details for each member project.",
+    {
+      id: z.string().describe("Bundle ID (slug) to look up; a unique prefix or case variant also matches"),
+    },
+    async ({ id }) => {
+      const { config } = loadConfig();
+      const result = resolveBundle(config, id);
+      if (result.status !== "found") {
+        return unresolved("Bundle", id, result, { available_bundles: (config.bundles ?? []).map((b) => b.id) });
+      }
+      const bundle = result.match.value;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(bundleDetail(config, bundle), null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_list_infra_repos ---
+  if (shouldRegister("hop_list_infra_repos")) server.tool(
+    "hop_list_infra_repos",
+    "List infrastructure repository clones defined in hop.json. Infra repos are read-only reference clones of external repositories used for source inspection, API reference, or building from source.",
+    {},
+    async () => {
+      const { config } = loadConfig();
+      const infra = config.infra_repos;
+
+      if (!infra) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                { path: null, readonly: true, repos: [], count: 0 },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      const repos = (infra.repos ?? []).map((entry) => normalizeInfraRepo(entry));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                path: infra.path ?? null,
+                readonly: infra.readonly !== false,
+                sync: infra.sync ?? null,
+                contribute: infra.contribute ?? null,
+                repos: repos,
+                count: repos.length,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_list_systems ---
+  if (shouldRegister("hop_list_systems")) server.tool(
+    "hop_list_systems",
+    "List all unique systems defined across projects and infra repos. A system groups multiple repos that cooperate to deliver one capability (inspired by Backstage's System Model).",
+    {},
+    async () => {
+      const { config } = loadConfig();
+      const systems = collectSystems(config);
+
+      const result: Array<{
+        system: string;
+        project_count: number;
+        infra_repo_count: number;
+        projects: Array<{ name: string; path: string | null; type: string | null }>;
+        infra_repos: Array<{ name: string; description: string | null; upstream: string | null }>;
+      }> = [];
+      for (const [sysName, data] of systems as Map<string, { projects: Project[]; infraRepos: InfraRepoEntry[] }>) {
+        result.push({
+          system: sysName,
+          project_count: data.projects.length,
+          infra_repo_count: data.infraRepos.length,
+          projects: data.projects.map((p) => ({
+            name: p.name,
+            path: p.path ?? null,
+            type: p.type ?? null,
+          })),
+          infra_repos: data.infraRepos.map((r) => ({
+            name: r.name,
+            description: r.description ?? null,
+            upstream: r.upstream ?? null,
+          })),
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ count: result.length, systems: result }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_get_system ---
+  if (shouldRegister("hop_get_system")) server.tool(
+    "hop_get_system",
+    "Get all projects and infra repos belonging to a specific system. Returns full project details and infra repo metadata for the named system.",
+    {
+      name: z.string().describe("System identifier (lowercase slug) to look up; a unique prefix or case variant also matches"),
+    },
+    async ({ name: query }) => {
+      const { config } = loadConfig();
+      const result = resolveSystem(config, query);
+      if (result.status !== "found") {
+        return unresolved("System", query, result, { available_systems: Array.from(collectSystems(config).keys()) });
+      }
+      const { name, value: system } = result.match;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(systemDetail(name, system), null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_list_harnesses ---
+  if (shouldRegister("hop_list_harnesses")) server.tool(
+    "hop_list_harnesses",
+    "List the agent harnesses declared in hop.json (Claude Code, Codex, ...) with where each keeps its config and whether that config exists on this machine. Use hop_observe_harness to see what one has active.",
+    {},
+    async () => {
+      const { config } = loadConfig();
+      const harnesses = (config.harnesses ?? []).map((h) => ({
+        name: h.name,
+        type: h.type ?? null,
+        config: h.config ?? null,
+        installed: h.config ? existsSync(h.config) : false,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ count: harnesses.length, harnesses }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_observe_harness ---
+  if (shouldRegister("hop_observe_harness")) server.tool(
+    "hop_observe_harness",
+    "Read back what an agent harness currently has active: MCP servers (with the scope and file declaring each), known marketplaces, installed plugins and skill directories. The result is local findings only; always pass on its `disclosures`, which say what could not be seen (account-provisioned MCP servers, for one).",
+    {
+      name: z.string().describe("Harness name from hop.json; a unique prefix or case variant also matches"),
+    },
+    async ({ name }) => {
+      const { config } = loadConfig();
+      const result = resolveHarness(config, name);
+      if (result.status !== "found") {
+        return unresolved("Harness", name, result, { available_harnesses: (config.harnesses ?? []).map((h) => h.name) });
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(observeHarness(result.match.value), null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_list_runtimes ---
+  if (shouldRegister("hop_list_runtimes")) server.tool(
+    "hop_list_runtimes",
+    "List the installed programs declared in hop.json's runtimes, with the entrypoint to invoke and the manager that owns each (anything package-managed should not be moved by hand).",
+    {},
+    async () => {
+      const { config } = loadConfig();
+      const runtimes = (config.runtimes ?? []).map((r) => ({
+        name: r.name,
+        entrypoint: r.entrypoint ?? null,
+        manager: r.manager ?? null,
+        entrypoint_exists: r.entrypoint ? existsSync(r.entrypoint) : null,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ count: runtimes.length, runtimes }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_get_runtime ---
+  if (shouldRegister("hop_get_runtime")) server.tool(
+    "hop_get_runtime",
+    "Get one runtime by name: entrypoint, payload and config directories, manager and upgrade command, plus which of those paths exist on this machine.",
+    {
+      name: z.string().describe("Runtime name from hop.json; a unique prefix or case variant also matches"),
+    },
+    async ({ name }) => {
+      const { config } = loadConfig();
+      const result = resolveRuntime(config, name);
+      if (result.status !== "found") {
+        return unresolved("Runtime", name, result, { available_runtimes: (config.runtimes ?? []).map((r) => r.name) });
+      }
+      const runtime = result.match.value;
+      const exists: Record<string, boolean> = {};
+      for (const key of ["entrypoint", "payload", "config"] as const) {
+        const path = runtime[key];
+        if (path) exists[key] = existsSync(path);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ ...runtime, exists }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_list_services ---
+  if (shouldRegister("hop_list_services")) server.tool(
+    "hop_list_services",
+    "List the services declared in hop.json (HTTP endpoints and CLI binaries agents talk to), with whether each one's token_env variable is set in this server's environment. Token values are never returned.",
+    {},
+    async () => {
+      const { config } = loadConfig();
+      const services = Object.entries(config.services ?? {}).map(([name, s]) => serviceDetail(name, s));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ count: services.length, services }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_get_service ---
+  if (shouldRegister("hop_get_service")) server.tool(
+    "hop_get_service",
+    "Get one service by name: url, binary, description, the token_env variable it authenticates with and whether that is set here (never its value).",
+    {
+      name: z.string().describe("Service name from hop.json; a unique prefix or case variant also matches"),
+    },
+    async ({ name }) => {
+      const { config } = loadConfig();
+      const result = resolveService(config, name);
+      if (result.status !== "found") {
+        return unresolved("Service", name, result, { available_services: Object.keys(config.services ?? {}) });
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(serviceDetail(result.match.name, result.match.value), null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- hop_check_service ---
+  if (shouldRegister("hop_check_service")) server.tool(
+    "hop_check_service",
+    "Check that a service is there: request its url without credentials (any HTTP status counts as reachable) and/or look its binary up on PATH without running it. Use before relying on a service, or to explain why a call to it failed.",
+    {
+      name: z.string().describe("Service name from hop.json; a unique prefix or case variant also matches"),
+      timeout_ms: z
+        .number()
+        .int()
+        .min(100)
+        .max(30000)
+        .optional()
+        .describe(`How long to wait for the url to answer (default: ${DEFAULT_PROBE_TIMEOUT_MS})`),
+    },
+    async ({ name, timeout_ms }) => {
+      const { config } = loadConfig();
+      const result = resolveService(config, name);
+      if (result.status !== "found") {
+        return unresolved("Service", name, result, { available_services: Object.keys(config.services ?? {}) });
+      }
+      const { name: serviceName, value: service } = result.match;
+      if (!service.url && !service.binary) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ error: `Service '${serviceName}' declares neither url nor binary; there is nothing to check` }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const probe = await probeService(service, timeout_ms ?? DEFAULT_PROBE_TIMEOUT_MS);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ ...serviceDetail(serviceName, service), ...probe }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // ---------- Resources ----------
+  // The same data as read-only resources, for harnesses that attach resources
+  // to context instead of calling tools. HOP_MCP_TOOLS does not affect these.
+  // A URI identifies one entry, so names match exactly: fuzzy matching is for
+  // tools and completion, and a near-miss URI would never see updates.
+
+  server.resource(
+    "machine",
+    "hop://machine",
+    { description: "Machine identity from hop.json, with the config path and schema version", mimeType: JSON_MIME },
+    async (uri) => {
+      const { config, path } = loadConfig();
+      return jsonResource(uri, machineDetail(config, path));
+    }
+  );
+
+  server.resource(
+    "config",
+    "hop://config",
+    { description: "The whole hop.json, with any extends chain merged", mimeType: JSON_MIME },
+    async (uri) => jsonResource(uri, loadConfig().config)
+  );
+
+  server.resource(
+    "project",
+    new ResourceTemplate("hop://projects/{name}", {
+      list: async () => ({
+        resources: (loadConfig().config.projects ?? []).map((p) => ({
+          uri: `hop://projects/${encodeURIComponent(p.name)}`,
+          name: p.name,
+          ...(p.description ? { description: p.description } : {}),
+          mimeType: JSON_MIME,
+        })),
+      }),
+      complete: { name: completeFrom(projectNames) },
+    }),
+    { description: "One project from hop.json, as hop_get_project returns it", mimeType: JSON_MIME },
+    async (uri, { name }) => {
+      const { config } = loadConfig();
+      const project = (config.projects ?? []).find((p) => p.name === variable(name));
+      if (!project) notFound(uri, "project", variable(name), projectNames(config));
+      return jsonResource(uri, project);
+    }
+  );
+
+  server.resource(
+    "bundle",
+    new ResourceTemplate("hop://bundles/{id}", {
+      list: async () => ({
+        resources: (loadConfig().config.bundles ?? []).map((b) => ({
+          uri: `hop://bundles/${encodeURIComponent(b.id)}`,
+          name: b.id,
+          description: b.description ?? b.name,
+          mimeType: JSON_MIME,
+        })),
+      }),
+      complete: { id: completeFrom(bundleIds) },
+    }),
+    { description: "One bundle with its member projects, as hop_get_bundle returns it", mimeType: JSON_MIME },
+    async (uri, { id }) => {
+      const { config } = loadConfig();
+      const bundle = (config.bundles ?? []).find((b) => b.id === variable(id));
+      if (!bundle) notFound(uri, "bundle", variable(id), bundleIds(config));
+      return jsonResource(uri, bundleDetail(config, bundle));
+    }
+  );
+
+  server.resource(
+    "system",
+    new ResourceTemplate("hop://systems/{name}", {
+      list: async () => ({
+        resources: Array.from(collectSystems(loadConfig().config), ([name, system]) => ({
+          uri: `hop://systems/${encodeURIComponent(name)}`,
+          name,
+          description: `${system.projects.length} projects, ${system.infraRepos.length} infra repos`,
+          mimeType: JSON_MIME,
+        })),
+      }),
+      complete: { name: completeFrom(systemNames) },
+    }),
+    { description: "The projects and infra repos of one system, as hop_get_system returns them", mimeType: JSON_MIME },
+    async (uri, { name }) => {
+      const { config } = loadConfig();
+      const system = collectSystems(config).get(variable(name));
+      if (!system) notFound(uri, "system", variable(name), systemNames(config));
+      return jsonResource(uri, systemDetail(variable(name), system));
+    }
+  );
+
+  // ---------- Change notifications ----------
+
+  const subscriptions = new Set<string>();
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+    subscriptions.add(params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+    subscriptions.delete(params.uri);
+    return {};
+  });
+
+  // Called from the file watcher, where a rejected send would be unhandled:
+  // a client that just disconnected must not take the server down with it.
+  function send(what: string, sending: () => Promise<void>) {
+    sending().catch((err) => {
+      console.error(`hop-mcp: could not send ${what}:`, err instanceof Error ? err.message : err);
+    });
+  }
+
+  function notify(previous: ResourceSnapshot, next: ResourceSnapshot) {
+    const sameList = previous.size === next.size && [...next.keys()].every((uri) => previous.has(uri));
+    if (!sameList) send("resources/list_changed", () => server.server.sendResourceListChanged());
+    for (const uri of subscriptions) {
+      if (previous.get(uri) !== next.get(uri)) send(`resources/updated for ${uri}`, () => server.server.sendResourceUpdated({ uri }));
+    }
+  }
+
+  return { server, notify };
+}
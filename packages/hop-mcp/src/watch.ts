@@ -0,0 +1,114 @@
+/**
+ * Watch the files a running server's answers come from: the discovered
+ * hop.json, every file in its `extends` chain, and ~/.hop/settings.json
+ * (which can point discovery somewhere else entirely).
+ *
+ * Editors often save by writing a temp file and renaming it over the
+ * original, which replaces the inode a file watch is attached to. So the
+ * parent directories are watched instead, filtered by file name, and the
+ * set is worked out again after every change in case `extends` or the
+ * settings pointer now lead to different files.
+ */
+
+import { watch, existsSync, type FSWatcher } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { discoverHopPath, loadResolvedHopConfig, HOP_DIR } from "@hop-org/hop-spec-core";
+
+export interface HopConfigWatcher {
+  /** The files currently watched. */
+  readonly files: string[];
+  close(): void;
+}
+
+/** Events closer together than this are reported as one change. */
+export const WATCH_DEBOUNCE_MS = 150;
+
+/** The files whose contents decide what loadConfig() returns. */
+export function watchedFiles(): string[] {
+  const files = [join(HOP_DIR, "settings.json")];
+  const hopPath = discoverHopPath();
+  if (!hopPath) return files;
+  try {
+    files.push(...loadResolvedHopConfig(hopPath).files);
+  } catch {
+    // Mid-edit or invalid: the file itself is still worth watching
+  }
+  if (!files.includes(hopPath)) files.push(hopPath);
+  return files;
+}
+
+/**
+ * Call `onChange` with the changed paths once the watched files have been
+ * quiet for `debounceMs`. Files that do not exist yet are watched for
+ * creation, as long as their directory exists.
+ */
+export function watchHopConfig(
+  onChange: (changed: string[]) => void,
+  debounceMs = WATCH_DEBOUNCE_MS
+): HopConfigWatcher {
+  const watchers = new Map<string, FSWatcher>();
+  const pending = new Set<string>();
+  let files: string[] = [];
+  let byDir = new Map<string, Set<string>>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const flush = () => {
+    timer = undefined;
+    if (closed) return;
+    const changed = [...pending];
+    pending.clear();
+    arm();
+    onChange(changed);
+  };
+
+  function arm() {
+    files = watchedFiles();
+    byDir = new Map<string, Set<string>>();
+    for (const file of files) {
+      const names = byDir.get(dirname(file)) ?? new Set<string>();
+      names.add(basename(file));
+      byDir.set(dirname(file), names);
+    }
+
+    for (const [dir, watcher] of watchers) {
+      if (!byDir.has(dir)) {
+        watcher.close();
+        watchers.delete(dir);
+      }
+    }
+    for (const dir of byDir.keys()) {
+      if (watchers.has(dir) || !existsSync(dir)) continue;
+      try {
+        const watcher = watch(dir, { persistent: false }, (_event, filename) => {
+          const name = filename?.toString();
+          // Some platforms omit the name; treat that as any watched file changing
+          if (name && !byDir.get(dir)?.has(name)) return;
+          pending.add(name ? join(dir, name) : dir);
+          if (timer) clearTimeout(timer);
+          timer = setTimeout(flush, debounceMs);
+        });
+        watcher.on("error", () => {
+          watcher.close();
+          watchers.delete(dir);
+        });
+        watchers.set(dir, watcher);
+      } catch {
+        // Unwatchable directory (permissions, too many watches): skip it
+      }
+    }
+  }
+
+  arm();
+  return {
+    get files() {
+      return files;
+    },
+    close() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
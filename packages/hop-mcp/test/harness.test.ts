@@ -0,0 +1,100 @@
+/**
+ * Tests for the harness and runtime MCP tools: hop_list_harnesses,
+ * hop_observe_harness, hop_list_runtimes and hop_get_runtime.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { join } from "node:path";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+
+const SERVER_PATH = join(import.meta.dir, "..", "src", "index.ts");
+const TEST_HOME = mkdtempSync(join(tmpdir(), "hop-mcp-harness-test-"));
+const hopFile = join(TEST_HOME, "hop.json");
+const claudeConfig = join(TEST_HOME, ".claude.json");
+const nodeBin = join(TEST_HOME, "bin", "node");
+
+let client: Client;
+
+beforeAll(async () => {
+  mkdirSync(join(TEST_HOME, "bin"), { recursive: true });
+  writeFileSync(nodeBin, "");
+  writeFileSync(claudeConfig, JSON.stringify({ mcpServers: { hop: {}, search: {} } }));
+  writeFileSync(hopFile, JSON.stringify({
+    schema_version: "0.1.0",
+    machine: { id: "harness", name: "Harness" },
+    harnesses: [
+      { name: "claude-code", type: "claude-code", config: claudeConfig },
+      { name: "codex", type: "codex", config: join(TEST_HOME, ".codex", "config.toml") },
+    ],
+    runtimes: [
+      { name: "node", entrypoint: nodeBin, payload: join(TEST_HOME, "node-dist"), manager: "manual" },
+      { name: "bun", manager: "bun" },
+    ],
+  }));
+
+  const transport = new StdioClientTransport({
+    command: "bun",
+    args: [SERVER_PATH],
+    env: { ...process.env, HOME: TEST_HOME, HOP_CONFIG_PATH: hopFile },
+  });
+  client = new Client({ name: "test-harness-client", version: "0.1.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+async function call(name: string, args: Record<string, unknown> = {}) {
+  const result = await client.callTool({ name, arguments: args });
+  const text = (result.content as Array<{ type: string; text: string }>)[0].text;
+  return { isError: result.isError, body: JSON.parse(text) };
+}
+
+describe("hop_list_harnesses / hop_observe_harness", () => {
+  it("lists harnesses with whether their config exists", async () => {
+    const { body } = await call("hop_list_harnesses");
+    expect(body.count).toBe(2);
+    expect(body.harnesses).toEqual([
+      { name: "claude-code", type: "claude-code", config: claudeConfig, installed: true },
+      { name: "codex", type: "codex", config: join(TEST_HOME, ".codex", "config.toml"), installed: false },
+    ]);
+  });
+
+  it("observes a harness by partial name, with its disclosures", async () => {
+    const { body } = await call("hop_observe_harness", { name: "claude" });
+    expect(body).toMatchObject({ name: "claude-code", installed: true, parsed: true });
+    expect(body.mcpServers.map((m: any) => m.name)).toEqual(["hop", "search"]);
+    expect(body.disclosures.length).toBeGreaterThan(0);
+  });
+
+  it("returns suggestions for an unknown harness", async () => {
+    const { isError, body } = await call("hop_observe_harness", { name: "codx" });
+    expect(isError).toBe(true);
+    expect(body).toMatchObject({ did_you_mean: ["codex"], available_harnesses: ["claude-code", "codex"] });
+  });
+});
+
+describe("hop_list_runtimes / hop_get_runtime", () => {
+  it("lists runtimes with their entrypoint and manager", async () => {
+    const { body } = await call("hop_list_runtimes");
+    expect(body.runtimes).toEqual([
+      { name: "node", entrypoint: nodeBin, manager: "manual", entrypoint_exists: true },
+      { name: "bun", entrypoint: null, manager: "bun", entrypoint_exists: null },
+    ]);
+  });
+
+  it("gets one runtime with which of its paths exist", async () => {
+    const { body } = await call("hop_get_runtime", { name: "NODE" });
+    expect(body).toMatchObject({ name: "node", manager: "manual", exists: { entrypoint: true, payload: false } });
+  });
+
+  it("returns an error for an unknown runtime", async () => {
+    const { isError, body } = await call("hop_get_runtime", { name: "python" });
+    expect(isError).toBe(true);
+    expect(body.error).toBe("Runtime 'python' not found");
+  });
+});
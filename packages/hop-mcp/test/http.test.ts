@@ -0,0 +1,183 @@
+/**
+ * Tests for the streamable HTTP transport: bearer-token auth, one server per
+ * session, and session routing.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { join } from "node:path";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import type { Subprocess } from "bun";
+import type { Server } from "node:http";
+import { startHttpServer } from "../src/http.js";
+import type { HopSession } from "../src/server.js";
+
+const FIXTURE_PATH = join(import.meta.dir, "..", "..", "..", "spec", "examples", "hop-example-vps-server.json");
+const SERVER_PATH = join(import.meta.dir, "..", "src", "index.ts");
+const TEST_HOME = mkdtempSync(join(tmpdir(), "hop-mcp-http-test-"));
+const TOKEN = "test-token";
+
+let proc: Subprocess<"ignore", "ignore", "pipe">;
+let url: URL;
+
+/** Read the server's stderr until it says where it is listening. */
+async function listeningUrl(stderr: ReadableStream<Uint8Array>): Promise<URL> {
+  const decoder = new TextDecoder();
+  let output = "";
+  for await (const chunk of stderr) {
+    output += decoder.decode(chunk);
+    const match = /listening on (\S+)/.exec(output);
+    if (match) return new URL(match[1]);
+  }
+  throw new Error(`server exited before listening:\n${output}`);
+}
+
+async function connect(token = TOKEN) {
+  const transport = new StreamableHTTPClientTransport(url, {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  const client = new Client({ name: "test-http-client", version: "0.1.0" });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "curl", version: "0" } },
+};
+
+function post(body: unknown, headers: Record<string, string> = {}, target = url) {
+  return fetch(target, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  proc = Bun.spawn(["bun", SERVER_PATH, "--http", "--port", "0"], {
+    env: { ...process.env, HOME: TEST_HOME, HOP_CONFIG_PATH: FIXTURE_PATH, HOP_MCP_TOKEN: TOKEN },
+    stdin: "ignore",
+    stdout: "ignore",
+    stderr: "pipe",
+  });
+  url = await listeningUrl(proc.stderr);
+});
+
+afterAll(() => {
+  proc.kill();
+});
+
+describe("HTTP transport", () => {
+  it("serves MCP at /mcp on the loopback address by default", () => {
+    expect(url.hostname).toBe("127.0.0.1");
+    expect(url.pathname).toBe("/mcp");
+  });
+
+  it("rejects requests without the bearer token", async () => {
+    const missing = await post(initialize);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toBe("Bearer");
+
+    const wrong = await post(initialize, { Authorization: "Bearer nope" });
+    expect(wrong.status).toBe(401);
+    await expect(connect("nope")).rejects.toThrow();
+  });
+
+  it("gives each client its own session with the full tool set", async () => {
+    const a = await connect();
+    const b = await connect();
+    try {
+      expect(a.transport.sessionId).toBeTruthy();
+      expect(a.transport.sessionId).not.toBe(b.transport.sessionId);
+
+      const { tools } = await a.client.listTools();
+      expect(tools.length).toBe(18);
+      const result = await b.client.callTool({ name: "hop_machine", arguments: {} });
+      const text = (result.content as Array<{ type: string; text: string }>)[0].text;
+      expect(JSON.parse(text).machine.id).toBe("prod-vps");
+    } finally {
+      await a.client.close();
+      await b.client.close();
+    }
+  });
+
+  it("ends a session on DELETE", async () => {
+    const { client, transport } = await connect();
+    const sessionId = transport.sessionId!;
+    await transport.terminateSession();
+    await client.close();
+
+    const res = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, {
+      Authorization: `Bearer ${TOKEN}`,
+      "Mcp-Session-Id": sessionId,
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it("refuses a Host or Origin other than the loopback server itself", async () => {
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+    const rebound = await post(initialize, { ...auth, Host: `evil.example:${url.port}` });
+    expect(rebound.status).toBe(403);
+    expect(await rebound.text()).toContain("Invalid Host header");
+
+    const crossSite = await post(initialize, { ...auth, Origin: "http://evil.example" });
+    expect(crossSite.status).toBe(403);
+    expect(await crossSite.text()).toContain("Invalid Origin header");
+
+    expect((await post(initialize, { ...auth, Host: `localhost:${url.port}` })).status).toBe(200);
+  });
+
+  it("answers 400 to a first request that is not initialize, and 404 off /mcp", async () => {
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+    expect((await post({ jsonrpc: "2.0", id: 1, method: "tools/list" }, auth)).status).toBe(400);
+    expect((await post(initialize, auth, new URL("/other", url))).status).toBe(404);
+  });
+});
+
+describe("idle sessions", () => {
+  let idle: Server;
+  const sessions = new Set<HopSession>();
+
+  beforeAll(async () => {
+    idle = await startHttpServer({ host: "127.0.0.1", port: 0, idleTimeoutMs: 100 }, sessions);
+  });
+
+  afterAll(() => {
+    idle.close();
+  });
+
+  it("closes a session that sends nothing and holds no stream open", async () => {
+    const address = idle.address();
+    const target = new URL(`http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}/mcp`);
+    const res = await post(initialize, {}, target);
+    expect(res.status).toBe(200);
+    await res.body?.cancel();
+    const sessionId = res.headers.get("mcp-session-id")!;
+    expect(sessions.size).toBe(1);
+
+    await Bun.sleep(400);
+    expect(sessions.size).toBe(0);
+    const late = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, { "Mcp-Session-Id": sessionId }, target);
+    expect(late.status).toBe(404);
+  });
+
+  it("keeps a session whose client holds its notification stream open", async () => {
+    const address = idle.address();
+    const target = new URL(`http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}/mcp`);
+    const transport = new StreamableHTTPClientTransport(target);
+    const client = new Client({ name: "test-idle-client", version: "0.1.0" });
+    await client.connect(transport);
+    try {
+      await Bun.sleep(400);
+      expect(sessions.size).toBe(1);
+      expect((await client.listTools()).tools.length).toBe(18);
+    } finally {
+      await client.close();
+    }
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for the hop:// MCP resources: listing, templates, completion and reads.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { join } from "node:path";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+
+const FIXTURE_PATH = join(import.meta.dir, "..", "..", "..", "spec", "examples", "hop-example-vps-server.json");
+const SERVER_PATH = join(import.meta.dir, "..", "src", "index.ts");
+const TEST_HOME = mkdtempSync(join(tmpdir(), "hop-mcp-resources-test-"));
+
+let client: Client;
+
+beforeAll(async () => {
+  const transport = new StdioClientTransport({
+    command: "bun",
+    args: [SERVER_PATH],
+    env: {
+      ...process.env,
+      HOME: TEST_HOME,
+      HOP_CONFIG_PATH: FIXTURE_PATH,
+      // Resources are registered whatever tools are selected
+      HOP_MCP_TOOLS: "hop_machine",
+    },
+  });
+  client = new Client({ name: "test-resources-client", version: "0.1.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+async function read(uri: string) {
+  const result = await client.readResource({ uri });
+  expect(result.contents[0].mimeType).toBe("application/json");
+  return JSON.parse(result.contents[0].text as string);
+}
+
+describe("resource listing", () => {
+  it("lists the fixed resources and every project, bundle and system", async () => {
+    const { resources } = await client.listResources();
+    const uris = resources.map((r) => r.uri);
+    expect(uris).toContain("hop://machine");
+    expect(uris).toContain("hop://config");
+    expect(uris).toContain("hop://projects/api-prod");
+    expect(uris).toContain("hop://bundles/ops");
+    expect(uris).toContain("hop://systems/deployment");
+  });
+
+  it("declares the templates", async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate).sort()).toEqual([
+      "hop://bundles/{id}",
+      "hop://projects/{name}",
+      "hop://systems/{name}",
+    ]);
+  });
+
+  it("completes template variables", async () => {
+    const result = await client.complete({
+      ref: { type: "ref/resource", uri: "hop://projects/{name}" },
+      argument: { name: "name", value: "web" },
+    });
+    expect(result.completion.values).toEqual(["web-prod"]);
+  });
+});
+
+describe("resource reads", () => {
+  it("reads the machine and the whole config", async () => {
+    expect((await read("hop://machine")).machine.id).toBe("prod-vps");
+    const config = await read("hop://config");
+    expect(config.projects.map((p: any) => p.name)).toContain("infra-scripts");
+  });
+
+  it("reads a project, a bundle with resolved projects, and a system", async () => {
+    expect((await read("hop://projects/api-prod")).path).toBe("/home/deploy/projects/api");
+    const bundle = await read("hop://bundles/production");
+    expect(bundle.resolved_projects.map((p: any) => p.name)).toContain("api-prod");
+    const system = await read("hop://systems/deployment");
+    expect(system).toMatchObject({ system: "deployment", infra_repo_count: 2 });
+  });
+
+  it("rejects unknown names with what is available", async () => {
+    await expect(client.readResource({ uri: "hop://projects/nope" })).rejects.toThrow(/no project 'nope'.*api-prod/);
+  });
+
+  it("matches exact names only, not the prefixes tools accept", async () => {
+    await expect(client.readResource({ uri: "hop://projects/api" })).rejects.toThrow(/no project 'api'/);
+    await expect(client.readResource({ uri: "hop://bundles/prod" })).rejects.toThrow(/no bundle 'prod'/);
+    await expect(client.readResource({ uri: "hop://systems/DEPLOYMENT" })).rejects.toThrow(/no system 'DEPLOYMENT'/);
+  });
+});
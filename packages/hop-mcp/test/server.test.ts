@@ -113,6 +113,77 @@ describe("hop_get_project", () => {
     expect(parsed.error).toContain("does-not-exist");
     expect(parsed.available_projects).toContain("api-prod");
   });
+
+  it("resolves a unique prefix and suggests close names", async () => {
+    const prefix = await client.callTool({ name: "hop_get_project", arguments: { name: "web" } });
+    expect(JSON.parse((prefix.content as any)[0].text).name).toBe("web-prod");
+
+    const typo = await client.callTool({ name: "hop_get_project", arguments: { name: "web-prd" } });
+    expect(typo.isError).toBe(true);
+    expect(JSON.parse((typo.content as any)[0].text).did_you_mean).toEqual(["web-prod"]);
+  });
+});
+
+describe("hop_current_project", () => {
+  it("finds the project containing a path", async () => {
+    const result = await client.callTool({
+      name: "hop_current_project",
+      arguments: { path: "/home/deploy/projects/api/src/routes" },
+    });
+    const parsed = JSON.parse((result.content as any)[0].text);
+    expect(parsed.kind).toBe("project");
+    expect(parsed.name).toBe("api-prod");
+    expect(parsed.relative).toBe("src/routes");
+    expect(parsed.bundles.map((b: any) => b.id)).toContain("production");
+    expect(parsed.account.account.username).toBe("deploy-bot");
+  });
+
+  it("returns error outside every project", async () => {
+    const result = await client.callTool({
+      name: "hop_current_project",
+      arguments: { path: "/nowhere/at/all" },
+    });
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as any)[0].text).error).toContain("/nowhere/at/all");
+  });
+});
+
+describe("hop_project_account", () => {
+  it("returns the effective account and the precedence that chose it", async () => {
+    const result = await client.callTool({
+      name: "hop_project_account",
+      arguments: { project: "api" },
+    });
+    const parsed = JSON.parse((result.content as any)[0].text);
+    expect(parsed.project).toBe("api-prod");
+    expect(parsed.account.username).toBe("deploy-bot");
+    expect(parsed.source).toBe("default");
+    expect(parsed.auth_method).toBe("ssh");
+    expect(parsed.git_alias).toBe("bot");
+    expect(parsed.remote_url).toBe("git@bot:myorg/api.git");
+    expect(parsed.explanation).toEqual([
+      "Project 'api-prod' has no account_override.",
+      "'deploy-bot' is the default account.",
+      "'deploy-bot' pushes through SSH host alias 'bot': git@bot:myorg/api.git",
+    ]);
+  });
+
+  it("finds the project by path", async () => {
+    const result = await client.callTool({
+      name: "hop_project_account",
+      arguments: { path: "/home/deploy/projects/web/public" },
+    });
+    expect(JSON.parse((result.content as any)[0].text).project).toBe("web-prod");
+  });
+
+  it("returns error for an unknown project", async () => {
+    const result = await client.callTool({
+      name: "hop_project_account",
+      arguments: { project: "nope" },
+    });
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as any)[0].text).available_projects).toContain("api-prod");
+  });
 });
 
 describe("hop_get_account", () => {
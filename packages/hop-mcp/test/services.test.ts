@@ -0,0 +1,131 @@
+/**
+ * Tests for the service MCP tools: hop_list_services, hop_get_service and
+ * hop_check_service against a local HTTP server and a binary on PATH.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { join } from "node:path";
+import { chmodSync, mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import type { Server } from "bun";
+
+const SERVER_PATH = join(import.meta.dir, "..", "src", "index.ts");
+const TEST_HOME = mkdtempSync(join(tmpdir(), "hop-mcp-services-test-"));
+const BIN = join(TEST_HOME, "bin");
+const hopFile = join(TEST_HOME, "hop.json");
+const TOKEN = "s3cret-value";
+
+let client: Client;
+let http: Server;
+const seenAuth: Array<string | null> = [];
+
+beforeAll(async () => {
+  http = Bun.serve({
+    port: 0,
+    fetch(req) {
+      seenAuth.push(req.headers.get("authorization"));
+      return new Response("unauthorized", { status: 401 });
+    },
+  });
+  // A port nothing listens on: open one, then close it
+  const closed = Bun.serve({ port: 0, fetch: () => new Response() });
+  const closedPort = closed.port;
+  closed.stop(true);
+
+  mkdirSync(BIN, { recursive: true });
+  writeFileSync(join(BIN, "bd"), "#!/bin/sh\nexit 0\n");
+  chmodSync(join(BIN, "bd"), 0o755);
+
+  writeFileSync(hopFile, JSON.stringify({
+    schema_version: "0.1.0",
+    machine: { id: "services", name: "Services" },
+    services: {
+      agent_mail: { url: `http://127.0.0.1:${http.port}/mcp`, token_env: "HOP_TEST_MAIL_TOKEN", description: "Agent mail" },
+      beads: { binary: "bd", token_env: "HOP_TEST_UNSET_TOKEN" },
+      gone: { url: `http://127.0.0.1:${closedPort}/`, binary: "definitely-not-installed-hop" },
+      empty: { description: "Nothing to probe" },
+    },
+  }));
+
+  const transport = new StdioClientTransport({
+    command: "bun",
+    args: [SERVER_PATH],
+    env: {
+      ...process.env,
+      HOME: TEST_HOME,
+      HOP_CONFIG_PATH: hopFile,
+      PATH: `${BIN}:${process.env.PATH}`,
+      HOP_TEST_MAIL_TOKEN: TOKEN,
+    },
+  });
+  client = new Client({ name: "test-services-client", version: "0.1.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  http.stop(true);
+});
+
+async function call(name: string, args: Record<string, unknown> = {}) {
+  const result = await client.callTool({ name, arguments: args });
+  const text = (result.content as Array<{ type: string; text: string }>)[0].text;
+  return { isError: result.isError, text, body: JSON.parse(text) };
+}
+
+describe("hop_list_services / hop_get_service", () => {
+  it("lists services with whether their token is set, never the token", async () => {
+    const { body, text } = await call("hop_list_services");
+    expect(body.count).toBe(4);
+    expect(body.services[0]).toEqual({
+      name: "agent_mail",
+      url: `http://127.0.0.1:${http.port}/mcp`,
+      binary: null,
+      description: "Agent mail",
+      token_env: "HOP_TEST_MAIL_TOKEN",
+      token_env_set: true,
+    });
+    expect(body.services[1]).toMatchObject({ name: "beads", binary: "bd", token_env_set: false });
+    expect(body.services[3]).toMatchObject({ name: "empty", token_env: null, token_env_set: null });
+    expect(text).not.toContain(TOKEN);
+  });
+
+  it("gets a service by partial name and suggests on a typo", async () => {
+    expect((await call("hop_get_service", { name: "agent" })).body).toMatchObject({ name: "agent_mail", token_env_set: true });
+    const { isError, body } = await call("hop_get_service", { name: "bead" });
+    expect(isError).toBeFalsy();
+    expect(body.name).toBe("beads");
+    const typo = await call("hop_get_service", { name: "gnoe" });
+    expect(typo.isError).toBe(true);
+    expect(typo.body.available_services).toContain("gone");
+  });
+});
+
+describe("hop_check_service", () => {
+  it("counts any HTTP answer as reachable and sends no credentials", async () => {
+    const { body } = await call("hop_check_service", { name: "agent_mail" });
+    expect(body).toMatchObject({ healthy: true, url: { reachable: true, status: 401 } });
+    expect(seenAuth.every((auth) => auth === null)).toBe(true);
+  });
+
+  it("finds a binary on PATH without running it", async () => {
+    const { body } = await call("hop_check_service", { name: "beads" });
+    expect(body).toMatchObject({ healthy: true, binary: { found: true, path: join(BIN, "bd") } });
+  });
+
+  it("reports an unreachable url and a missing binary", async () => {
+    const { body } = await call("hop_check_service", { name: "gone", timeout_ms: 1000 });
+    expect(body.healthy).toBe(false);
+    expect(body.url).toMatchObject({ reachable: false });
+    expect(body.url.error).toBeTruthy();
+    expect(body.binary).toMatchObject({ found: false });
+  });
+
+  it("refuses a service with nothing to probe", async () => {
+    const { isError, body } = await call("hop_check_service", { name: "empty" });
+    expect(isError).toBe(true);
+    expect(body.error).toContain("neither url nor binary");
+  });
+});
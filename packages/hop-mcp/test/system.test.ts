@@ -108,6 +108,17 @@ describe("hop_get_system", () => {
     expect(parsed.error).toContain("nonexistent");
     expect(parsed.available_systems).toContain("payments");
   });
+
+  it("resolves a case variant and lists ambiguous project candidates", async () => {
+    const system = await client.callTool({ name: "hop_get_system", arguments: { name: "Payments" } });
+    expect(JSON.parse((system.content as any)[0].text).system).toBe("payments");
+
+    const project = await client.callTool({ name: "hop_get_project", arguments: { name: "api" } });
+    expect(project.isError).toBe(true);
+    const parsed = JSON.parse((project.content as any)[0].text);
+    expect(parsed.error).toContain("matches more than one project");
+    expect(parsed.candidates).toEqual(["api-core", "api-gateway"]);
+  });
 });
 
 describe("hop_list_projects includes system", () => {
@@ -0,0 +1,160 @@
+/**
+ * Tests for resource change notifications: edits to hop.json, its extends
+ * parent and atomic rename-over saves reach a subscribed client, and a
+ * change after the client has gone is logged rather than thrown.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { join } from "node:path";
+import { mkdtempSync, renameSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { createServer } from "../src/server.js";
+
+const SERVER_PATH = join(import.meta.dir, "..", "src", "index.ts");
+const TEST_HOME = mkdtempSync(join(tmpdir(), "hop-mcp-watch-test-"));
+const hopFile = join(TEST_HOME, "hop.json");
+const baseFile = join(TEST_HOME, "base.json");
+
+const base = { schema_version: "0.1.0", bundles: [{ id: "core", name: "Core", projects: ["api"] }] };
+const hop = {
+  extends: "./base.json",
+  machine: { id: "watch", name: "Watch" },
+  projects: [{ name: "api", path: "/srv/api", type: "tool" }],
+};
+
+const write = (path: string, value: unknown) => writeFileSync(path, JSON.stringify(value, null, 2));
+
+let client: Client;
+let events: string[] = [];
+let waiters: Array<() => void> = [];
+
+/** Resolve once `events` has a matching entry; fail after a few seconds. */
+function next(event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`no ${event} within 5s; got ${events.join(", ")}`)), 5000);
+    const check = () => {
+      if (!events.includes(event)) return false;
+      clearTimeout(timeout);
+      resolve();
+      return true;
+    };
+    if (!check()) waiters.push(check);
+  });
+}
+
+function record(event: string) {
+  events.push(event);
+  waiters = waiters.filter((check) => !check());
+}
+
+/** Let the debounce window pass with nothing arriving. */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 600));
+
+beforeAll(async () => {
+  write(baseFile, base);
+  write(hopFile, hop);
+  const transport = new StdioClientTransport({
+    command: "bun",
+    args: [SERVER_PATH],
+    env: { ...process.env, HOME: TEST_HOME, HOP_CONFIG_PATH: hopFile },
+  });
+  client = new Client({ name: "test-watch-client", version: "0.1.0" });
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => record("list_changed"));
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, async ({ params }) => record(`updated ${params.uri}`));
+  await client.connect(transport);
+  await client.subscribeResource({ uri: "hop://projects/api" });
+  await client.subscribeResource({ uri: "hop://bundles/core" });
+  // Give the watcher time to arm before the first edit
+  await settle();
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+describe("resource change notifications", () => {
+  it("advertises subscribe and listChanged", () => {
+    expect(client.getServerCapabilities()?.resources).toMatchObject({ subscribe: true, listChanged: true });
+  });
+
+  it("sends updated for a subscribed resource whose content changed, and nothing else", async () => {
+    events = [];
+    write(hopFile, { ...hop, projects: [{ ...hop.projects[0], description: "The API" }] });
+    await next("updated hop://projects/api");
+    await settle();
+    expect(events).toEqual(["updated hop://projects/api"]);
+  });
+
+  it("sends list_changed when a project is added", async () => {
+    events = [];
+    write(hopFile, { ...hop, projects: [...hop.projects, { name: "web", path: "/srv/web" }] });
+    await next("list_changed");
+    const { resources } = await client.listResources();
+    expect(resources.map((r) => r.uri)).toContain("hop://projects/web");
+  });
+
+  it("follows the extends parent", async () => {
+    events = [];
+    write(baseFile, { ...base, bundles: [{ ...base.bundles[0], description: "Core services" }] });
+    await next("updated hop://bundles/core");
+  });
+
+  it("survives hop.json being replaced by a rename, and keeps watching", async () => {
+    events = [];
+    const tmp = join(TEST_HOME, ".hop.json.swp");
+    write(tmp, { ...hop, projects: [{ ...hop.projects[0], type: "website" }] });
+    renameSync(tmp, hopFile);
+    await next("updated hop://projects/api");
+
+    events = [];
+    write(hopFile, hop);
+    await next("updated hop://projects/api");
+  });
+
+  it("sends nothing for an invalid save, then reports the change once it loads again", async () => {
+    // The previous save also changed the bundle; let that notification land first
+    await settle();
+    events = [];
+    writeFileSync(hopFile, "{ not json");
+    await settle();
+    expect(events).toEqual([]);
+
+    write(hopFile, { ...hop, projects: [{ ...hop.projects[0], path: "/srv/fixed" }] });
+    await next("updated hop://projects/api");
+  });
+});
+
+describe("notifying a closed session", () => {
+  it("logs the failed sends instead of rejecting", async () => {
+    const session = createServer();
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    const closedClient = new Client({ name: "test-closed-client", version: "0.1.0" });
+    await session.server.connect(serverSide);
+    await closedClient.connect(clientSide);
+    await closedClient.subscribeResource({ uri: "hop://projects/api" });
+    await closedClient.close();
+
+    const rejections: unknown[] = [];
+    const onRejection = (reason: unknown) => rejections.push(reason);
+    process.on("unhandledRejection", onRejection);
+    const logged = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      session.notify(new Map([["hop://projects/api", "old"]]), new Map([["hop://projects/web", "new"]]));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(rejections).toEqual([]);
+      const messages = logged.mock.calls.map((call) => String(call[0]));
+      expect(messages).toContain("hop-mcp: could not send resources/list_changed:");
+      expect(messages).toContain("hop-mcp: could not send resources/updated for hop://projects/api:");
+    } finally {
+      logged.mockRestore();
+      process.off("unhandledRejection", onRejection);
+    }
+  });
+});